@@ -3,20 +3,25 @@ import { Toaster } from "sonner";
 
 import { IncidentProvider } from "./providers/IncidentProvider";
 import { AuthProvider } from "./providers/AuthProvider";
+import { LanguageProvider } from "./providers/LanguageProvider";
+import { TrainingModeBanner } from "./app/components/TrainingModeBanner";
 
 
 export default function App() {
 	return (
-		<AuthProvider>
-			<IncidentProvider>
-				<div className="min-h-screen bg-[#FFFFFF] text-[#4A1A1A]">
+		<LanguageProvider>
+			<AuthProvider>
+				<IncidentProvider>
+					<div className="min-h-screen bg-[#FFFFFF] text-[#4A1A1A]">
+						<TrainingModeBanner />
 
-					<main className="mx-auto w-full max-w-6xl ">
-						<Outlet />
-					</main>
-				</div>
-				<Toaster position="top-center" richColors />
-			</IncidentProvider>
-		</AuthProvider>
+						<main className="mx-auto w-full max-w-6xl ">
+							<Outlet />
+						</main>
+					</div>
+					<Toaster position="top-center" richColors />
+				</IncidentProvider>
+			</AuthProvider>
+		</LanguageProvider>
 	);
 }
@@ -10,9 +10,14 @@ import { useIncidentData } from "../providers/IncidentProvider";
 import { useOnlineStatus } from "./hooks/useOnlineStatus";
 import { usePWAInstallPrompt } from "./hooks/usePWAInstallPrompt";
 import { useNearbyIncidents } from "./hooks/useNearbyIncidents";
+import { useDispatchBoard } from "./hooks/useDispatchBoard";
+import { getCrewIncidentIds } from "./utils/dispatch";
 import { useLiveQuery } from "dexie-react-hooks";
 import { db, type IncidentReport } from "../db/db";
 import { useSyncManager } from "./hooks/useSyncManager";
+import { useLanguage } from "./hooks/useLanguage";
+import { toReportAttachments, type DraftAttachment } from "./utils/attachments";
+import { requestBackgroundSync } from "./utils/backgroundSync";
 // Auth is handled via AuthProvider - no direct service imports needed here
 import type { SignupData } from "./services/authService";
 import {
@@ -60,14 +65,21 @@ function toastBlack(
 
 // ✅ Loading toast (syncing)
 export default function EmergencyResponseRoute() {
-    const { incidents: activeIncidents } = useIncidentData();
+    const { incidents: activeIncidents, updateIncidentStatus } = useIncidentData();
     const nearbyIncidents = useNearbyIncidents(activeIncidents);
     const [currentScreen, setCurrentScreen] = useState<Screen>("login");
     const [installBannerDismissed, setInstallBannerDismissed] = useState(false);
 
     const { isAuthenticated, isAdmin, isLoading, user, session, logout: authLogout, login: authLogin, signup: authSignup } = useAuth();
-    const { sync } = useSyncManager(session);
+    const { sync, retry, isSyncing, progress: syncProgress } = useSyncManager(session);
     const navigate = useNavigate();
+    const { t } = useLanguage();
+    const { units, assignments } = useDispatchBoard();
+    const userId = user?.id;
+    const crewIncidentIds = useMemo(
+        () => (userId ? getCrewIncidentIds(userId, units, assignments) : undefined),
+        [userId, units, assignments],
+    );
 
 
 
@@ -125,31 +137,31 @@ export default function EmergencyResponseRoute() {
         // Delegate to AuthProvider - it handles session, storage, and state updates
         await authLogin(email, password);
         // Navigation is handled by the useEffect that watches isAuthenticated/isAdmin
-        toastBlack("Logged in successfully", { icon: icons.login });
+        toastBlack(t("toast.loggedIn"), { icon: icons.login });
     };
 
     const handleSignup = async (data: SignupData) => {
         await authSignup(data);
-        toastBlack("Account created! Please check your email to verify.", { icon: icons.success });
+        toastBlack(t("toast.accountCreated"), { icon: icons.success });
     };
 
     const handleLogout = async () => {
         await authLogout();
-        toastBlack("Logged out", { icon: icons.logout });
+        toastBlack(t("toast.loggedOut"), { icon: icons.logout });
     };
 
     const handleInstallPWA = async () => {
         const choice = await promptInstall();
 
         if (!choice) {
-            toastBlack("Install prompt unavailable", { icon: icons.info });
+            toastBlack(t("toast.installUnavailable"), { icon: icons.info });
             return;
         }
 
         if (choice.outcome === "accepted") {
-            toastBlack("Installing Nodus...", { icon: icons.success });
+            toastBlack(t("toast.installing"), { icon: icons.success });
         } else {
-            toastBlack("Install dismissed", { icon: icons.info });
+            toastBlack(t("toast.installDismissed"), { icon: icons.info });
         }
     };
 
@@ -160,6 +172,7 @@ export default function EmergencyResponseRoute() {
 
     const handleSaveIncident = async (
         reportData: Omit<IncidentReport, "id" | "createdAt" | "status" | "userId">,
+        attachments: DraftAttachment[],
     ) => {
         console.log("[EmergencyResponse] Saving incident. Current User:", user);
 
@@ -173,37 +186,47 @@ export default function EmergencyResponseRoute() {
 
         console.log("[EmergencyResponse] New Report Object:", newReport);
 
-        await db.reports.add(newReport);
-        toastBlack("Report saved locally", { icon: icons.saved });
+        // One transaction so the sync manager never sees a report without its photos
+        await db.transaction("rw", db.reports, db.attachments, async () => {
+            await db.reports.add(newReport);
+            await db.attachments.bulkAdd(
+                toReportAttachments(attachments, newReport.id, newReport.createdAt),
+            );
+        });
+        toastBlack(t("toast.reportSaved"), { icon: icons.saved });
         setCurrentScreen("home");
 
         if (isOnline) {
             syncReports();
+        } else {
+            // Uploads from the service worker once there's signal, even if the app is closed
+            requestBackgroundSync();
         }
     };
 
     const syncReports = async () => {
         if (!isOnline) {
-            toastBlack("Cannot sync while offline", { icon: icons.offline });
+            toastBlack(t("toast.cannotSyncOffline"), { icon: icons.offline });
             return;
         }
         // Trigger real sync via provider
         // useSyncManager handles the logic of ignoring offline users or empty queues
-        await sync();
+        // The responder asked for it, so reports waiting out a backoff go now too
+        await sync({ ignoreBackoff: true });
 
         // Optionally give feedback based on remaining count? 
         // But internal component state isn't exposed. 
         // We can just trust the toast from the useEffect or add a generic one.
     };
 
-    const handleRetrySync = async (_reportId: string) => {
+    const handleRetrySync = async (reportId: string) => {
         if (!isOnline) {
-            toastBlack("Cannot retry while offline", { icon: icons.offline });
+            toastBlack(t("toast.cannotRetryOffline"), { icon: icons.offline });
             return;
         }
 
-        toastBlack("Retrying sync...", { icon: icons.retry });
-        await sync(); // Sync all pending
+        toastBlack(t("toast.retrying"), { icon: icons.retry });
+        await retry(reportId);
     };
 
     const pendingCount = reports.filter((r) => r.status !== "synced").length;
@@ -239,9 +262,9 @@ export default function EmergencyResponseRoute() {
                 >
                     <div>
                         <p style={{ fontWeight: 600, color: BLACK, margin: 0 }}>
-                            Install Nodus
+                            {t("install.title")}
                         </p>
-                        <p style={{ margin: 0, color: "#4A4A4A" }}>Report Immediately</p>
+                        <p style={{ margin: 0, color: "#4A4A4A" }}>{t("install.subtitle")}</p>
                     </div>
 
                     <div style={{ display: "flex", gap: 12 }}>
@@ -257,7 +280,7 @@ export default function EmergencyResponseRoute() {
                                 fontWeight: 600,
                             }}
                         >
-                            Install
+                            {t("install.install")}
                         </button>
                         <button
                             onClick={handleDismissInstallBanner}
@@ -271,7 +294,7 @@ export default function EmergencyResponseRoute() {
                                 fontWeight: 600,
                             }}
                         >
-                            Later
+                            {t("install.later")}
                         </button>
                     </div>
                 </div>
@@ -286,6 +309,8 @@ export default function EmergencyResponseRoute() {
                     onLogout={handleLogout}
                     remoteIncidents={activeIncidents}
                     nearbyIncidents={nearbyIncidents}
+                    onAcknowledge={(incidentId) => updateIncidentStatus(incidentId, "Responding")}
+                    crewIncidentIds={crewIncidentIds}
                 />
             )}
 
@@ -304,6 +329,8 @@ export default function EmergencyResponseRoute() {
                     onBack={() => setCurrentScreen("home")}
                     onSync={syncReports}
                     onRetry={handleRetrySync}
+                    isSyncing={isSyncing}
+                    syncProgress={syncProgress}
                 />
             )}
         </>
@@ -0,0 +1,27 @@
+import type { Backend, BackendKind } from './repositories';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+import { createTrainingBackend } from './trainingBackend';
+import { TRAINING_MODE } from '../utils/trainingMode';
+
+/** Chosen at build time with VITE_BACKEND; anything but `local` means Supabase */
+export const BACKEND_KIND: BackendKind = import.meta.env.VITE_BACKEND === 'local' ? 'local' : 'supabase';
+
+export interface BackendOptions {
+    /** Fixed Supabase token for contexts without an auth session, such as the service worker */
+    accessToken?: string;
+}
+
+export function createBackend({ accessToken }: BackendOptions = {}): Backend {
+    const operational = BACKEND_KIND === 'local' ? createLocalBackend() : createSupabaseBackend({ accessToken });
+    // Never set in the service worker, which only uploads the operational queue
+    return TRAINING_MODE ? createTrainingBackend(operational) : operational;
+}
+
+let backend: Backend | null = null;
+
+/** The page's backend, shared by every service */
+export function getBackend(): Backend {
+    backend ??= createBackend();
+    return backend;
+}
@@ -0,0 +1,84 @@
+import type { IncidentTypeDefinition, ReportFormField, ReportFormFieldKind } from '../../types/incident';
+
+/** `incident_types` and `report_form_fields` rows, and their mapping to the app's types */
+
+export interface IncidentTypeRow {
+    id: string;
+    label: string;
+    labels: Record<string, string> | null;
+    icon: string;
+    color: string;
+    keywords: Record<string, string[]> | null;
+    enabled: boolean;
+    sort_order: number;
+    updated_at?: string;
+}
+
+export function fromIncidentTypeRow(row: IncidentTypeRow): IncidentTypeDefinition {
+    return {
+        id: row.id,
+        label: row.label,
+        labels: row.labels ?? {},
+        icon: row.icon,
+        color: row.color,
+        keywords: row.keywords ?? {},
+        enabled: row.enabled,
+        sortOrder: row.sort_order,
+        updatedAt: row.updated_at,
+    };
+}
+
+export function toIncidentTypeRow(type: IncidentTypeDefinition): IncidentTypeRow {
+    return {
+        id: type.id,
+        label: type.label,
+        labels: type.labels,
+        icon: type.icon,
+        color: type.color,
+        keywords: type.keywords,
+        enabled: type.enabled,
+        sort_order: type.sortOrder,
+    };
+}
+
+export interface ReportFormFieldRow {
+    id: string;
+    label: string;
+    labels: Record<string, string> | null;
+    kind: ReportFormFieldKind;
+    required: boolean;
+    options: string[] | null;
+    incident_types: string[] | null;
+    enabled: boolean;
+    sort_order: number;
+    updated_at?: string;
+}
+
+export function fromFormFieldRow(row: ReportFormFieldRow): ReportFormField {
+    return {
+        id: row.id,
+        label: row.label,
+        labels: row.labels ?? {},
+        kind: row.kind,
+        required: row.required,
+        options: row.options ?? [],
+        incidentTypes: row.incident_types ?? [],
+        enabled: row.enabled,
+        sortOrder: row.sort_order,
+        updatedAt: row.updated_at,
+    };
+}
+
+export function toFormFieldRow(field: ReportFormField): ReportFormFieldRow {
+    return {
+        id: field.id,
+        label: field.label,
+        labels: field.labels,
+        kind: field.kind,
+        required: field.required,
+        options: field.options,
+        incident_types: field.incidentTypes,
+        enabled: field.enabled,
+        sort_order: field.sortOrder,
+    };
+}
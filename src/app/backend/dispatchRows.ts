@@ -0,0 +1,65 @@
+import type { ResponseUnit, ResponseUnitKind, UnitAssignment, UnitCapability } from '../../types/incident';
+
+/** `response_units` and `unit_assignments` rows, and their mapping to the app's types */
+
+export interface ResponseUnitRow {
+    id: string;
+    name: string;
+    kind: ResponseUnitKind;
+    capabilities: UnitCapability[] | null;
+    base_name: string;
+    base_lat: number | string;
+    base_lng: number | string;
+    in_service: boolean;
+    member_ids: string[] | null;
+    updated_at?: string;
+}
+
+export function fromResponseUnitRow(row: ResponseUnitRow): ResponseUnit {
+    return {
+        id: row.id,
+        name: row.name,
+        kind: row.kind,
+        capabilities: row.capabilities ?? [],
+        base: { name: row.base_name, lat: Number(row.base_lat), lng: Number(row.base_lng) },
+        inService: row.in_service,
+        memberIds: row.member_ids ?? [],
+        updatedAt: row.updated_at,
+    };
+}
+
+export function toResponseUnitRow(unit: ResponseUnit): ResponseUnitRow {
+    return {
+        id: unit.id,
+        name: unit.name,
+        kind: unit.kind,
+        capabilities: unit.capabilities,
+        base_name: unit.base.name,
+        base_lat: unit.base.lat,
+        base_lng: unit.base.lng,
+        in_service: unit.inService,
+        member_ids: unit.memberIds,
+    };
+}
+
+export interface UnitAssignmentRow {
+    id: string;
+    unit_id: string;
+    incident_id: string;
+    assigned_at: string;
+    assigned_by?: string | null;
+    assigned_by_name?: string | null;
+    released_at?: string | null;
+}
+
+export function fromUnitAssignmentRow(row: UnitAssignmentRow): UnitAssignment {
+    return {
+        id: row.id,
+        unitId: row.unit_id,
+        incidentId: row.incident_id,
+        assignedAt: row.assigned_at,
+        assignedBy: row.assigned_by ?? undefined,
+        assignedByName: row.assigned_by_name ?? undefined,
+        releasedAt: row.released_at ?? undefined,
+    };
+}
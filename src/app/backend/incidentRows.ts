@@ -0,0 +1,123 @@
+import type {
+    CasualtyCounts,
+    CustomFieldAnswers,
+    DamageAssessment,
+    Incident,
+    IncidentEvent,
+    IncidentEventKind,
+    IncidentType,
+} from '../../types/incident';
+import type { IncidentChanges } from '../../db/db';
+import type { NewIncident } from './repositories';
+
+/** An `incidents` row as PostgREST and Realtime return it */
+export interface IncidentRow {
+    id: string;
+    incident_type: string;
+    severity: number | string;
+    latitude: number | string;
+    longitude: number | string;
+    address?: string | null;
+    description?: string | null;
+    assessment?: DamageAssessment | null;
+    custom_fields?: CustomFieldAnswers | null;
+    casualties?: CasualtyCounts | null;
+    image_url?: string | null;
+    image_urls?: string[] | null;
+    status: Incident['status'];
+    is_read?: boolean | null;
+    user_id?: string | null;
+    /** Dexie report ID on the device that filed it */
+    local_id?: string | null;
+    created_at: string;
+    updated_at?: string | null;
+    /** Set by the database on every update, with `updated_at` */
+    updated_by?: string | null;
+    /** Only ever set by the training backend */
+    is_training?: boolean | null;
+}
+
+/** The one mapping from a server row to an Incident, shared by the REST fetch and Realtime */
+export function fromIncidentRow(row: IncidentRow): Incident {
+    return {
+        id: row.id,
+        type: row.incident_type as IncidentType,
+        severity: Number(row.severity) as Incident['severity'],
+        timestamp: new Date(row.created_at),
+        location: {
+            lat: Number(row.latitude),
+            lng: Number(row.longitude),
+            address: row.address ?? undefined,
+        },
+        description: row.description || 'Command Center Report',
+        assessment: row.assessment ?? undefined,
+        customFields: row.custom_fields ?? undefined,
+        casualties: row.casualties ?? undefined,
+        imageUrl: row.image_url ?? undefined,
+        imageUrls: row.image_urls ?? undefined,
+        status: row.status,
+        isRead: row.is_read || false,
+        localId: row.local_id ?? undefined,
+        reportedBy: 'Command Center',
+        updatedAt: row.updated_at ?? undefined,
+        isTraining: row.is_training || undefined,
+    };
+}
+
+/** An `incident_events` row, written by the audit trigger on `incidents` */
+export interface IncidentEventRow {
+    id: string;
+    incident_id: string;
+    kind: IncidentEventKind;
+    field?: string | null;
+    old_value?: string | null;
+    new_value?: string | null;
+    actor_id?: string | null;
+    actor_name?: string | null;
+    reason?: string | null;
+    created_at: string;
+}
+
+export function fromIncidentEventRow(row: IncidentEventRow): IncidentEvent {
+    return {
+        id: row.id,
+        incidentId: row.incident_id,
+        kind: row.kind,
+        field: row.field ?? undefined,
+        oldValue: row.old_value ?? undefined,
+        newValue: row.new_value ?? undefined,
+        actorId: row.actor_id ?? undefined,
+        actorName: row.actor_name ?? undefined,
+        reason: row.reason ?? undefined,
+        at: row.created_at,
+    };
+}
+
+/** Columns for the fields the dashboard changes */
+export function toIncidentChangesRow(changes: IncidentChanges): Partial<IncidentRow> {
+    return {
+        ...(changes.status !== undefined && { status: changes.status }),
+        ...(changes.isRead !== undefined && { is_read: changes.isRead }),
+    };
+}
+
+/** Insert payload for a field report */
+export function toNewIncidentRow(incident: NewIncident) {
+    return {
+        incident_type: incident.type,
+        severity: incident.severity,
+        latitude: incident.location.latitude,
+        longitude: incident.location.longitude,
+        description: incident.description?.trim() || null,
+        assessment: incident.assessment ?? null,
+        custom_fields: incident.customFields ?? null,
+        casualties: incident.casualties ?? null,
+        local_id: incident.localId,
+        // First photo kept in image_url for rows and clients that predate galleries
+        image_url: incident.imageUrls[0] ?? null,
+        image_urls: incident.imageUrls.length > 0 ? incident.imageUrls : null,
+        created_at: incident.createdAt,
+        occurred_at: incident.occurredAt,
+        user_id: incident.userId,
+    };
+}
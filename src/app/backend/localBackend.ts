@@ -0,0 +1,697 @@
+import { Dexie, type EntityTable } from 'dexie';
+import type { AuthChangeEvent, Session, User } from '@supabase/supabase-js';
+import type {
+    IncidentTypeDefinition,
+    ReportFormField,
+    ResponseUnit,
+    UnitAssignment,
+} from '../../types/incident';
+import {
+    BackendError,
+    type AttachmentRepository,
+    type AuthRepository,
+    type Backend,
+    type CatalogRepository,
+    type DispatchRepository,
+    type IncidentChangeEvent,
+    type IncidentRepository,
+    type IncidentScope,
+    type IncidentSubscriptionHandlers,
+    type ProfileRepository,
+    type UserProfile,
+} from './repositories';
+import {
+    fromIncidentEventRow,
+    fromIncidentRow,
+    toIncidentChangesRow,
+    toNewIncidentRow,
+    type IncidentEventRow,
+    type IncidentRow,
+} from './incidentRows';
+import { assertStatusChange, getIncidentRole, StatusTransitionError } from '../utils/incidentWorkflow';
+
+/**
+ * A backend that lives entirely in the browser, in its own IndexedDB database, for
+ * training, demos and tests without a Supabase project. Tabs (and the service worker)
+ * see each other's changes through a BroadcastChannel, standing in for Realtime.
+ */
+
+interface LocalUser {
+    id: string;
+    email: string;
+    /** SHA-256 of the password; this is a sandbox, not an identity provider */
+    passwordHash: string;
+    createdAt: string;
+}
+
+interface StoredSession {
+    id: 'current';
+    session: Session;
+}
+
+class LocalBackendDatabase extends Dexie {
+    users!: EntityTable<LocalUser, 'id'>;
+    sessions!: EntityTable<StoredSession, 'id'>;
+    profiles!: EntityTable<UserProfile, 'id'>;
+    incidents!: EntityTable<IncidentRow, 'id'>;
+    incidentTypes!: EntityTable<IncidentTypeDefinition, 'id'>;
+    formFields!: EntityTable<ReportFormField, 'id'>;
+    events!: EntityTable<IncidentEventRow, 'id'>;
+    units!: EntityTable<ResponseUnit, 'id'>;
+    assignments!: EntityTable<UnitAssignment, 'id'>;
+
+    constructor(name: string) {
+        super(name);
+        this.version(1).stores({
+            users: 'id, &email',
+            sessions: 'id',
+            profiles: 'id, verificationStatus',
+            incidents: 'id, local_id, user_id, updated_at',
+            incidentTypes: 'id, sortOrder',
+            formFields: 'id, sortOrder',
+        });
+        this.version(2).stores({
+            events: 'id, incident_id, created_at',
+        });
+        this.version(3).stores({
+            units: 'id, name',
+            assignments: 'id, unitId, incidentId',
+        });
+    }
+}
+
+/** Accounts every new local backend starts with */
+const DEMO_ACCOUNTS = [
+    { email: 'admin@demo.local', password: 'demo1234', fullName: 'Demo Commander', isAdmin: true },
+    { email: 'responder@demo.local', password: 'demo1234', fullName: 'Demo Responder', isAdmin: false },
+];
+
+/** Units every new local backend starts with, so drills and demos have someone to dispatch */
+const DEMO_UNITS: Omit<ResponseUnit, 'id'>[] = [
+    {
+        name: 'Colombo Fire 1',
+        kind: 'fire',
+        capabilities: ['water_rescue', 'search_rescue', 'first_aid'],
+        base: { name: 'Colombo Fire Station', lat: 6.9344, lng: 79.8428 },
+        inService: true,
+        memberIds: [],
+    },
+    {
+        name: 'Colombo Ambulance 3',
+        kind: 'medical',
+        capabilities: ['ambulance', 'first_aid'],
+        base: { name: 'National Hospital Colombo', lat: 6.9187, lng: 79.8666 },
+        inService: true,
+        memberIds: [],
+    },
+    {
+        name: 'Navy Boat Team A',
+        kind: 'army',
+        capabilities: ['water_rescue', 'evacuation'],
+        base: { name: 'Colombo Naval Base', lat: 6.9497, lng: 79.8445 },
+        inService: true,
+        memberIds: [],
+    },
+    {
+        name: 'Army Engineers 5',
+        kind: 'army',
+        capabilities: ['heavy_lifting', 'search_rescue', 'debris_clearance'],
+        base: { name: 'Ratnapura Army Camp', lat: 6.6828, lng: 80.3992 },
+        inService: true,
+        memberIds: [],
+    },
+    {
+        name: 'Kegalle Rescue 1',
+        kind: 'fire',
+        capabilities: ['search_rescue', 'heavy_lifting', 'first_aid'],
+        base: { name: 'Kegalle Fire Station', lat: 7.2513, lng: 80.3464 },
+        inService: true,
+        memberIds: [],
+    },
+    {
+        name: 'CEB Line Crew 2',
+        kind: 'utility',
+        capabilities: ['power_isolation'],
+        base: { name: 'CEB Depot Gampaha', lat: 7.084, lng: 80.0098 },
+        inService: true,
+        memberIds: [],
+    },
+    {
+        name: 'RDA Road Crew 4',
+        kind: 'utility',
+        capabilities: ['debris_clearance', 'heavy_lifting'],
+        base: { name: 'RDA Depot Kalutara', lat: 6.5854, lng: 79.9607 },
+        inService: true,
+        memberIds: [],
+    },
+    {
+        name: 'Galle Police Patrol',
+        kind: 'police',
+        capabilities: ['traffic_control', 'evacuation'],
+        base: { name: 'Galle Police Station', lat: 6.0329, lng: 80.2168 },
+        inService: true,
+        memberIds: [],
+    },
+];
+
+const SESSION_LIFETIME_S = 365 * 24 * 60 * 60;
+
+async function hashPassword(password: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toUser(user: LocalUser): User {
+    return {
+        id: user.id,
+        email: user.email,
+        app_metadata: { provider: 'local' },
+        user_metadata: {},
+        aud: 'authenticated',
+        role: 'authenticated',
+        created_at: user.createdAt,
+    };
+}
+
+function createSession(user: LocalUser): Session {
+    return {
+        access_token: `local-${crypto.randomUUID()}`,
+        refresh_token: `local-${crypto.randomUUID()}`,
+        token_type: 'bearer',
+        expires_in: SESSION_LIFETIME_S,
+        expires_at: Math.floor(Date.now() / 1000) + SESSION_LIFETIME_S,
+        user: toUser(user),
+    };
+}
+
+// Event values are stored as text, as in the server's `incident_events` table
+const toEventValue = (value: unknown) =>
+    value === null ? null : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+interface Actor {
+    id: string | null;
+    name: string | null;
+    isAdmin: boolean;
+}
+
+// The same workflow the dashboard checks; a refusal is final, so it isn't transient
+function checkStatusChange(current: IncidentRow, status: IncidentRow['status'], actor: Actor, reason?: string) {
+    if (status === current.status) return;
+    try {
+        assertStatusChange(current.status, status, getIncidentRole(actor.isAdmin), reason);
+    } catch (e) {
+        if (e instanceof StatusTransitionError) throw new BackendError(e.message, { status: 422, code: 'invalid_transition' });
+        throw e;
+    }
+}
+
+/**
+ * The audit events for an update, one per changed column, as the Supabase trigger
+ * writes them. Marking as read is recorded once, when it first happens.
+ */
+function diffIncidentRows(before: IncidentRow, after: IncidentRow, actor: Actor, reason: string | null, at: string) {
+    const events: IncidentEventRow[] = [];
+    const base = { incident_id: before.id, actor_id: actor.id, actor_name: actor.name, reason, created_at: at };
+
+    for (const key of Object.keys(after) as (keyof IncidentRow)[]) {
+        if (key === 'updated_at' || key === 'updated_by') continue;
+        const oldValue = before[key] ?? null;
+        const newValue = after[key] ?? null;
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+        if (key === 'is_read') {
+            if (newValue) events.push({ ...base, id: crypto.randomUUID(), kind: 'read' });
+            continue;
+        }
+        events.push({
+            ...base,
+            id: crypto.randomUUID(),
+            kind: key === 'status' ? 'status' : 'edit',
+            field: key,
+            old_value: toEventValue(oldValue),
+            new_value: toEventValue(newValue),
+        });
+    }
+    return events;
+}
+
+// Photos are kept inline so they still show after a reload, with no server to serve them
+async function toDataUrl(blob: Blob, mimeType: string): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+export interface LocalBackendOptions {
+    /** IndexedDB database name; separate names never share data */
+    name?: string;
+    /** Sign-in to use instead of the built-in accounts; it also names who changed what */
+    auth?: AuthRepository;
+    /** Marks every incident filed here as training data */
+    watermark?: boolean;
+    /** Profiles that go with `auth`, for naming who changed what in the audit trail */
+    profiles?: ProfileRepository;
+}
+
+export interface LocalBackend extends Backend {
+    /** Deletes every incident with its audit trail and unit assignments, telling subscribers; resolves with how many */
+    clearIncidents(): Promise<number>;
+}
+
+export function createLocalBackend({
+    name = 'FieldResponderLocalBackend',
+    auth: externalAuth,
+    watermark = false,
+    profiles: externalProfiles,
+}: LocalBackendOptions = {}): LocalBackend {
+    const db = new LocalBackendDatabase(name);
+
+    let seeding: Promise<void> | null = null;
+    const ensureSeeded = () => {
+        seeding ??= (async () => {
+            // Hashed up front: awaiting Web Crypto inside the transaction would let it commit early
+            const hashes = await Promise.all(DEMO_ACCOUNTS.map((account) => hashPassword(account.password)));
+            await db.transaction('rw', db.users, db.profiles, async () => {
+                if ((await db.users.count()) > 0) return;
+                for (const [index, account] of DEMO_ACCOUNTS.entries()) {
+                    const id = crypto.randomUUID();
+                    await db.users.add({
+                        id,
+                        email: account.email,
+                        passwordHash: hashes[index],
+                        createdAt: new Date().toISOString(),
+                    });
+                    await db.profiles.add({
+                        id,
+                        fullName: account.fullName,
+                        phone: '',
+                        designation: account.isAdmin ? 'Commander' : 'Field responder',
+                        region: '',
+                        isAdmin: account.isAdmin,
+                        verificationStatus: 'approved',
+                    });
+                }
+            });
+        })();
+        return seeding;
+    };
+
+    const getSession = async () => {
+        const stored = await db.sessions.get('current');
+        if (!stored?.session.expires_at || stored.session.expires_at <= Date.now() / 1000) return null;
+        return stored.session;
+    };
+
+    const authListeners = new Set<(event: AuthChangeEvent, session: Session | null) => void>();
+    const emitAuth = (event: AuthChangeEvent, session: Session | null) => {
+        authListeners.forEach((listener) => listener(event, session));
+    };
+
+    const auth: AuthRepository = {
+        async signUp(email, password) {
+            await ensureSeeded();
+            const normalized = email.trim().toLowerCase();
+            if (await db.users.where('email').equals(normalized).count()) {
+                throw new BackendError('User already registered', { status: 422 });
+            }
+            const user: LocalUser = {
+                id: crypto.randomUUID(),
+                email: normalized,
+                passwordHash: await hashPassword(password),
+                createdAt: new Date().toISOString(),
+            };
+            await db.users.add(user);
+            return { user: toUser(user), session: null };
+        },
+        async signIn(email, password) {
+            await ensureSeeded();
+            const user = await db.users.where('email').equals(email.trim().toLowerCase()).first();
+            if (!user || user.passwordHash !== (await hashPassword(password))) {
+                throw new BackendError('Invalid login credentials', { status: 400 });
+            }
+            const session = createSession(user);
+            await db.sessions.put({ id: 'current', session });
+            emitAuth('SIGNED_IN', session);
+            return { user: session.user, session };
+        },
+        async signOut() {
+            await db.sessions.delete('current');
+            emitAuth('SIGNED_OUT', null);
+        },
+        getSession,
+        async setSession({ access_token }) {
+            const session = await getSession();
+            return session?.access_token === access_token ? session : null;
+        },
+        async getUser() {
+            return (await getSession())?.user ?? null;
+        },
+        onAuthStateChange(listener) {
+            authListeners.add(listener);
+            // Like Supabase, report the current session straight after subscribing
+            getSession().then((session) => {
+                if (authListeners.has(listener)) listener('INITIAL_SESSION', session);
+            });
+            return () => {
+                authListeners.delete(listener);
+            };
+        },
+    };
+
+    const identity = externalAuth ?? auth;
+
+    const profiles: ProfileRepository = {
+        async getProfile(userId) {
+            await ensureSeeded();
+            return (await db.profiles.get(userId)) ?? null;
+        },
+        async createProfile(profile) {
+            await db.profiles.put(profile);
+        },
+        async listPendingProfiles() {
+            const pending = await db.profiles.where('verificationStatus').equals('pending').toArray();
+            return pending.filter((profile) => !profile.isAdmin);
+        },
+        async listResponders() {
+            const approved = await db.profiles.where('verificationStatus').equals('approved').toArray();
+            return approved
+                .filter((profile) => !profile.isAdmin)
+                .sort((a, b) => a.fullName.localeCompare(b.fullName));
+        },
+        async setVerificationStatus(userId, status) {
+            await db.profiles.update(userId, { verificationStatus: status });
+        },
+        async deleteProfile(userId) {
+            await db.profiles.delete(userId);
+        },
+        async getDisplayName(userId) {
+            return (await db.profiles.get(userId))?.fullName || null;
+        },
+    };
+
+    const getActor = async (userId?: string | null): Promise<Actor> => {
+        const id = userId === undefined ? ((await identity.getSession())?.user.id ?? null) : userId;
+        const profile = id ? await (externalProfiles ?? profiles).getProfile(id) : null;
+        return { id, name: profile?.fullName || null, isAdmin: profile?.isAdmin ?? false };
+    };
+
+    // Changes reach this context's subscribers directly and every other one over the channel
+    const subscribers = new Set<IncidentSubscriptionHandlers>();
+    let channel: BroadcastChannel | null = null;
+    const getChannel = () => {
+        if (!channel && typeof BroadcastChannel !== 'undefined') {
+            channel = new BroadcastChannel(`${name}:incidents`);
+            channel.addEventListener('message', (event: MessageEvent<IncidentChangeEvent>) => {
+                subscribers.forEach(({ onChange }) => onChange(event.data));
+            });
+        }
+        return channel;
+    };
+    const notify = (event: IncidentChangeEvent) => {
+        subscribers.forEach(({ onChange }) => onChange(event));
+        getChannel()?.postMessage(event);
+    };
+    const toChangeEvent = (row: IncidentRow): IncidentChangeEvent => ({
+        type: 'upsert',
+        incident: fromIncidentRow(row),
+        ownerId: row.user_id ?? undefined,
+    });
+
+    // Dispatch changes carry no payload; subscribers re-read the board
+    const dispatchSubscribers = new Set<() => void>();
+    let dispatchChannel: BroadcastChannel | null = null;
+    const getDispatchChannel = () => {
+        if (!dispatchChannel && typeof BroadcastChannel !== 'undefined') {
+            dispatchChannel = new BroadcastChannel(`${name}:dispatch`);
+            dispatchChannel.addEventListener('message', () => dispatchSubscribers.forEach((onChange) => onChange()));
+        }
+        return dispatchChannel;
+    };
+    const notifyDispatch = () => {
+        dispatchSubscribers.forEach((onChange) => onChange());
+        getDispatchChannel()?.postMessage('changed');
+    };
+
+    // Stands a unit down and records it; call inside a transaction over assignments, units and events
+    const standDown = async (assignment: UnitAssignment, actor: Actor, at: string, reason: string | null) => {
+        await db.assignments.update(assignment.id, { releasedAt: at });
+        await db.events.add({
+            id: crypto.randomUUID(),
+            incident_id: assignment.incidentId,
+            kind: 'assignment',
+            old_value: (await db.units.get(assignment.unitId))?.name ?? assignment.unitId,
+            actor_id: actor.id,
+            actor_name: actor.name,
+            reason,
+            created_at: at,
+        });
+    };
+
+    /** Incidents with an open assignment to a unit the responder crews */
+    const listCrewIncidentIds = async (userId: string) => {
+        const unitIds = (await db.units.filter((unit) => unit.memberIds.includes(userId)).toArray()).map((unit) => unit.id);
+        const open = await db.assignments.where('unitId').anyOf(unitIds).filter((a) => !a.releasedAt).toArray();
+        return new Set(open.map((assignment) => assignment.incidentId));
+    };
+
+    // Unowned incidents, such as generated training scenarios, are visible to everyone;
+    // responders also see incidents their unit is assigned to
+    const getScopeFilter = async ({ userId, isAdmin }: IncidentScope) => {
+        if (isAdmin) return () => true;
+        const crewIncidentIds = await listCrewIncidentIds(userId);
+        return (row: IncidentRow) => !row.user_id || row.user_id === userId || crewIncidentIds.has(row.id);
+    };
+
+    const incidents: IncidentRepository = {
+        async listIncidents(scope, { updatedAfter } = {}) {
+            const inScope = await getScopeFilter(scope);
+            const rows = await db.incidents
+                .filter((row) => inScope(row) && (!updatedAfter || (row.updated_at ?? '') > updatedAfter))
+                .toArray();
+            return rows
+                .sort((a, b) => b.created_at.localeCompare(a.created_at))
+                .map(fromIncidentRow);
+        },
+        async listIncidentIds(scope) {
+            return (await db.incidents.filter(await getScopeFilter(scope)).toArray()).map((row) => row.id);
+        },
+        async getIncident(id) {
+            const row = await db.incidents.get(id);
+            return row ? { incident: fromIncidentRow(row), updatedBy: row.updated_by ?? undefined } : null;
+        },
+        async createIncident(incident) {
+            const actor = await getActor(incident.userId ?? null);
+            const row = await db.transaction('rw', db.incidents, db.events, async () => {
+                if (await db.incidents.where('local_id').equals(incident.localId).count()) return null;
+
+                const now = new Date().toISOString();
+                const created: IncidentRow = {
+                    ...toNewIncidentRow(incident),
+                    id: crypto.randomUUID(),
+                    status: 'Active',
+                    is_read: false,
+                    updated_at: now,
+                    updated_by: incident.userId ?? null,
+                    ...(watermark && { is_training: true }),
+                };
+                await db.incidents.add(created);
+                await db.events.add({
+                    id: crypto.randomUUID(),
+                    incident_id: created.id,
+                    kind: 'created',
+                    actor_id: actor.id,
+                    actor_name: actor.name,
+                    created_at: now,
+                });
+                return created;
+            });
+            if (!row) return null;
+
+            notify(toChangeEvent(row));
+            return fromIncidentRow(row);
+        },
+        async updateIncident(id, changes, { expectedUpdatedAt, reason } = {}) {
+            const actor = await getActor();
+            let released = 0;
+            const row = await db.transaction('rw', [db.incidents, db.events, db.assignments, db.units], async () => {
+                const current = await db.incidents.get(id);
+                if (!current || (expectedUpdatedAt && current.updated_at !== expectedUpdatedAt)) return null;
+                if (changes.status !== undefined) checkStatusChange(current, changes.status, actor, reason);
+
+                const now = new Date().toISOString();
+                const updated: IncidentRow = {
+                    ...current,
+                    ...toIncidentChangesRow(changes),
+                    updated_at: now,
+                    updated_by: actor.id,
+                };
+                await db.incidents.put(updated);
+                await db.events.bulkAdd(diffIncidentRows(current, updated, actor, reason ?? null, now));
+                // A resolved incident frees its units
+                if (updated.status === 'Resolved' && current.status !== 'Resolved') {
+                    const active = await db.assignments
+                        .where('incidentId')
+                        .equals(id)
+                        .filter((assignment) => !assignment.releasedAt)
+                        .toArray();
+                    for (const assignment of active) await standDown(assignment, actor, now, reason ?? null);
+                    released = active.length;
+                }
+                return updated;
+            });
+            if (!row) return null;
+
+            notify(toChangeEvent(row));
+            if (released > 0) notifyDispatch();
+            return fromIncidentRow(row);
+        },
+        async listIncidentEvents(scope, { after } = {}) {
+            const visibleIds = new Set((await db.incidents.filter(await getScopeFilter(scope)).toArray()).map((row) => row.id));
+            const rows = await db.events
+                .where('created_at')
+                .above(after ?? '')
+                .filter((row) => visibleIds.has(row.incident_id))
+                .sortBy('created_at');
+            return rows.map(fromIncidentEventRow);
+        },
+        subscribe(handlers) {
+            subscribers.add(handlers);
+            getChannel();
+            setTimeout(() => {
+                if (subscribers.has(handlers)) handlers.onStatus('live');
+            }, 0);
+            return async () => {
+                subscribers.delete(handlers);
+            };
+        },
+    };
+
+    const attachments: AttachmentRepository = {
+        async uploadPhoto(_fileName, blob, mimeType) {
+            return toDataUrl(blob, mimeType);
+        },
+    };
+
+    const catalog: CatalogRepository = {
+        async listIncidentTypes() {
+            return db.incidentTypes.orderBy('sortOrder').toArray();
+        },
+        async saveIncidentType(type) {
+            const saved = { ...type, updatedAt: new Date().toISOString() };
+            await db.incidentTypes.put(saved);
+            return saved;
+        },
+        async listFormFields() {
+            return db.formFields.orderBy('sortOrder').toArray();
+        },
+        async saveFormField(field) {
+            const saved = { ...field, updatedAt: new Date().toISOString() };
+            await db.formFields.put(saved);
+            return saved;
+        },
+    };
+
+    let seedingUnits: Promise<void> | null = null;
+    const ensureUnitsSeeded = () => {
+        seedingUnits ??= db.transaction('rw', db.units, async () => {
+            if ((await db.units.count()) > 0) return;
+            await db.units.bulkAdd(DEMO_UNITS.map((unit) => ({ ...unit, id: crypto.randomUUID() })));
+        });
+        return seedingUnits;
+    };
+
+    const requireCommander = (actor: Actor) => {
+        if (!actor.isAdmin) throw new BackendError('Only commanders can dispatch units', { status: 403 });
+    };
+
+    const dispatch: DispatchRepository = {
+        async listUnits() {
+            await ensureUnitsSeeded();
+            return db.units.orderBy('name').toArray();
+        },
+        async saveUnit(unit) {
+            requireCommander(await getActor());
+            const saved = { ...unit, updatedAt: new Date().toISOString() };
+            await db.units.put(saved);
+            notifyDispatch();
+            return saved;
+        },
+        async listActiveAssignments() {
+            return db.assignments.filter((assignment) => !assignment.releasedAt).toArray();
+        },
+        async assignUnit(incidentId, unitId) {
+            const actor = await getActor();
+            requireCommander(actor);
+
+            const assignment = await db.transaction('rw', [db.incidents, db.units, db.assignments, db.events], async () => {
+                const [incident, unit] = await Promise.all([db.incidents.get(incidentId), db.units.get(unitId)]);
+                if (!incident) throw new BackendError('Incident not found', { status: 404 });
+                if (!unit) throw new BackendError('Unit not found', { status: 404 });
+                // Nothing would release it again until the incident is reopened
+                if (incident.status === 'Resolved') {
+                    throw new BackendError('Units cannot be assigned to a resolved incident', { status: 422 });
+                }
+
+                const now = new Date().toISOString();
+                const created: UnitAssignment = {
+                    id: crypto.randomUUID(),
+                    unitId,
+                    incidentId,
+                    assignedAt: now,
+                    assignedBy: actor.id ?? undefined,
+                    assignedByName: actor.name ?? undefined,
+                };
+                await db.assignments.add(created);
+                await db.events.add({
+                    id: crypto.randomUUID(),
+                    incident_id: incidentId,
+                    kind: 'assignment',
+                    new_value: unit.name,
+                    actor_id: actor.id,
+                    actor_name: actor.name,
+                    created_at: now,
+                });
+                return created;
+            });
+
+            notifyDispatch();
+            return assignment;
+        },
+        async releaseAssignment(assignmentId) {
+            const actor = await getActor();
+            requireCommander(actor);
+
+            await db.transaction('rw', [db.units, db.assignments, db.events], async () => {
+                const assignment = await db.assignments.get(assignmentId);
+                if (assignment && !assignment.releasedAt) {
+                    await standDown(assignment, actor, new Date().toISOString(), null);
+                }
+            });
+            notifyDispatch();
+        },
+        subscribe(onChange) {
+            dispatchSubscribers.add(onChange);
+            getDispatchChannel();
+            return async () => {
+                dispatchSubscribers.delete(onChange);
+            };
+        },
+    };
+
+    const clearIncidents = async () => {
+        const ids = await db.incidents.toCollection().primaryKeys();
+        await db.transaction('rw', [db.incidents, db.events, db.assignments], async () => {
+            await db.incidents.clear();
+            await db.events.clear();
+            await db.assignments.clear();
+        });
+        notifyDispatch();
+        ids.forEach((id) => notify({ type: 'delete', id }));
+        return ids.length;
+    };
+
+    return { kind: 'local', auth: identity, profiles, incidents, attachments, catalog, dispatch, clearIncidents };
+}
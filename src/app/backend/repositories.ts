@@ -0,0 +1,174 @@
+import type { AuthChangeEvent, Session, User } from '@supabase/supabase-js';
+import type { IncidentChanges } from '../../db/db';
+import type {
+    CasualtyCounts,
+    CustomFieldAnswers,
+    DamageAssessment,
+    Incident,
+    IncidentEvent,
+    IncidentType,
+    IncidentTypeDefinition,
+    ReportFormField,
+    ResponseUnit,
+    UnitAssignment,
+} from '../../types/incident';
+
+/**
+ * What the app needs from a server, so the same screens can run against Supabase or
+ * entirely in the browser (training, demos, tests). Sessions keep Supabase's shape
+ * because the rest of the app already passes them around.
+ */
+
+/** Thrown by every backend. `transient` failures (network, expired token, 5xx) are worth retrying */
+export class BackendError extends Error {
+    readonly status?: number;
+    readonly code?: string;
+    readonly transient: boolean;
+
+    constructor(message: string, { status, code, transient }: { status?: number; code?: string; transient?: boolean } = {}) {
+        super(message);
+        this.name = 'BackendError';
+        this.status = status;
+        this.code = code;
+        this.transient = transient ?? (status !== undefined && isTransientStatus(status));
+    }
+}
+
+/** Network failures (status 0), expired tokens, timeouts, rate limits and server errors */
+export function isTransientStatus(status: number): boolean {
+    return status === 0 || status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+export interface AuthRepository {
+    signUp(email: string, password: string): Promise<{ user: User | null; session: Session | null }>;
+    signIn(email: string, password: string): Promise<{ user: User; session: Session }>;
+    signOut(): Promise<void>;
+    getSession(): Promise<Session | null>;
+    /** Restores a session the app cached itself; null when it can't be restored */
+    setSession(tokens: { access_token: string; refresh_token: string }): Promise<Session | null>;
+    getUser(): Promise<User | null>;
+    /** Returns an unsubscribe function */
+    onAuthStateChange(listener: (event: AuthChangeEvent, session: Session | null) => void): () => void;
+}
+
+export type VerificationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface UserProfile {
+    id: string;
+    fullName: string;
+    phone: string;
+    designation: string;
+    region: string;
+    isAdmin: boolean;
+    verificationStatus: VerificationStatus;
+}
+
+export interface ProfileRepository {
+    getProfile(userId: string): Promise<UserProfile | null>;
+    /** Fills in the profile of a user who just signed up */
+    createProfile(profile: UserProfile): Promise<void>;
+    listPendingProfiles(): Promise<UserProfile[]>;
+    /** Approved field responders, for crewing response units */
+    listResponders(): Promise<UserProfile[]>;
+    setVerificationStatus(userId: string, status: VerificationStatus): Promise<void>;
+    deleteProfile(userId: string): Promise<void>;
+    /** Best effort: null when the profile can't be read */
+    getDisplayName(userId: string): Promise<string | null>;
+}
+
+/** Which incidents a session may see: admins see all, responders only their own */
+export interface IncidentScope {
+    userId: string;
+    isAdmin: boolean;
+}
+
+/** A field report as it is filed on the server */
+export interface NewIncident {
+    /** Dexie report ID on the filing device; filing the same one twice is a no-op */
+    localId: string;
+    type: IncidentType;
+    severity: Incident['severity'];
+    location: { latitude: number; longitude: number };
+    description?: string;
+    assessment?: DamageAssessment;
+    customFields?: CustomFieldAnswers;
+    casualties?: CasualtyCounts;
+    imageUrls: string[];
+    createdAt: string;
+    occurredAt: string;
+    userId?: string;
+}
+
+export type IncidentChangeEvent =
+    | { type: 'upsert'; incident: Incident; ownerId?: string }
+    | { type: 'delete'; id: string };
+
+export interface IncidentSubscriptionHandlers {
+    onChange: (event: IncidentChangeEvent) => void;
+    /** `down` means the subscription is dead; the caller tears it down and subscribes again */
+    onStatus: (status: 'live' | 'down', error?: Error) => void;
+}
+
+export interface IncidentRepository {
+    /** Visible incidents, newest first; with `updatedAfter`, only those changed since */
+    listIncidents(scope: IncidentScope, options?: { updatedAfter?: string }): Promise<Incident[]>;
+    listIncidentIds(scope: IncidentScope): Promise<string[]>;
+    getIncident(id: string): Promise<{ incident: Incident; updatedBy?: string } | null>;
+    /** Resolves null when an earlier attempt already filed this report */
+    createIncident(incident: NewIncident): Promise<Incident | null>;
+    /**
+     * Applies the changes only while the incident's `updatedAt` still equals
+     * `expectedUpdatedAt` (when given). Resolves null when nothing was updated.
+     * `reason` goes into the audit trail with the change. Rejects with a BackendError
+     * when the status workflow doesn't allow the change for this user.
+     */
+    updateIncident(
+        id: string,
+        changes: IncidentChanges,
+        options?: { expectedUpdatedAt?: string; reason?: string },
+    ): Promise<Incident | null>;
+    /** Audit events of the visible incidents, oldest first; with `after`, only newer ones */
+    listIncidentEvents(scope: IncidentScope, options?: { after?: string }): Promise<IncidentEvent[]>;
+    /** Returns a function that ends the subscription, resolving once it is gone */
+    subscribe(handlers: IncidentSubscriptionHandlers): () => Promise<void>;
+}
+
+export interface AttachmentRepository {
+    /** Stores a photo and resolves with a URL the dashboard can show it from */
+    uploadPhoto(fileName: string, blob: Blob, mimeType: string): Promise<string>;
+}
+
+/** Admin-managed incident types and report form fields */
+export interface CatalogRepository {
+    listIncidentTypes(): Promise<IncidentTypeDefinition[]>;
+    saveIncidentType(type: IncidentTypeDefinition): Promise<IncidentTypeDefinition>;
+    listFormFields(): Promise<ReportFormField[]>;
+    saveFormField(field: ReportFormField): Promise<ReportFormField>;
+}
+
+/** The response unit registry and who is assigned where */
+export interface DispatchRepository {
+    listUnits(): Promise<ResponseUnit[]>;
+    /** Creates or updates a unit (commanders only) */
+    saveUnit(unit: ResponseUnit): Promise<ResponseUnit>;
+    /** Assignments not yet released */
+    listActiveAssignments(): Promise<UnitAssignment[]>;
+    /** Commits a unit to an incident; a unit already committed elsewhere is assigned all the same */
+    assignUnit(incidentId: string, unitId: string): Promise<UnitAssignment>;
+    releaseAssignment(assignmentId: string): Promise<void>;
+    /** Calls `onChange` whenever a unit or assignment changes; returns a function that ends it */
+    subscribe(onChange: () => void): () => Promise<void>;
+}
+
+/** `training` is the exercise store used while training mode is on */
+export type BackendKind = 'supabase' | 'local' | 'training';
+
+export interface Backend {
+    kind: BackendKind;
+    auth: AuthRepository;
+    profiles: ProfileRepository;
+    incidents: IncidentRepository;
+    attachments: AttachmentRepository;
+    catalog: CatalogRepository;
+    dispatch: DispatchRepository;
+}
@@ -0,0 +1,402 @@
+import { createClient, REALTIME_SUBSCRIBE_STATES, type RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import {
+    BackendError,
+    type AttachmentRepository,
+    type AuthRepository,
+    type Backend,
+    type CatalogRepository,
+    type DispatchRepository,
+    type IncidentRepository,
+    type IncidentScope,
+    type ProfileRepository,
+    type UserProfile,
+    type VerificationStatus,
+} from './repositories';
+import {
+    fromIncidentEventRow,
+    fromIncidentRow,
+    toIncidentChangesRow,
+    toNewIncidentRow,
+    type IncidentEventRow,
+    type IncidentRow,
+} from './incidentRows';
+import {
+    fromFormFieldRow,
+    fromIncidentTypeRow,
+    toFormFieldRow,
+    toIncidentTypeRow,
+    type IncidentTypeRow,
+    type ReportFormFieldRow,
+} from './catalogRows';
+import {
+    fromResponseUnitRow,
+    fromUnitAssignmentRow,
+    toResponseUnitRow,
+    type ResponseUnitRow,
+    type UnitAssignmentRow,
+} from './dispatchRows';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const PHOTO_BUCKET = 'disaster-photos';
+const INCIDENTS_CHANNEL = 'public:incidents';
+const DISPATCH_CHANNEL = 'public:dispatch';
+
+interface ProfileRow {
+    id: string;
+    full_name: string | null;
+    phone: string | null;
+    designation: string | null;
+    region: string | null;
+    is_admin: boolean | null;
+    verification_status: VerificationStatus | null;
+}
+
+const fromProfileRow = (row: ProfileRow): UserProfile => ({
+    id: row.id,
+    fullName: row.full_name ?? '',
+    phone: row.phone ?? '',
+    designation: row.designation ?? '',
+    region: row.region ?? '',
+    isAdmin: row.is_admin ?? false,
+    verificationStatus: row.verification_status ?? 'pending',
+});
+
+type SdkResult<T> = { data: T; error: { message: string; code?: string } | null; status: number };
+
+/** Unwraps an SDK query result; status 0 means the request never got an answer */
+function unwrap<T>({ data, error, status }: SdkResult<T>): T {
+    if (error) throw new BackendError(error.message, { status, code: error.code });
+    return data;
+}
+
+export interface SupabaseBackendOptions {
+    /** Fixed token for contexts without an auth session, such as the service worker */
+    accessToken?: string;
+}
+
+export function createSupabaseBackend({ accessToken }: SupabaseBackendOptions = {}): Backend {
+    const client = createClient(
+        SUPABASE_URL,
+        SUPABASE_ANON_KEY,
+        accessToken ? { accessToken: async () => accessToken } : undefined,
+    );
+
+    const getAccessToken = async () => accessToken ?? (await client.auth.getSession()).data.session?.access_token;
+
+    // Incidents go over plain REST: the SDK's query builder has hung on the first load
+    async function rest<T>(path: string, init: RequestInit = {}): Promise<T> {
+        const token = await getAccessToken();
+        // Without a session RLS would quietly return nothing, which looks like an empty list
+        if (!token) throw new BackendError('Not signed in', { status: 401 });
+
+        let response: Response;
+        try {
+            response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+                ...init,
+                headers: {
+                    'apikey': SUPABASE_ANON_KEY,
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json',
+                    ...init.headers,
+                },
+            });
+        } catch (e) {
+            throw new BackendError(e instanceof Error ? e.message : 'Network error', { status: 0 });
+        }
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new BackendError(`${response.status} ${errorText || response.statusText}`, { status: response.status });
+        }
+        return response.json();
+    }
+
+    const auth: AuthRepository = {
+        async signUp(email, password) {
+            const { data, error } = await client.auth.signUp({ email, password });
+            if (error) throw new BackendError(error.message, { status: error.status, code: error.code });
+            return data;
+        },
+        async signIn(email, password) {
+            const { data, error } = await client.auth.signInWithPassword({ email, password });
+            if (error) throw new BackendError(error.message, { status: error.status, code: error.code });
+            return data;
+        },
+        async signOut() {
+            const { error } = await client.auth.signOut();
+            if (error) throw new BackendError(error.message, { status: error.status, code: error.code });
+        },
+        async getSession() {
+            const { data: { session } } = await client.auth.getSession();
+            return session;
+        },
+        async setSession(tokens) {
+            const { data, error } = await client.auth.setSession(tokens);
+            if (error) console.error('[SupabaseBackend] Session restore failed:', error);
+            return data.session;
+        },
+        async getUser() {
+            const { data: { user } } = await client.auth.getUser();
+            return user;
+        },
+        onAuthStateChange(listener) {
+            const { data: { subscription } } = client.auth.onAuthStateChange(listener);
+            return () => subscription.unsubscribe();
+        },
+    };
+
+    const profiles: ProfileRepository = {
+        async getProfile(userId) {
+            const row = unwrap(await client.from('user_profiles').select('*').eq('id', userId).maybeSingle());
+            return row ? fromProfileRow(row as ProfileRow) : null;
+        },
+        async createProfile(profile) {
+            const profileData = {
+                full_name: profile.fullName,
+                phone: profile.phone,
+                designation: profile.designation,
+                region: profile.region,
+                is_admin: profile.isAdmin,
+                verification_status: profile.verificationStatus,
+            };
+            console.log('[Signup] Attempting to save profile for user:', profile.id);
+
+            // A DB trigger may auto-create a blank profile, so wait for it and update that first
+            await new Promise(resolve => setTimeout(resolve, 500));
+
+            const { data: updateData, error: updateError } = await client
+                .from('user_profiles')
+                .update(profileData)
+                .eq('id', profile.id)
+                .select();
+
+            console.log('[Signup] Update result:', { updateData, updateError });
+            if (!updateError && updateData && updateData.length > 0) return;
+
+            // No trigger-created row (or the update was refused), so insert instead
+            const { error: insertError } = await client
+                .from('user_profiles')
+                .insert({ id: profile.id, ...profileData });
+
+            if (insertError && !(insertError.code === '23505' && !updateError)) {
+                console.error('[Signup] Insert failed:', insertError);
+                throw new BackendError(
+                    `Account created but profile setup failed: ${insertError.message}. Please contact support.`,
+                    { code: insertError.code },
+                );
+            }
+        },
+        async listPendingProfiles() {
+            const rows = unwrap(await client
+                .from('user_profiles')
+                .select('id, full_name, phone, designation, region, is_admin, verification_status')
+                .eq('verification_status', 'pending')
+                .eq('is_admin', false));
+            return ((rows ?? []) as ProfileRow[]).map(fromProfileRow);
+        },
+        async listResponders() {
+            const rows = unwrap(await client
+                .from('user_profiles')
+                .select('id, full_name, phone, designation, region, is_admin, verification_status')
+                .eq('verification_status', 'approved')
+                .eq('is_admin', false)
+                .order('full_name', { ascending: true }));
+            return ((rows ?? []) as ProfileRow[]).map(fromProfileRow);
+        },
+        async setVerificationStatus(userId, status) {
+            unwrap(await client.from('user_profiles').update({ verification_status: status }).eq('id', userId));
+        },
+        async deleteProfile(userId) {
+            // The auth user remains, but can't log in without a profile
+            unwrap(await client.from('user_profiles').delete().eq('id', userId));
+        },
+        async getDisplayName(userId) {
+            try {
+                const rows = await rest<{ full_name: string | null }[]>(
+                    `user_profiles?id=eq.${encodeURIComponent(userId)}&select=full_name`,
+                );
+                return rows[0]?.full_name || null;
+            } catch {
+                return null;
+            }
+        },
+    };
+
+    /** Incidents with an open assignment to a unit the responder crews */
+    const listCrewIncidentIds = async (userId: string): Promise<string[]> => {
+        const units = unwrap(await client.from('response_units').select('id').contains('member_ids', [userId]));
+        const unitIds = ((units ?? []) as { id: string }[]).map((unit) => unit.id);
+        if (unitIds.length === 0) return [];
+
+        const rows = unwrap(await client
+            .from('unit_assignments')
+            .select('incident_id')
+            .is('released_at', null)
+            .in('unit_id', unitIds));
+        return [...new Set(((rows ?? []) as { incident_id: string }[]).map((row) => row.incident_id))];
+    };
+
+    // Responders see their own reports and incidents their unit is assigned to; admins see everything
+    const scopeFilter = async ({ userId, isAdmin }: IncidentScope) => {
+        if (isAdmin) return '';
+        const crewIncidentIds = await listCrewIncidentIds(userId);
+        return crewIncidentIds.length > 0
+            ? `&or=(user_id.eq.${userId},id.in.(${crewIncidentIds.join(',')}))`
+            : `&user_id=eq.${userId}`;
+    };
+
+    const incidents: IncidentRepository = {
+        async listIncidents(scope, { updatedAfter } = {}) {
+            const changedFilter = updatedAfter ? `&updated_at=gt.${encodeURIComponent(updatedAfter)}` : '';
+            const rows = await rest<IncidentRow[]>(`incidents?select=*&order=created_at.desc${await scopeFilter(scope)}${changedFilter}`);
+            return rows.map(fromIncidentRow);
+        },
+        async listIncidentIds(scope) {
+            const rows = await rest<{ id: string }[]>(`incidents?select=id${await scopeFilter(scope)}`);
+            return rows.map((row) => row.id);
+        },
+        async getIncident(id) {
+            const [row] = await rest<IncidentRow[]>(`incidents?id=eq.${encodeURIComponent(id)}&select=*`);
+            return row ? { incident: fromIncidentRow(row), updatedBy: row.updated_by ?? undefined } : null;
+        },
+        async createIncident(incident) {
+            const payload = toNewIncidentRow(incident);
+            console.log('[SupabaseBackend] Inserting incident:', payload);
+
+            const { data, error, status } = await client.from('incidents').insert([payload]).select();
+            if (error?.code === '23505') {
+                console.log(`[SupabaseBackend] Incident ${incident.localId} already exists (duplicate).`);
+                return null;
+            }
+            if (error) throw new BackendError(`Insert failed: ${error.message}`, { status, code: error.code });
+
+            const [row] = (data ?? []) as IncidentRow[];
+            return row ? fromIncidentRow(row) : null;
+        },
+        async updateIncident(id, changes, { expectedUpdatedAt, reason } = {}) {
+            let path = `incidents?id=eq.${encodeURIComponent(id)}`;
+            if (expectedUpdatedAt) path += `&updated_at=eq.${encodeURIComponent(expectedUpdatedAt)}`;
+
+            // RLS hides rows the user can't change, so a refusal also comes back as an empty list
+            const [row] = await rest<IncidentRow[]>(path, {
+                method: 'PATCH',
+                headers: { 'Prefer': 'return=representation' }, // Ask for the updated row back
+                // The audit trigger moves `change_reason` into the event it writes and clears it
+                body: JSON.stringify({ ...toIncidentChangesRow(changes), ...(reason && { change_reason: reason }) }),
+            });
+            return row ? fromIncidentRow(row) : null;
+        },
+        async listIncidentEvents(_scope, { after } = {}) {
+            // RLS limits events to incidents the user can see, so there is no owner filter here
+            const afterFilter = after ? `&created_at=gt.${encodeURIComponent(after)}` : '';
+            const rows = await rest<IncidentEventRow[]>(`incident_events?select=*&order=created_at.asc${afterFilter}`);
+            return rows.map(fromIncidentEventRow);
+        },
+        subscribe({ onChange, onStatus }) {
+            const channel = client
+                .channel(INCIDENTS_CHANNEL)
+                .on(
+                    'postgres_changes',
+                    { event: '*', schema: 'public', table: 'incidents' },
+                    (payload: RealtimePostgresChangesPayload<IncidentRow>) => {
+                        if (payload.eventType === 'DELETE') {
+                            // Deletes carry only the primary key unless the table has REPLICA IDENTITY FULL
+                            if (payload.old.id) onChange({ type: 'delete', id: payload.old.id });
+                            return;
+                        }
+                        onChange({
+                            type: 'upsert',
+                            incident: fromIncidentRow(payload.new),
+                            ownerId: payload.new.user_id ?? undefined,
+                        });
+                    },
+                )
+                .subscribe((status, err) => {
+                    if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) onStatus('live');
+                    else onStatus('down', err ?? new Error(`Channel ${status}`));
+                });
+
+            // channel() hands back an existing channel with the same topic, so callers
+            // wait for this before subscribing again
+            return async () => {
+                await client.removeChannel(channel);
+            };
+        },
+    };
+
+    const attachments: AttachmentRepository = {
+        async uploadPhoto(fileName, blob, mimeType) {
+            const { data, error } = await client.storage
+                .from(PHOTO_BUCKET)
+                .upload(fileName, blob, { contentType: mimeType });
+            if (error) throw new BackendError(error.message);
+
+            const { data: publicUrlData } = client.storage.from(PHOTO_BUCKET).getPublicUrl(data.path);
+            return publicUrlData.publicUrl;
+        },
+    };
+
+    const catalog: CatalogRepository = {
+        async listIncidentTypes() {
+            const rows = unwrap(await client.from('incident_types').select('*').order('sort_order', { ascending: true }));
+            return ((rows ?? []) as IncidentTypeRow[]).map(fromIncidentTypeRow);
+        },
+        async saveIncidentType(type) {
+            const row = unwrap(await client.from('incident_types').upsert(toIncidentTypeRow(type)).select().single());
+            return fromIncidentTypeRow(row as IncidentTypeRow);
+        },
+        async listFormFields() {
+            const rows = unwrap(await client.from('report_form_fields').select('*').order('sort_order', { ascending: true }));
+            return ((rows ?? []) as ReportFormFieldRow[]).map(fromFormFieldRow);
+        },
+        async saveFormField(field) {
+            const row = unwrap(await client.from('report_form_fields').upsert(toFormFieldRow(field)).select().single());
+            return fromFormFieldRow(row as ReportFormFieldRow);
+        },
+    };
+
+    const dispatch: DispatchRepository = {
+        async listUnits() {
+            const rows = unwrap(await client.from('response_units').select('*').order('name', { ascending: true }));
+            return ((rows ?? []) as ResponseUnitRow[]).map(fromResponseUnitRow);
+        },
+        async saveUnit(unit) {
+            const row = unwrap(await client.from('response_units').upsert(toResponseUnitRow(unit)).select().single());
+            return fromResponseUnitRow(row as ResponseUnitRow);
+        },
+        async listActiveAssignments() {
+            const rows = unwrap(await client.from('unit_assignments').select('*').is('released_at', null));
+            return ((rows ?? []) as UnitAssignmentRow[]).map(fromUnitAssignmentRow);
+        },
+        async assignUnit(incidentId, unitId) {
+            // `assigned_by` and `assigned_by_name` are filled in by the database
+            const row = unwrap(
+                await client.from('unit_assignments').insert({ incident_id: incidentId, unit_id: unitId }).select().single(),
+            );
+            return fromUnitAssignmentRow(row as UnitAssignmentRow);
+        },
+        async releaseAssignment(assignmentId) {
+            unwrap(
+                await client
+                    .from('unit_assignments')
+                    .update({ released_at: new Date().toISOString() })
+                    .eq('id', assignmentId)
+                    .is('released_at', null),
+            );
+        },
+        subscribe(onChange) {
+            const channel = client
+                .channel(DISPATCH_CHANNEL)
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'response_units' }, () => onChange())
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'unit_assignments' }, () => onChange())
+                .subscribe();
+            return async () => {
+                await client.removeChannel(channel);
+            };
+        },
+    };
+
+    return { kind: 'supabase', auth, profiles, incidents, attachments, catalog, dispatch };
+}
@@ -0,0 +1,41 @@
+import type { Backend } from './repositories';
+import { createLocalBackend, type LocalBackend } from './localBackend';
+
+/**
+ * The backend while training mode is on. Incidents, photos and units live in an exercise
+ * store in the browser, watermarked as training data; sign-in, profiles and the incident
+ * type catalog are the operational ones, so trainees use their own accounts and types.
+ */
+
+const TRAINING_STORE = 'FieldResponderTrainingBackend';
+
+export interface TrainingBackend extends Backend {
+    kind: 'training';
+    /** Deletes every exercise incident; resolves with how many there were */
+    clearExercise(): Promise<number>;
+}
+
+export function createTrainingBackend(operational: Backend): TrainingBackend {
+    const exercise: LocalBackend = createLocalBackend({
+        name: TRAINING_STORE,
+        auth: operational.auth,
+        profiles: operational.profiles,
+        watermark: true,
+    });
+
+    return {
+        kind: 'training',
+        auth: operational.auth,
+        profiles: operational.profiles,
+        catalog: operational.catalog,
+        incidents: exercise.incidents,
+        attachments: exercise.attachments,
+        // Exercise units, so drills never commit real teams
+        dispatch: exercise.dispatch,
+        clearExercise: exercise.clearIncidents,
+    };
+}
+
+export function isTrainingBackend(backend: Backend): backend is TrainingBackend {
+    return backend.kind === 'training';
+}
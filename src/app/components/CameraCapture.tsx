@@ -0,0 +1,278 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, Check, Flashlight, FlashlightOff, Images, Loader2, RotateCcw, X } from "lucide-react";
+
+import { Button } from "./ui/button";
+import { useLanguage } from "../hooks/useLanguage";
+
+export type CameraUnavailableReason = "denied" | "unavailable";
+
+interface CameraCaptureProps {
+  /** How many more photos the report can take */
+  maxShots: number;
+  onDone: (frames: Blob[]) => void;
+  onCancel: () => void;
+  /** Called instead of showing the viewfinder when the camera can't be opened */
+  onUnavailable: (reason: CameraUnavailableReason) => void;
+}
+
+interface Shot {
+  id: string;
+  blob: Blob;
+  url: string;
+}
+
+const BURST_COUNT = 3;
+const BURST_INTERVAL_MS = 300;
+
+// `torch` isn't in the DOM typings yet but is supported by Chrome on Android
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function CameraCapture({ maxShots, onDone, onCancel, onUnavailable }: CameraCaptureProps) {
+  const { t, formatNumber } = useLanguage();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const trackRef = useRef<MediaStreamTrack | null>(null);
+  const shotsRef = useRef<Shot[]>([]);
+  const [isStarting, setIsStarting] = useState(true);
+  const [hasTorch, setHasTorch] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [shots, setShots] = useState<Shot[]>([]);
+  // Index of the shot the next capture replaces, when retaking
+  const [retakeIndex, setRetakeIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    shotsRef.current = shots;
+  }, [shots]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode: { ideal: "environment" }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const [track] = mediaStream.getVideoTracks();
+        trackRef.current = track;
+        setHasTorch(Boolean((track.getCapabilities?.() as TorchCapabilities | undefined)?.torch));
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => undefined);
+        }
+        setIsStarting(false);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn("[CameraCapture] Could not open camera:", error);
+        const denied = error instanceof DOMException && (error.name === "NotAllowedError" || error.name === "SecurityError");
+        onUnavailable(denied ? "denied" : "unavailable");
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      trackRef.current = null;
+    };
+  }, [onUnavailable]);
+
+  // Revoke previews of any shots still held when the viewfinder closes
+  useEffect(() => () => shotsRef.current.forEach((shot) => URL.revokeObjectURL(shot.url)), []);
+
+  const toggleTorch = async () => {
+    const track = trackRef.current;
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.warn("[CameraCapture] Torch toggle failed:", error);
+      setHasTorch(false);
+    }
+  };
+
+  const grabFrame = () =>
+    new Promise<Blob | null>((resolve) => {
+      const video = videoRef.current;
+      if (!video || !video.videoWidth) return resolve(null);
+
+      const canvas = document.createElement("canvas");
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext("2d")?.drawImage(video, 0, 0);
+      // High quality here; the report's own compression runs afterwards
+      canvas.toBlob(resolve, "image/jpeg", 0.92);
+    });
+
+  const addShot = (blob: Blob) => {
+    const shot: Shot = {
+      id: `shot_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      blob,
+      url: URL.createObjectURL(blob),
+    };
+
+    if (retakeIndex !== null) {
+      setShots((prev) => {
+        URL.revokeObjectURL(prev[retakeIndex].url);
+        return prev.map((existing, index) => (index === retakeIndex ? shot : existing));
+      });
+      setRetakeIndex(null);
+    } else {
+      setShots((prev) => [...prev, shot]);
+    }
+  };
+
+  const capture = async (count: number) => {
+    setIsCapturing(true);
+    try {
+      // A retake replaces a single shot, so it never bursts
+      const frames = retakeIndex !== null ? 1 : Math.min(count, maxShots - shots.length);
+      for (let i = 0; i < frames; i++) {
+        if (i > 0) await wait(BURST_INTERVAL_MS);
+        const blob = await grabFrame();
+        if (blob) addShot(blob);
+      }
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const discardShot = (index: number) => {
+    setShots((prev) => {
+      URL.revokeObjectURL(prev[index].url);
+      return prev.filter((_, i) => i !== index);
+    });
+    setRetakeIndex(null);
+  };
+
+  const isFull = retakeIndex === null && shots.length >= maxShots;
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-black flex flex-col">
+      {/* Viewfinder */}
+      <div className="relative flex-1 overflow-hidden">
+        <video ref={videoRef} playsInline muted className="w-full h-full object-cover" />
+
+        {isStarting && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-white">
+            <Loader2 className="w-8 h-8 animate-spin" />
+            <span className="text-sm">{t("camera.starting")}</span>
+          </div>
+        )}
+
+        <div className="absolute top-0 inset-x-0 p-4 flex items-center justify-between">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={onCancel}
+            aria-label={t("camera.cancel")}
+            className="text-white hover:bg-white/10"
+          >
+            <X className="w-6 h-6" />
+          </Button>
+
+          {retakeIndex !== null && (
+            <span className="px-3 py-1 rounded-full bg-white/90 text-black text-sm font-medium">
+              {t("camera.retaking", { number: formatNumber(retakeIndex + 1) })}
+            </span>
+          )}
+
+          {hasTorch ? (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={toggleTorch}
+              aria-pressed={torchOn}
+              aria-label={t("camera.torch")}
+              className="text-white hover:bg-white/10"
+            >
+              {torchOn ? <Flashlight className="w-6 h-6" /> : <FlashlightOff className="w-6 h-6" />}
+            </Button>
+          ) : (
+            <span className="w-9" />
+          )}
+        </div>
+      </div>
+
+      {/* Captured shots */}
+      {shots.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto px-4 py-3 bg-black">
+          {shots.map((shot, index) => (
+            <div
+              key={shot.id}
+              className={[
+                "relative flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2",
+                retakeIndex === index ? "border-yellow-400" : "border-white/30",
+              ].join(" ")}
+            >
+              <img src={shot.url} alt="" className="w-full h-full object-cover" />
+              <div className="absolute inset-x-0 bottom-0 flex justify-between bg-black/60">
+                <button
+                  type="button"
+                  onClick={() => setRetakeIndex(retakeIndex === index ? null : index)}
+                  aria-label={t("camera.retake")}
+                  className="w-1/2 h-8 flex items-center justify-center text-white"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => discardShot(index)}
+                  aria-label={t("camera.discard")}
+                  className="w-1/2 h-8 flex items-center justify-center text-white"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="grid grid-cols-3 items-center px-6 py-5 bg-black">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => capture(BURST_COUNT)}
+          disabled={isStarting || isCapturing || isFull || retakeIndex !== null}
+          className="justify-self-start text-white hover:bg-white/10 gap-2"
+        >
+          <Images className="w-5 h-5" />
+          {t("camera.burst")}
+        </Button>
+
+        <button
+          type="button"
+          onClick={() => capture(1)}
+          disabled={isStarting || isCapturing || isFull}
+          aria-label={t("camera.capture")}
+          className="justify-self-center w-18 h-18 rounded-full border-4 border-white bg-white/20 flex items-center justify-center disabled:opacity-40 active:bg-white/60"
+        >
+          <Camera className="w-7 h-7 text-white" />
+        </button>
+
+        <Button
+          type="button"
+          onClick={() => onDone(shots.map((shot) => shot.blob))}
+          disabled={shots.length === 0 || isCapturing}
+          className="justify-self-end bg-white text-black hover:bg-white/90 gap-2"
+        >
+          <Check className="w-5 h-5" />
+          {t("camera.done", { count: formatNumber(shots.length) })}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Users } from "lucide-react";
+
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { useLanguage } from "../hooks/useLanguage";
+import type { CasualtyCounts, TriageCategory } from "../../types/incident";
+import {
+  CASUALTY_COUNT_FIELDS,
+  TRIAGE_CATEGORIES,
+  TRIAGE_COLORS,
+  type CasualtyCountField,
+} from "../utils/casualties";
+
+interface CasualtySectionProps {
+  value: CasualtyCounts;
+  onChange: (value: CasualtyCounts) => void;
+}
+
+const parseCount = (text: string) => (text === "" ? undefined : Math.max(0, Number(text)));
+
+export function CasualtySection({ value, onChange }: CasualtySectionProps) {
+  const { t } = useLanguage();
+
+  const updateCount = (field: CasualtyCountField, text: string) =>
+    onChange({ ...value, [field]: parseCount(text) });
+
+  const updateTriage = (category: TriageCategory, text: string) =>
+    onChange({ ...value, triage: { ...value.triage, [category]: parseCount(text) } });
+
+  return (
+    <Card className="p-5 space-y-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-primary" />
+          <Label className="m-0">{t("casualties.title")}</Label>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1 mb-0">{t("casualties.hint")}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {CASUALTY_COUNT_FIELDS.map((field) => (
+          <div key={field} className="space-y-2">
+            <Label htmlFor={`casualties-${field}`}>{t(`casualties.${field}`)}</Label>
+            <Input
+              id={`casualties-${field}`}
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={value[field] ?? ""}
+              onChange={(e) => updateCount(field, e.target.value)}
+              className="bg-input-background"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t("casualties.triage")}</Label>
+        <div className="grid grid-cols-2 gap-3">
+          {TRIAGE_CATEGORIES.map((category) => (
+            <div key={category} className="space-y-1">
+              <label
+                htmlFor={`triage-${category}`}
+                className="flex items-center gap-2 text-sm font-medium"
+              >
+                <span
+                  className="w-3 h-3 rounded-full border border-black/20 flex-shrink-0"
+                  style={{ backgroundColor: TRIAGE_COLORS[category] }}
+                />
+                {t(`casualties.triage.${category}`)}
+              </label>
+              <Input
+                id={`triage-${category}`}
+                type="number"
+                inputMode="numeric"
+                min={0}
+                value={value.triage?.[category] ?? ""}
+                onChange={(e) => updateTriage(category, e.target.value)}
+                className="bg-input-background"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+}
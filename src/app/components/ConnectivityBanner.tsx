@@ -1,10 +1,13 @@
 import { Wifi, WifiOff } from "lucide-react";
+import { useLanguage } from "../hooks/useLanguage";
 
 interface ConnectivityBannerProps {
   isOnline: boolean;
 }
 
 export function ConnectivityBanner({ isOnline }: ConnectivityBannerProps) {
+  const { t } = useLanguage();
+
   return (
     <div
       className={[
@@ -22,7 +25,7 @@ export function ConnectivityBanner({ isOnline }: ConnectivityBannerProps) {
       )}
 
       <p className="m-0 font-semibold text-sm tracking-wide">
-        {isOnline ? "Online" : "Offline – data will sync automatically"}
+        {isOnline ? t("connectivity.online") : t("connectivity.offline")}
       </p>
     </div>
   );
@@ -1,6 +1,11 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
 import { useGeolocation } from "../hooks/useGeolocation";
-import { ArrowLeft, MapPin, Camera, Clock, Save } from "lucide-react";
+import { useVoiceRecording } from "../hooks/useVoiceRecording";
+import { useLanguage } from "../hooks/useLanguage";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { useReportFormFields } from "../hooks/useReportFormFields";
+import { ArrowLeft, MapPin, Camera, Clock, Save, FileText, Mic, Square, Check, X, Images, PenLine } from "lucide-react";
 import { MapContainer, TileLayer, CircleMarker, useMap } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 
@@ -8,6 +13,7 @@ import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
 import {
   Select,
   SelectContent,
@@ -17,32 +23,80 @@ import {
 } from "./ui/select";
 
 import { ConnectivityBanner } from "./ConnectivityBanner";
+import { DamageAssessmentSection } from "./DamageAssessmentSection";
+import { CustomReportFields } from "./CustomReportFields";
+import { CasualtySection } from "./CasualtySection";
+import { CameraCapture, type CameraUnavailableReason } from "./CameraCapture";
+import { PhotoAnnotator } from "./PhotoAnnotator";
 import type { IncidentReport } from "../utils/storage";
-import { compressImage } from "../utils/imageCompressor";
+import type { CasualtyCounts, DamageAssessment } from "../../types/incident";
+import {
+  MAX_REPORT_PHOTOS,
+  createDraftAnnotation,
+  createDraftAttachment,
+  type DraftAttachment,
+} from "../utils/attachments";
+import type { AnnotationShape } from "../utils/annotation";
+import { parseVoiceTranscript } from "../utils/voiceParser";
+import { pruneAssessment } from "../utils/damageAssessment";
+import { pruneCasualties } from "../utils/casualties";
+import { collectCustomFieldAnswers } from "../utils/reportForm";
 
 interface CreateIncidentScreenProps {
   isOnline: boolean;
   onBack: () => void;
-  onSave: (report: Omit<IncidentReport, "id" | "createdAt" | "status" | "userId">) => void;
+  onSave: (
+    report: Omit<IncidentReport, "id" | "createdAt" | "status" | "userId">,
+    attachments: DraftAttachment[],
+  ) => void;
 }
 
-const INCIDENT_TYPES: IncidentReport["type"][] = [
-  "Flood",
-  "Landslide",
-  "Road Block",
-  "Power Line Down",
-];
-
 const SEVERITY_LEVELS = [
-  { value: 1, label: "Minor", color: "bg-blue-500" },
-  { value: 2, label: "Low", color: "bg-green-500" },
-  { value: 3, label: "Fair", color: "bg-yellow-500" },
-  { value: 4, label: "High", color: "bg-orange-500" },
-  { value: 5, label: "Critical", color: "bg-red-500" },
+  { value: 1, color: "bg-blue-500" },
+  { value: 2, color: "bg-green-500" },
+  { value: 3, color: "bg-yellow-500" },
+  { value: 4, color: "bg-orange-500" },
+  { value: 5, color: "bg-red-500" },
 ] as const;
 
 type LatLng = { latitude: number; longitude: number };
 
+// Fields pre-filled from a voice transcript that the responder has not yet confirmed,
+// holding the parser's confidence for each
+type VoiceFilledFields = { type: number | null; severity: number | null };
+
+// Inline prompt shown under a field that was filled in from the voice transcript
+function VoiceConfirmPrompt({
+  confidence,
+  note,
+  onConfirm,
+}: {
+  confidence: number;
+  note?: string;
+  onConfirm: () => void;
+}) {
+  const { t, formatNumber } = useLanguage();
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-lg border border-yellow-300 bg-yellow-50 px-3 py-2">
+      <span className="text-xs text-yellow-800">
+        {t("create.voiceConfirm", { percent: formatNumber(Math.round(confidence * 100)) })}
+        {note && <span className="block mt-1">{note}</span>}
+      </span>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={onConfirm}
+        className="gap-1 flex-shrink-0"
+      >
+        <Check className="w-4 h-4" />
+        {t("create.confirm")}
+      </Button>
+    </div>
+  );
+}
+
 // Helper component to recenter map when location changes
 // Defined outside to prevent re-mounting on every parent render
 function MapRecenter({ center }: { center: LatLng }) {
@@ -63,13 +117,37 @@ export function CreateIncidentScreen({
   onBack,
   onSave,
 }: CreateIncidentScreenProps) {
+  const { t, language, speechLang, formatDateTime, formatNumber } = useLanguage();
+  const { enabledTypes, getLabel } = useIncidentTypes();
   const [incidentType, setIncidentType] = useState<IncidentReport["type"] | "">(
     "",
   );
   const [severity, setSeverity] = useState<number>(3);
   const [location, setLocation] = useState<LatLng | null>(null);
-  const [photo, setPhoto] = useState<string | undefined>(undefined);
-  const [timestamp] = useState<string>(new Date().toISOString());
+  const [photos, setPhotos] = useState<DraftAttachment[]>([]);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // Photo open in the annotation editor
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+  // Once the camera is denied or missing, the form falls back to the file input
+  const [cameraStatus, setCameraStatus] = useState<"ready" | CameraUnavailableReason>(() =>
+    typeof navigator.mediaDevices?.getUserMedia === "function" ? "ready" : "unavailable",
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [description, setDescription] = useState("");
+  // Kept across type changes so flipping back doesn't lose answers; pruned to the final type on save
+  const [assessment, setAssessment] = useState<DamageAssessment>({});
+  const [casualties, setCasualties] = useState<CasualtyCounts>({});
+  const { getFieldsForType } = useReportFormFields();
+  const customFieldsForm = useForm({ mode: "onTouched" });
+  const customFields = incidentType ? getFieldsForType(incidentType) : [];
+  const [voiceFilled, setVoiceFilled] = useState<VoiceFilledFields>({
+    type: null,
+    severity: null,
+  });
+  const [otherVoiceTypes, setOtherVoiceTypes] = useState<IncidentReport["type"][]>([]);
+  const [timestamp, setTimestamp] = useState<string>(new Date().toISOString());
+  // Set when the responder accepts the position from a photo's EXIF data
+  const [photoLocation, setPhotoLocation] = useState<LatLng | null>(null);
   const {
     latitude,
     longitude,
@@ -99,50 +177,145 @@ export function CreateIncidentScreen({
     }
   }, [latitude, longitude, isStale, centeredStatus]);
 
+  // Offered when there's no live GPS fix; a later live fix replaces it via the effect above
+  const photoWithLocation = photos.find((photo) => photo.metadata.location);
+  const usingPhotoLocation = photoLocation !== null && location === photoLocation;
+  const canUsePhotoLocation =
+    !!photoWithLocation && !usingPhotoLocation && (!location || isStale);
+
+  const applyPhotoLocation = () => {
+    const metadata = photoWithLocation?.metadata;
+    if (!metadata?.location) return;
+
+    setLocation(metadata.location);
+    setActiveMapCenter(metadata.location);
+    setPhotoLocation(metadata.location);
+    if (metadata.takenAt) setTimestamp(metadata.takenAt);
+  };
+
   const handleManualCapture = () => {
     setCenteredStatus('none'); // Reset status to allow re-centering
     captureLocation();
   };
 
-  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    try {
-      // Compress the image
-      const compressedBlob = await compressImage(file);
-
-      // Convert to base64 for display/storage
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result;
-        if (typeof result === "string") setPhoto(result);
-      };
-      reader.readAsDataURL(compressedBlob);
-
-    } catch (error) {
-      console.error("Image compression failed:", error);
-      // Fallback to original file if compression fails
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result;
-        if (typeof result === "string") setPhoto(result);
-      };
-      reader.readAsDataURL(file);
+  // Pre-fill type and severity from the spoken report and keep the words as notes.
+  // Anything detected stays flagged until the responder confirms or overrides it.
+  const applyVoiceTranscript = useCallback((spoken: string) => {
+    if (!spoken) return;
+
+    const { typeCandidates, severityCandidates } = parseVoiceTranscript(spoken, language, enabledTypes);
+    const [bestType, ...otherTypes] = typeCandidates;
+    const [bestSeverity] = severityCandidates;
+
+    if (bestType) {
+      setIncidentType(bestType.value);
+      setOtherVoiceTypes(otherTypes.map((c) => c.value));
     }
+    if (bestSeverity) setSeverity(bestSeverity.value);
+
+    setVoiceFilled((prev) => ({
+      type: bestType?.confidence ?? prev.type,
+      severity: bestSeverity?.confidence ?? prev.severity,
+    }));
+    setDescription((prev) => (prev.trim() ? `${prev.trim()}\n${spoken}` : spoken));
+  }, [language, enabledTypes]);
+
+  const {
+    isRecording,
+    transcript,
+    interimTranscript,
+    isSupported: isVoiceSupported,
+    error: voiceError,
+    startRecording,
+    stopRecording,
+  } = useVoiceRecording({ lang: speechLang, onComplete: applyVoiceTranscript });
+
+  const handleVoiceToggle = () => {
+    if (isRecording) {
+      stopRecording();
+    } else {
+      startRecording();
+    }
+  };
+
+  const addPhotos = async (images: Blob[]) => {
+    const accepted = images.slice(0, MAX_REPORT_PHOTOS - photos.length);
+    if (accepted.length === 0) return;
+
+    const drafts = await Promise.all(accepted.map(createDraftAttachment));
+    setPhotos((prev) => [...prev, ...drafts].slice(0, MAX_REPORT_PHOTOS));
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Clear the input so picking the same file again still fires onChange
+    e.target.value = "";
+    await addPhotos(files);
   };
 
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleCameraDone = async (frames: Blob[]) => {
+    setIsCameraOpen(false);
+    await addPhotos(frames);
+  };
+
+  const handleCameraUnavailable = useCallback((reason: CameraUnavailableReason) => {
+    setIsCameraOpen(false);
+    setCameraStatus(reason);
+  }, []);
+
+  const removePhoto = (id: string) => {
+    setPhotos((prev) => prev.filter((photo) => photo.id !== id));
+  };
+
+  const handleAnnotationSave = async (rendered: Blob | null, shapes: AnnotationShape[]) => {
+    const id = annotatingId;
+    setAnnotatingId(null);
+    if (!id) return;
+
+    const annotation = rendered ? await createDraftAnnotation(rendered, shapes) : undefined;
+    setPhotos((prev) => prev.map((photo) => (photo.id === id ? { ...photo, annotation } : photo)));
+  };
+
+  const annotatingPhoto = photos.find((photo) => photo.id === annotatingId);
+
+  // Photos stay as Blobs until saved; previews use object URLs. A marked-up photo
+  // previews its annotated copy, which is what command will see first
+  const photoPreviews = useMemo(
+    () =>
+      photos.map((photo) => ({
+        id: photo.id,
+        url: URL.createObjectURL(photo.annotation?.thumbnail ?? photo.thumbnail),
+        isAnnotated: !!photo.annotation,
+      })),
+    [photos],
+  );
+
+  useEffect(
+    () => () => photoPreviews.forEach((preview) => URL.revokeObjectURL(preview.url)),
+    [photoPreviews],
+  );
+
+  const hasUnconfirmedVoiceFields =
+    voiceFilled.type !== null || voiceFilled.severity !== null;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!incidentType || !location) return;
+    if (!incidentType || !location || hasUnconfirmedVoiceFields) return;
+
+    // Only validate the questions asked for the current type
+    const customFieldsValid = await customFieldsForm.trigger(customFields.map((field) => field.id));
+    if (!customFieldsValid) return;
 
     onSave({
       type: incidentType,
       severity: severity as IncidentReport["severity"],
       location,
       timestamp,
-      photo,
-    });
+      description: description.trim() || undefined,
+      assessment: pruneAssessment(incidentType, assessment),
+      customFields: collectCustomFieldAnswers(customFields, customFieldsForm.getValues()),
+      casualties: pruneCasualties(casualties),
+    }, photos);
   };
 
 
@@ -162,47 +335,107 @@ export function CreateIncidentScreen({
           >
             <ArrowLeft className="w-5 h-5" />
           </Button>
-          <h2 className="m-0">Create Incident Report</h2>
+          <h2 className="m-0">{t("create.title")}</h2>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Voice report */}
+          {isVoiceSupported && (
+            <Card className="p-5 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="leading-tight">
+                  <Label className="m-0">{t("create.voiceTitle")}</Label>
+                  <p className="text-xs text-muted-foreground m-0 mt-1">
+                    {t("create.voiceHint")}
+                  </p>
+                </div>
+
+                <Button
+                  type="button"
+                  size="icon"
+                  onClick={handleVoiceToggle}
+                  className={[
+                    "w-14 h-14 rounded-full flex-shrink-0",
+                    isRecording ? "bg-red-600 hover:bg-red-700 animate-pulse" : "",
+                  ].join(" ")}
+                  aria-pressed={isRecording}
+                  aria-label={isRecording ? t("create.voiceStop") : t("create.voiceStart")}
+                >
+                  {isRecording ? <Square className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
+                </Button>
+              </div>
+
+              {(isRecording || transcript) && (
+                <div className="rounded-lg border border-border bg-muted/30 p-3 text-sm min-h-12">
+                  {transcript}
+                  <span className="text-muted-foreground">{interimTranscript}</span>
+                  {isRecording && !transcript && !interimTranscript && (
+                    <span className="text-muted-foreground">{t("create.voiceListening")}</span>
+                  )}
+                </div>
+              )}
+
+              {voiceError && (
+                <p className="text-xs text-red-600 m-0">{voiceError}</p>
+              )}
+            </Card>
+          )}
+
           {/* Incident type */}
           <Card className="p-5 space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="incident-type">Incident Type</Label>
+              <Label htmlFor="incident-type">{t("create.incidentType")}</Label>
 
               <Select
                 value={incidentType}
-                onValueChange={(value: string) =>
-                  setIncidentType(value as IncidentReport["type"])
-                }
+                onValueChange={(value: string) => {
+                  setIncidentType(value as IncidentReport["type"]);
+                  setVoiceFilled((prev) => ({ ...prev, type: null }));
+                }}
               >
                 <SelectTrigger id="incident-type" className="bg-input-background">
-                  <SelectValue placeholder="Select incident type" />
+                  <SelectValue placeholder={t("create.selectIncidentType")} />
                 </SelectTrigger>
 
                 <SelectContent>
-                  {INCIDENT_TYPES.map((type) => (
-                    <SelectItem key={type} value={type}>
-                      {type}
+                  {enabledTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {getLabel(type.id)}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+
+            {voiceFilled.type !== null && (
+              <VoiceConfirmPrompt
+                confidence={voiceFilled.type}
+                note={
+                  otherVoiceTypes.length > 0
+                    ? t("create.voiceAlsoMentioned", {
+                      types: otherVoiceTypes.map(getLabel).join(", "),
+                    })
+                    : undefined
+                }
+                onConfirm={() => setVoiceFilled((prev) => ({ ...prev, type: null }))}
+              />
+            )}
           </Card>
 
           {/* Severity */}
           <Card className="p-5 space-y-4">
             <div className="space-y-3">
-              <Label>Severity Level</Label>
+              <Label>{t("create.severity")}</Label>
 
               <div className="grid grid-cols-5 gap-2">
                 {SEVERITY_LEVELS.map((level) => (
                   <button
                     key={level.value}
                     type="button"
-                    onClick={() => setSeverity(level.value)}
+                    onClick={() => {
+                      setSeverity(level.value);
+                      setVoiceFilled((prev) => ({ ...prev, severity: null }));
+                    }}
                     className={[
                       "rounded-lg border-2 transition-all",
                       "px-2 py-2",
@@ -218,30 +451,49 @@ export function CreateIncidentScreen({
                     ].join(" ")}
                     aria-pressed={severity === level.value}
                   >
-                    <div className="text-lg font-semibold">{level.value}</div>
+                    <div className="text-lg font-semibold">{formatNumber(level.value)}</div>
                     <div className="text-[10px] sm:text-xs text-center break-words whitespace-normal px-1">
-                      {level.label}
+                      {t(`severity.${level.value}`)}
                     </div>
                   </button>
                 ))}
               </div>
 
               <p className="text-xs text-muted-foreground m-0">
-                Select the severity that best matches the situation.
+                {t("create.severityHint")}
               </p>
             </div>
+
+            {voiceFilled.severity !== null && (
+              <VoiceConfirmPrompt
+                confidence={voiceFilled.severity}
+                onConfirm={() => setVoiceFilled((prev) => ({ ...prev, severity: null }))}
+              />
+            )}
           </Card>
 
+          <CasualtySection value={casualties} onChange={setCasualties} />
+
+          {incidentType && (
+            <DamageAssessmentSection
+              type={incidentType}
+              value={assessment}
+              onChange={setAssessment}
+            />
+          )}
+
+          <CustomReportFields form={customFieldsForm} fields={customFields} />
+
           {/* Location with map */}
           <Card className="p-5 space-y-3">
             <div className="flex items-center gap-2">
               <MapPin className="w-5 h-5 text-primary" />
-              <Label className="m-0">Location</Label>
+              <Label className="m-0">{t("create.location")}</Label>
             </div>
 
             {locationLoading ? (
               <p className="text-sm text-muted-foreground m-0">
-                Capturing location...
+                {t("create.capturingLocation")}
               </p>
             ) : location ? (
               <div>
@@ -274,22 +526,25 @@ export function CreateIncidentScreen({
                   ) : (
                     <div className="w-full h-44 bg-muted flex flex-col items-center justify-center text-muted-foreground text-center p-4">
                       <MapPin className="w-8 h-8 mb-2 opacity-30" />
-                      <span className="text-sm font-medium">Map view unavailable offline</span>
+                      <span className="text-sm font-medium">{t("create.mapOffline")}</span>
                       <span className="text-xs mt-1">
-                        Coordinates: {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+                        {t("create.coordinates", {
+                          lat: formatNumber(location.latitude, { minimumFractionDigits: 5, maximumFractionDigits: 5 }),
+                          lng: formatNumber(location.longitude, { minimumFractionDigits: 5, maximumFractionDigits: 5 }),
+                        })}
                       </span>
                     </div>
                   )}
                   {isStale && (
                     <div className="absolute top-2 right-2 bg-yellow-500 text-white text-xs px-2 py-1 rounded shadow">
-                      Cached (Offline)
+                      {t("create.cachedLocation")}
                     </div>
                   )}
                 </div>
 
                 {/* Space below map */}
                 <p className="text-xs text-muted-foreground m-0 mt-3">
-                  Location captured. Tap “Capture Location” to refresh if needed.
+                  {t("create.locationCaptured")}
                 </p>
 
                 {/* Extra spacing before button */}
@@ -300,7 +555,7 @@ export function CreateIncidentScreen({
                     onClick={handleManualCapture}
                     className="w-full"
                   >
-                    Capture Location
+                    {t("create.captureLocation")}
                   </Button>
                 </div>
               </div>
@@ -311,65 +566,187 @@ export function CreateIncidentScreen({
                 onClick={handleManualCapture}
                 className="w-full"
               >
-                Capture Location
+                {t("create.captureLocation")}
               </Button>
             )}
+
+            {usingPhotoLocation && (
+              <p className="text-xs text-muted-foreground m-0">{t("create.photoLocation.applied")}</p>
+            )}
+
+            {canUsePhotoLocation && photoWithLocation.metadata.location && (
+              <div className="rounded-lg border border-border bg-muted/30 p-3 space-y-2">
+                <p className="text-sm m-0">
+                  {t("create.photoLocation.body", {
+                    lat: formatNumber(photoWithLocation.metadata.location.latitude, { minimumFractionDigits: 5, maximumFractionDigits: 5 }),
+                    lng: formatNumber(photoWithLocation.metadata.location.longitude, { minimumFractionDigits: 5, maximumFractionDigits: 5 }),
+                  })}
+                  {photoWithLocation.metadata.takenAt &&
+                    ` ${t("create.photoLocation.takenAt", { time: formatDateTime(photoWithLocation.metadata.takenAt) })}`}
+                </p>
+                <Button type="button" variant="outline" onClick={applyPhotoLocation} className="w-full">
+                  {t("create.photoLocation.use")}
+                </Button>
+              </div>
+            )}
           </Card>
 
           {/* Timestamp */}
           <Card className="p-5 space-y-3">
             <div className="flex items-center gap-2">
               <Clock className="w-5 h-5 text-primary" />
-              <Label className="m-0">Timestamp</Label>
+              <Label className="m-0">{t("create.timestamp")}</Label>
             </div>
 
             <Input
-              value={new Date(timestamp).toLocaleString()}
+              value={formatDateTime(timestamp)}
               disabled
               className="bg-muted/30"
             />
           </Card>
 
+          {/* Field notes */}
+          <Card className="p-5 space-y-3">
+            <div className="flex items-center gap-2">
+              <FileText className="w-5 h-5 text-primary" />
+              <Label htmlFor="description" className="m-0">
+                {t("create.notes")}
+              </Label>
+            </div>
+
+            <Textarea
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder={t("create.notesPlaceholder")}
+              rows={4}
+              className="min-h-28"
+            />
+
+            <p className="text-xs text-muted-foreground m-0">
+              {t("create.notesHint")}
+            </p>
+          </Card>
+
           {/* Photo */}
           <Card className="p-5 space-y-3">
             <div className="flex items-center gap-2">
               <Camera className="w-5 h-5 text-primary" />
               <Label htmlFor="photo" className="m-0">
-                Photo Upload (Optional)
+                {t("create.photo")}
               </Label>
             </div>
 
+            {cameraStatus === "ready" ? (
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  onClick={() => setIsCameraOpen(true)}
+                  disabled={photos.length >= MAX_REPORT_PHOTOS}
+                  className="h-auto py-3 gap-2"
+                >
+                  <Camera className="w-5 h-5" />
+                  {t("camera.open")}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={photos.length >= MAX_REPORT_PHOTOS}
+                  className="h-auto py-3 gap-2"
+                >
+                  <Images className="w-5 h-5" />
+                  {t("camera.gallery")}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground m-0">{t(`camera.${cameraStatus}`)}</p>
+            )}
+
             <Input
+              ref={fileInputRef}
               id="photo"
               type="file"
               accept="image/*"
+              multiple
               onChange={handlePhotoUpload}
-              className="bg-input-background cursor-pointer"
+              disabled={photos.length >= MAX_REPORT_PHOTOS}
+              className={cameraStatus === "ready" ? "hidden" : "bg-input-background cursor-pointer"}
             />
 
-            {photo && (
-              <div className="mt-3">
-                <img
-                  src={photo}
-                  alt="Incident preview"
-                  className="w-full h-48 object-cover rounded-lg border border-border"
-                />
+            <p className="text-xs text-muted-foreground m-0">
+              {t("create.photoLimit", {
+                count: formatNumber(photos.length),
+                max: formatNumber(MAX_REPORT_PHOTOS),
+              })}
+            </p>
+
+            {photoPreviews.length > 0 && (
+              <div className="grid grid-cols-3 gap-2 mt-3">
+                {photoPreviews.map((preview, index) => (
+                  <div key={preview.id} className="relative">
+                    <img
+                      src={preview.url}
+                      alt={`${t("create.photoPreview")} ${index + 1}`}
+                      className="w-full h-24 object-cover rounded-lg border border-border"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removePhoto(preview.id)}
+                      aria-label={t("create.photoRemove")}
+                      className="absolute top-1 right-1 w-8 h-8 rounded-full bg-black/70 text-white flex items-center justify-center"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setAnnotatingId(preview.id)}
+                      aria-label={t("annotate.open")}
+                      className={[
+                        "absolute bottom-1 left-1 h-8 px-2 rounded-full flex items-center gap-1 text-xs",
+                        preview.isAnnotated ? "bg-white text-black" : "bg-black/70 text-white",
+                      ].join(" ")}
+                    >
+                      <PenLine className="w-4 h-4" />
+                      {preview.isAnnotated ? t("annotate.edited") : t("annotate.open")}
+                    </button>
+                  </div>
+                ))}
               </div>
             )}
+
+            {isCameraOpen && (
+              <CameraCapture
+                maxShots={MAX_REPORT_PHOTOS - photos.length}
+                onDone={handleCameraDone}
+                onCancel={() => setIsCameraOpen(false)}
+                onUnavailable={handleCameraUnavailable}
+              />
+            )}
+
+            {annotatingPhoto && (
+              <PhotoAnnotator
+                photo={annotatingPhoto}
+                onSave={handleAnnotationSave}
+                onCancel={() => setAnnotatingId(null)}
+              />
+            )}
           </Card>
 
           {/* Submit */}
           <Button
             type="submit"
             className="w-full h-auto py-4 gap-3"
-            disabled={!incidentType || !location}
+            disabled={!incidentType || !location || hasUnconfirmedVoiceFields}
           >
             <Save className="w-5 h-5" />
-            <span>Save Incident Locally</span>
+            <span>{t("create.save")}</span>
           </Button>
 
           <p className="text-sm text-muted-foreground text-center m-0">
-            This report will be saved even if you are offline.
+            {hasUnconfirmedVoiceFields
+              ? t("create.confirmVoiceFirst")
+              : t("create.offlineHint")}
           </p>
         </form>
       </div>
@@ -0,0 +1,128 @@
+import { ListChecks } from "lucide-react";
+import type { FieldValues, UseFormReturn } from "react-hook-form";
+
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useLanguage } from "../hooks/useLanguage";
+import type { ReportFormField } from "../../types/incident";
+import { getReportFormFieldLabel } from "../utils/reportForm";
+
+interface CustomReportFieldsProps {
+  form: UseFormReturn<FieldValues>;
+  fields: ReportFormField[];
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === false || (typeof value === "string" && !value.trim());
+
+/**
+ * Renders the admin-defined questions for the selected incident type.
+ * Validation runs through react-hook-form; the parent reads the values on save.
+ */
+export function CustomReportFields({ form, fields }: CustomReportFieldsProps) {
+  const { t, language } = useLanguage();
+
+  if (fields.length === 0) return null;
+
+  return (
+    <Card className="p-5 space-y-4">
+      <div className="flex items-center gap-2">
+        <ListChecks className="w-5 h-5 text-primary" />
+        <span className="text-sm font-medium">{t("customFields.title")}</span>
+      </div>
+
+      <Form {...form}>
+        {fields.map((definition) => {
+          const label = getReportFormFieldLabel(definition, language);
+
+          return (
+            <FormField
+              key={definition.id}
+              control={form.control}
+              name={definition.id}
+              rules={{
+                validate: (value) => {
+                  if (definition.required && isBlank(value)) return t("customFields.required");
+                  if (definition.kind === "number" && !isBlank(value) && !Number.isFinite(Number(value))) {
+                    return t("customFields.invalidNumber");
+                  }
+                  return true;
+                },
+              }}
+              render={({ field }) =>
+                definition.kind === "checkbox" ? (
+                  <FormItem className="flex items-center gap-3">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value === true}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        onBlur={field.onBlur}
+                      />
+                    </FormControl>
+                    <FormLabel className="m-0">
+                      {label}
+                      {definition.required && " *"}
+                    </FormLabel>
+                    <FormMessage />
+                  </FormItem>
+                ) : (
+                  <FormItem>
+                    <FormLabel>
+                      {label}
+                      {definition.required && " *"}
+                    </FormLabel>
+
+                    {definition.kind === "select" ? (
+                      <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="bg-input-background" onBlur={field.onBlur}>
+                            <SelectValue placeholder={t("customFields.selectPlaceholder")} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {definition.options.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <FormControl>
+                        <Input
+                          {...field}
+                          value={field.value ?? ""}
+                          type={definition.kind === "number" ? "number" : "text"}
+                          inputMode={definition.kind === "number" ? "decimal" : undefined}
+                          className="bg-input-background"
+                        />
+                      </FormControl>
+                    )}
+
+                    <FormMessage />
+                  </FormItem>
+                )
+              }
+            />
+          );
+        })}
+      </Form>
+    </Card>
+  );
+}
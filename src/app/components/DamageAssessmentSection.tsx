@@ -0,0 +1,182 @@
+import { ClipboardList } from "lucide-react";
+
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { useLanguage } from "../hooks/useLanguage";
+import type { DamageAssessment, IncidentType } from "../../types/incident";
+import {
+  HAZARD_STATUSES,
+  VEHICLE_CLASSES,
+  WATER_TRENDS,
+  getAssessmentFields,
+} from "../utils/damageAssessment";
+
+interface DamageAssessmentSectionProps {
+  type: IncidentType;
+  value: DamageAssessment;
+  onChange: (value: DamageAssessment) => void;
+}
+
+// Large tap targets, same treatment as the severity picker
+function OptionButton({
+  selected,
+  onClick,
+  children,
+}: {
+  selected: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={[
+        "rounded-lg border-2 px-3 py-2 min-h-[48px] text-sm font-medium transition-all",
+        selected
+          ? "border-black bg-black text-white"
+          : "border-border bg-white text-black hover:bg-black/5",
+      ].join(" ")}
+    >
+      {children}
+    </button>
+  );
+}
+
+const parseCount = (text: string) => (text === "" ? undefined : Math.max(0, Number(text)));
+
+export function DamageAssessmentSection({ type, value, onChange }: DamageAssessmentSectionProps) {
+  const { t } = useLanguage();
+  const fields = getAssessmentFields(type);
+
+  if (fields.length === 0) return null;
+
+  const update = (patch: Partial<DamageAssessment>) => onChange({ ...value, ...patch });
+
+  return (
+    <Card className="p-5 space-y-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-primary" />
+          <Label className="m-0">{t("assessment.title")}</Label>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1 mb-0">{t("assessment.hint")}</p>
+      </div>
+
+      {fields.includes("waterDepthCm") && (
+        <div className="space-y-2">
+          <Label htmlFor="water-depth">{t("assessment.waterDepth")}</Label>
+          <Input
+            id="water-depth"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={value.waterDepthCm ?? ""}
+            onChange={(e) => update({ waterDepthCm: parseCount(e.target.value) })}
+            className="bg-input-background"
+          />
+        </div>
+      )}
+
+      {fields.includes("waterTrend") && (
+        <div className="space-y-2">
+          <Label>{t("assessment.waterTrend")}</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {WATER_TRENDS.map((trend) => (
+              <OptionButton
+                key={trend}
+                selected={value.waterTrend === trend}
+                onClick={() =>
+                  update({ waterTrend: value.waterTrend === trend ? undefined : trend })
+                }
+              >
+                {t(`assessment.trend.${trend}`)}
+              </OptionButton>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {fields.includes("roadPassable") && (
+        <div className="space-y-2">
+          <Label>{t("assessment.roadPassable")}</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <OptionButton
+              selected={value.roadPassable === true}
+              onClick={() => update({ roadPassable: true })}
+            >
+              {t("assessment.passable.yes")}
+            </OptionButton>
+            <OptionButton
+              selected={value.roadPassable === false}
+              onClick={() => update({ roadPassable: false, passableVehicles: undefined })}
+            >
+              {t("assessment.passable.no")}
+            </OptionButton>
+          </div>
+        </div>
+      )}
+
+      {fields.includes("passableVehicles") && value.roadPassable === true && (
+        <div className="space-y-2">
+          <Label>{t("assessment.vehicles")}</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {VEHICLE_CLASSES.map((vehicle) => {
+              const selected = value.passableVehicles?.includes(vehicle) ?? false;
+              return (
+                <OptionButton
+                  key={vehicle}
+                  selected={selected}
+                  onClick={() => {
+                    const current = value.passableVehicles ?? [];
+                    update({
+                      passableVehicles: selected
+                        ? current.filter((v) => v !== vehicle)
+                        : [...current, vehicle],
+                    });
+                  }}
+                >
+                  {t(`assessment.vehicle.${vehicle}`)}
+                </OptionButton>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {fields.includes("buildingsAffected") && (
+        <div className="space-y-2">
+          <Label htmlFor="buildings-affected">{t("assessment.buildings")}</Label>
+          <Input
+            id="buildings-affected"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={value.buildingsAffected ?? ""}
+            onChange={(e) => update({ buildingsAffected: parseCount(e.target.value) })}
+            className="bg-input-background"
+          />
+        </div>
+      )}
+
+      {fields.includes("hazardStatus") && (
+        <div className="space-y-2">
+          <Label>{t("assessment.hazard")}</Label>
+          <div className="grid grid-cols-1 gap-2">
+            {HAZARD_STATUSES.map((status) => (
+              <OptionButton
+                key={status}
+                selected={value.hazardStatus === status}
+                onClick={() => update({ hazardStatus: status })}
+              >
+                {t(`assessment.hazard.${status}`)}
+              </OptionButton>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
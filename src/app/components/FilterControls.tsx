@@ -1,6 +1,8 @@
 import { useMemo, useState } from "react";
 import { Filter, X, ChevronDown } from "lucide-react";
 import type { IncidentType } from "../../types/incident";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { getIncidentTypeIcon } from "../utils/incidentTypes";
 
 interface FilterControlsProps {
   filters: {
@@ -15,12 +17,8 @@ export function FilterControls({ filters, onFilterChange }: FilterControlsProps)
   // ✅ Retracted (collapsed) by default
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const incidentTypes: IncidentType[] = [
-    "Flood",
-    "Landslide",
-    "Road Block",
-    "Power Line Down",
-  ];
+  // Every registry type, including disabled ones, so older incidents can still be filtered
+  const { types: incidentTypes } = useIncidentTypes();
   const severityLevels = [1, 2, 3, 4, 5];
 
   const toggleType = (type: IncidentType) => {
@@ -152,9 +150,11 @@ export function FilterControls({ filters, onFilterChange }: FilterControlsProps)
                 </h4>
 
                 <div className="space-y-2">
-                  {incidentTypes.map((type) => {
+                  {incidentTypes.map((definition) => {
+                    const type = definition.id;
                     const checked =
                       filters.types.length === 0 || filters.types.includes(type);
+                    const Icon = getIncidentTypeIcon(definition);
 
                     return (
                       <label
@@ -175,7 +175,8 @@ export function FilterControls({ filters, onFilterChange }: FilterControlsProps)
                             onChange={() => toggleType(type)}
                             className={checkboxClass}
                           />
-                          <span className="text-gray-700">{type}</span>
+                          <Icon className="w-4 h-4" style={{ color: definition.color }} />
+                          <span className="text-gray-700">{definition.label}</span>
                         </div>
 
                         <span className="text-xs text-gray-400">Type</span>
@@ -4,8 +4,12 @@ import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { ConnectivityBanner } from "./ConnectivityBanner";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { useLanguage } from "../hooks/useLanguage";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
 
 import { IncidentMiniMap } from "./IncidentMiniMap";
+import { getAvailableTransitions } from "../utils/incidentWorkflow";
 
 interface HomeScreenProps {
   isOnline: boolean;
@@ -15,6 +19,10 @@ interface HomeScreenProps {
   onLogout: () => void;
   remoteIncidents?: any[];
   nearbyIncidents?: any[];
+  /** Field unit confirms it is on its way to a dispatched incident */
+  onAcknowledge?: (incidentId: string) => void;
+  /** Incidents the responder's unit is assigned to; only these can be acknowledged */
+  crewIncidentIds?: Set<string>;
 }
 
 export function HomeScreen({
@@ -25,8 +33,12 @@ export function HomeScreen({
   onLogout,
   remoteIncidents = [],
   nearbyIncidents = [],
+  onAcknowledge,
+  crewIncidentIds,
 }: HomeScreenProps) {
   const [expandedIncidentId, setExpandedIncidentId] = useState<string | null>(null);
+  const { t, formatDateTime, formatNumber } = useLanguage();
+  const { getLabel } = useIncidentTypes();
 
   useEffect(() => {
     console.log(`[HomeScreen] Mounted. Incidents received: ${remoteIncidents.length}`);
@@ -44,9 +56,9 @@ export function HomeScreen({
           </div>
 
           <div className="leading-tight">
-            <div className="text-black font-semibold text-lg">Nodus</div>
+            <div className="text-black font-semibold text-lg">{t("app.name")}</div>
             <div className="text-black/60 font-semibold text-sm">
-              Emergency Response System
+              {t("app.tagline")}
             </div>
           </div>
         </div>
@@ -54,11 +66,12 @@ export function HomeScreen({
         {/* Header */}
         <div className="flex items-start justify-between">
           <div>
-            <h1 className="mb-2 text-black">Field Responder</h1>
-            <p className="text-black/60 m-0">Emergency Response Dashboard</p>
+            <h1 className="mb-2 text-black">{t("home.title")}</h1>
+            <p className="text-black/60 m-0">{t("home.subtitle")}</p>
           </div>
 
           {/* Icon-only logout removed from here (moved to bottom button) */}
+          <LanguageSwitcher />
         </div>
 
         {/* Actions (cleaner + B/W) */}
@@ -81,9 +94,9 @@ export function HomeScreen({
                 </div>
 
                 <div className="leading-tight">
-                  <div className="font-semibold">Create Incident Report</div>
+                  <div className="font-semibold">{t("home.createIncident")}</div>
                   <div className="text-sm text-white/80">
-                    Record incidents on site
+                    {t("home.createIncidentHint")}
                   </div>
                 </div>
               </div>
@@ -113,9 +126,9 @@ export function HomeScreen({
                 </div>
 
                 <div className="leading-tight">
-                  <div className="font-semibold">Pending Reports</div>
+                  <div className="font-semibold">{t("home.pendingReports")}</div>
                   <div className="text-sm text-black/60">
-                    Review & sync when online
+                    {t("home.pendingReportsHint")}
                   </div>
                 </div>
               </div>
@@ -123,7 +136,7 @@ export function HomeScreen({
               <div className="flex items-center gap-3">
                 {pendingCount > 0 && (
                   <Badge className="h-7 min-w-[1.75rem] rounded-full px-2 bg-black text-white">
-                    {pendingCount}
+                    {formatNumber(pendingCount)}
                   </Badge>
                 )}
                 <ChevronRight className="w-5 h-5 text-black/60" />
@@ -140,7 +153,7 @@ export function HomeScreen({
                 <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
                 <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
               </span>
-              Nearby Alerts
+              {t("home.nearbyAlerts")}
             </h2>
             <div className="space-y-3">
               {nearbyIncidents.map((incident: any) => (
@@ -149,17 +162,17 @@ export function HomeScreen({
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
                         <Badge variant="outline" className="border-red-200 text-red-700 bg-red-100">
-                          Within 1km
+                          {t("home.withinKm", { km: formatNumber(1) })}
                         </Badge>
                         <span className="text-xs text-red-600/70 font-medium">
-                          {new Date(incident.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {formatDateTime(incident.timestamp, { hour: '2-digit', minute: '2-digit' })}
                         </span>
                       </div>
                       <p className="text-sm text-gray-900 font-medium line-clamp-2">
                         {incident.description}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
-                        {incident.location.address || `${incident.location.lat.toFixed(4)}, ${incident.location.lng.toFixed(4)}`}
+                        {incident.location.address || `${formatNumber(incident.location.lat, { minimumFractionDigits: 4, maximumFractionDigits: 4 })}, ${formatNumber(incident.location.lng, { minimumFractionDigits: 4, maximumFractionDigits: 4 })}`}
                       </p>
                     </div>
 
@@ -171,7 +184,7 @@ export function HomeScreen({
                           ? 'bg-red-100 border-red-200 text-red-700'
                           : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}
                       `}
-                      title="View on Map"
+                      title={t("home.viewOnMap")}
                     >
                       <MapPin className="w-5 h-5" />
                     </button>
@@ -190,10 +203,10 @@ export function HomeScreen({
 
         {/* Remote Active Incidents List */}
         <div>
-          <h2 className="text-lg font-semibold text-black mb-4">My Reports</h2>
+          <h2 className="text-lg font-semibold text-black mb-4">{t("home.myReports")}</h2>
           <div className="space-y-3">
             {remoteIncidents.length === 0 ? (
-              <p className="text-black/60 text-sm">No Reports found.</p>
+              <p className="text-black/60 text-sm">{t("home.noReports")}</p>
             ) : (
               remoteIncidents.map((incident: any) => (
                 <Card key={incident.id} className="p-4 border border-black/10 shadow-sm bg-white">
@@ -201,24 +214,44 @@ export function HomeScreen({
                     <div>
                       <div className="flex items-center gap-2 mb-1">
                         <Badge variant="outline" className="border-black/20 text-black">
-                          {incident.type}
+                          {getLabel(incident.type)}
                         </Badge>
                         <span className="text-xs text-black/50">
-                          {new Date(incident.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {formatDateTime(incident.timestamp, { hour: '2-digit', minute: '2-digit' })}
                         </span>
                       </div>
                       <p className="text-sm text-black/80 line-clamp-2">
                         {incident.description}
                       </p>
+                      {onAcknowledge &&
+                        crewIncidentIds?.has(incident.id) &&
+                        getAvailableTransitions(incident.status, "responder").some((transition) => transition.action === "acknowledge") && (
+                          <Button
+                            onClick={() => onAcknowledge(incident.id)}
+                            className="mt-3 h-9 bg-black text-white hover:bg-black/90"
+                          >
+                            {t("home.acknowledge")}
+                          </Button>
+                        )}
                     </div>
                     <div className="flex items-center gap-2">
+                      {crewIncidentIds?.has(incident.id) && (
+                        <Badge variant="outline" className="bg-black text-white border-black">
+                          {t("home.assignedToUnit")}
+                        </Badge>
+                      )}
+                      {incident.status === "Responding" && (
+                        <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
+                          {t("home.statusResponding")}
+                        </Badge>
+                      )}
                       {!incident.isRead ? (
                         <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">
-                          Pending
+                          {t("home.statusPending")}
                         </Badge>
                       ) : (
                         <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
-                          Read
+                          {t("home.statusRead")}
                         </Badge>
                       )}
                       <div className={`w-2 h-2 rounded-full ${incident.status === 'Active' ? 'bg-green-500' : 'bg-gray-400'}`} />
@@ -237,7 +270,7 @@ export function HomeScreen({
           onClick={onLogout}
           className="w-full h-12 bg-black text-white hover:bg-black/90 flex items-center justify-center gap-2"
         >
-          Logout
+          {t("common.logout")}
         </Button>
       </div>
     </div>
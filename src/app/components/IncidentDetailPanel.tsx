@@ -1,8 +1,87 @@
-import type { Incident } from "../../types/incident";
-import { X, MapPin, Clock, AlertTriangle, User, CheckCircle } from "lucide-react";
-import { useEffect } from "react";
+import type { CustomFieldValue, DamageAssessment, Incident } from "../../types/incident";
+import { X, MapPin, Clock, AlertTriangle, User, CheckCircle, ClipboardList, ListChecks, Users, History, RotateCcw, Send, Siren } from "lucide-react";
+import { useEffect, useState } from "react";
+import { describeChanges } from "../services/incidentOutbox";
 import { useAuth } from "../../providers/AuthProvider";
 import { useIncidentData } from "../../providers/IncidentProvider";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { useReportFormFields } from "../hooks/useReportFormFields";
+import { useReportAttachments } from "../hooks/useReportAttachments";
+import { useIncidentEvents } from "../hooks/useIncidentEvents";
+import { describeIncidentEvent, formatDuration } from "../utils/incidentTimeline";
+import { getAvailableTransitions, getIncidentRole, type StatusAction } from "../utils/incidentWorkflow";
+import { toRemoteGalleryPhotos } from "../utils/attachments";
+import { PhotoGallery } from "./PhotoGallery";
+import { UnitDispatchSection } from "./UnitDispatchSection";
+import { CASUALTY_COUNT_FIELDS, TRIAGE_CATEGORIES, TRIAGE_COLORS } from "../utils/casualties";
+
+const VEHICLE_LABELS: Record<string, string> = {
+  pedestrian: "On foot",
+  motorcycle: "Motorcycle",
+  car: "Car / van",
+  truck: "Truck / bus",
+  emergency: "Emergency vehicles",
+};
+
+const HAZARD_LABELS: Record<string, string> = {
+  live: "Live – keep clear",
+  isolated: "Power isolated",
+  cleared: "Cleared",
+};
+
+// Label/value rows for whichever assessment fields the responder filled in
+const describeAssessment = (assessment: DamageAssessment) => {
+  const rows: { label: string; value: string }[] = [];
+
+  if (assessment.waterDepthCm !== undefined)
+    rows.push({ label: "Water depth", value: `${assessment.waterDepthCm} cm` });
+  if (assessment.waterTrend)
+    rows.push({
+      label: "Water level",
+      value: assessment.waterTrend.charAt(0).toUpperCase() + assessment.waterTrend.slice(1),
+    });
+  if (assessment.roadPassable !== undefined)
+    rows.push({ label: "Road", value: assessment.roadPassable ? "Passable" : "Blocked" });
+  if (assessment.passableVehicles?.length)
+    rows.push({
+      label: "Passable for",
+      value: assessment.passableVehicles.map((v) => VEHICLE_LABELS[v] ?? v).join(", "),
+    });
+  if (assessment.buildingsAffected !== undefined)
+    rows.push({ label: "Buildings affected", value: String(assessment.buildingsAffected) });
+  if (assessment.hazardStatus)
+    rows.push({
+      label: "Hazard",
+      value: HAZARD_LABELS[assessment.hazardStatus] ?? assessment.hazardStatus,
+    });
+
+  return rows;
+};
+
+const CASUALTY_LABELS: Record<string, string> = {
+  trapped: "Trapped",
+  injured: "Injured",
+  dead: "Dead",
+  missing: "Missing",
+  evacuated: "Evacuated",
+};
+
+const TRIAGE_LABELS: Record<string, string> = {
+  immediate: "Immediate",
+  delayed: "Delayed",
+  minor: "Minor",
+  expectant: "Expectant",
+};
+
+const ACTION_STYLES: Record<StatusAction, { className: string; Icon: typeof Send }> = {
+  dispatch: { className: "bg-blue-600 text-white hover:bg-blue-700", Icon: Send },
+  acknowledge: { className: "bg-white text-blue-700 border border-blue-300 hover:bg-blue-50", Icon: Siren },
+  resolve: { className: "bg-green-600 text-white hover:bg-green-700", Icon: CheckCircle },
+  reopen: { className: "bg-white text-amber-800 border border-amber-300 hover:bg-amber-50", Icon: RotateCcw },
+};
+
+const formatCustomFieldValue = (value: CustomFieldValue) =>
+  typeof value === "boolean" ? (value ? "Yes" : "No") : String(value);
 
 interface IncidentDetailPanelProps {
   incident: Incident | null;
@@ -16,7 +95,23 @@ export function IncidentDetailPanel({
   onClose,
 }: IncidentDetailPanelProps) {
   const { isAdmin } = useAuth();
-  const { resolveIncident, updateIncidentStatus, markIncidentAsRead } = useIncidentData();
+  const { updateIncidentStatus, markIncidentAsRead, resolveConflict } = useIncidentData();
+  const { getDefinition } = useIncidentTypes();
+  const { fields: formFields } = useReportFormFields();
+  // Reports from this device show their photos straight from Dexie, even before upload
+  const localPhotos = useReportAttachments(incident?.localId);
+  const events = useIncidentEvents(incident?.id);
+  // Tied to the incident it was typed for, so it doesn't carry over to the next one
+  const [reasonDraft, setReasonDraft] = useState({ incidentId: "", text: "" });
+  const reason = reasonDraft.incidentId === incident?.id ? reasonDraft.text : "";
+
+  const transitions = incident ? getAvailableTransitions(incident.status, getIncidentRole(isAdmin)) : [];
+  const reasonRequired = transitions.some((transition) => transition.requiresReason);
+
+  const changeStatus = (id: string, status: Incident["status"]) => {
+    setReasonDraft({ incidentId: "", text: "" });
+    return updateIncidentStatus(id, status, reason);
+  };
 
   // Auto-Read on Open
   useEffect(() => {
@@ -39,6 +134,19 @@ export function IncidentDetailPanel({
 
   // keep render stable for animation even if incident is null
   const severityInfo = incident ? getSeverityLabel(incident.severity) : null;
+  const conflict = incident?.conflict;
+  const assessmentRows = incident?.assessment ? describeAssessment(incident.assessment) : [];
+  const casualtyRows = CASUALTY_COUNT_FIELDS.filter(
+    (field) => incident?.casualties?.[field] !== undefined,
+  ).map((field) => ({ label: CASUALTY_LABELS[field], value: incident?.casualties?.[field] }));
+  const triageTags = TRIAGE_CATEGORIES.filter(
+    (category) => incident?.casualties?.triage?.[category] !== undefined,
+  );
+  // Answers stay readable even if the field was later removed from the form
+  const customFieldRows = Object.entries(incident?.customFields ?? {}).map(([id, value]) => ({
+    label: formFields.find((field) => field.id === id)?.label ?? id,
+    value: formatCustomFieldValue(value),
+  }));
 
   return (
     <>
@@ -99,7 +207,7 @@ export function IncidentDetailPanel({
                     )}
                   </div>
 
-                  <h3 className="text-2xl text-black mb-1">{incident.type}</h3>
+                  <h3 className="text-2xl text-black mb-1">{getDefinition(incident.type).label}</h3>
 
                   <div
                     className={`inline-block px-2 py-1 rounded text-sm ${incident.status === "Active"
@@ -111,30 +219,143 @@ export function IncidentDetailPanel({
                   >
                     {incident.status}
                   </div>
+                  {incident.isTraining && (
+                    <div className="inline-block ml-2 px-2 py-1 rounded text-sm font-semibold bg-purple-100 text-purple-800">
+                      Training exercise
+                    </div>
+                  )}
                 </div>
 
-                {/* Image */}
-                {incident.imageUrl && (
-                  <div className="rounded-lg overflow-hidden shadow-md">
-                    <img
-                      src={incident.imageUrl}
-                      alt={`${incident.type} incident`}
-                      className="w-full h-48 object-cover"
-                    />
+                {/* Conflicting edit */}
+                {conflict && (
+                  <div className="bg-amber-50 rounded-lg p-3 border border-amber-300 space-y-2">
+                    <h4 className="text-amber-900 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      Changed by someone else
+                    </h4>
+                    <p className="text-sm text-amber-900 m-0">
+                      {conflict.updatedBy ?? "Another dispatcher"} changed this incident
+                      {conflict.updatedAt &&
+                        ` at ${new Date(conflict.updatedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`}
+                      {conflict.server.status && ` — status is now ${conflict.server.status}`}.
+                    </p>
+                    <p className="text-sm text-amber-900 m-0">
+                      Your change ({describeChanges(conflict.attempted)}) was not applied.
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        className="flex-1 bg-amber-600 text-white py-1.5 px-3 rounded-lg text-sm hover:bg-amber-700 transition-colors"
+                        type="button"
+                        onClick={() => resolveConflict(conflict.seq, 'reapply')}
+                      >
+                        Re-apply mine
+                      </button>
+                      <button
+                        className="flex-1 bg-white text-amber-900 py-1.5 px-3 rounded-lg text-sm border border-amber-300 hover:bg-amber-100 transition-colors"
+                        type="button"
+                        onClick={() => resolveConflict(conflict.seq, 'discard')}
+                      >
+                        Discard mine
+                      </button>
+                    </div>
                   </div>
                 )}
 
+                {/* Photos */}
+                <PhotoGallery
+                  photos={
+                    localPhotos.length > 0
+                      ? localPhotos
+                      : toRemoteGalleryPhotos(
+                          incident.imageUrls ?? (incident.imageUrl ? [incident.imageUrl] : []),
+                        )
+                  }
+                  alt={`${getDefinition(incident.type).label} incident`}
+                />
+
                 {/* Description */}
                 <div>
                   <h4 className="text-black mb-2 flex items-center gap-2">
                     <AlertTriangle className="w-4 h-4" />
                     Description
                   </h4>
-                  <p className="text-gray-700 leading-relaxed">
+                  <p className="text-gray-700 leading-relaxed whitespace-pre-line">
                     {incident.description}
                   </p>
                 </div>
 
+                {/* People Affected */}
+                {(casualtyRows.length > 0 || triageTags.length > 0) && (
+                  <div className="bg-white rounded-lg p-3 border border-gray-200">
+                    <h4 className="text-black mb-2 flex items-center gap-2">
+                      <Users className="w-4 h-4" />
+                      People Affected
+                    </h4>
+                    {casualtyRows.length > 0 && (
+                      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm m-0">
+                        {casualtyRows.map((row) => (
+                          <div key={row.label} className="contents">
+                            <dt className="text-gray-500">{row.label}</dt>
+                            <dd className="text-gray-900 font-medium m-0">{row.value}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                    {triageTags.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {triageTags.map((category) => (
+                          <span
+                            key={category}
+                            className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-semibold border border-gray-200"
+                          >
+                            <span
+                              className="w-2.5 h-2.5 rounded-full"
+                              style={{ backgroundColor: TRIAGE_COLORS[category] }}
+                            />
+                            {TRIAGE_LABELS[category]}: {incident.casualties?.triage?.[category]}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Damage Assessment */}
+                {assessmentRows.length > 0 && (
+                  <div className="bg-white rounded-lg p-3 border border-gray-200">
+                    <h4 className="text-black mb-2 flex items-center gap-2">
+                      <ClipboardList className="w-4 h-4" />
+                      Damage Assessment
+                    </h4>
+                    <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm m-0">
+                      {assessmentRows.map((row) => (
+                        <div key={row.label} className="contents">
+                          <dt className="text-gray-500">{row.label}</dt>
+                          <dd className="text-gray-900 font-medium m-0">{row.value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )}
+
+                {/* Additional Details */}
+                {customFieldRows.length > 0 && (
+                  <div className="bg-white rounded-lg p-3 border border-gray-200">
+                    <h4 className="text-black mb-2 flex items-center gap-2">
+                      <ListChecks className="w-4 h-4" />
+                      Additional Details
+                    </h4>
+                    <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm m-0">
+                      {customFieldRows.map((row) => (
+                        <div key={row.label} className="contents">
+                          <dt className="text-gray-500">{row.label}</dt>
+                          <dd className="text-gray-900 font-medium m-0">{row.value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )}
+
                 {/* Location */}
                 <div className="bg-white rounded-lg p-3 border border-gray-200">
                   <h4 className="text-black mb-2 flex items-center gap-2">
@@ -166,45 +387,90 @@ export function IncidentDetailPanel({
                   </h4>
                   <p className="text-gray-700">{incident.reportedBy}</p>
                 </div>
+
+                {/* Response units; reports still on this device have no server row to assign to */}
+                {isAdmin && !incident.id.startsWith("FIELD-") && (
+                  <UnitDispatchSection incident={incident} reason={reason} />
+                )}
+
+                {/* Timeline */}
+                <div className="bg-white rounded-lg p-3 border border-gray-200">
+                  <h4 className="text-black mb-2 flex items-center gap-2">
+                    <History className="w-4 h-4" />
+                    Timeline
+                  </h4>
+                  {(incident.responseTimes?.toDispatchMs !== undefined ||
+                    incident.responseTimes?.toResolveMs !== undefined) && (
+                    <p className="text-sm text-gray-700 mb-2">
+                      {incident.responseTimes.toDispatchMs !== undefined &&
+                        `Dispatched after ${formatDuration(incident.responseTimes.toDispatchMs)}`}
+                      {incident.responseTimes.toDispatchMs !== undefined &&
+                        incident.responseTimes.toResolveMs !== undefined &&
+                        " · "}
+                      {incident.responseTimes.toResolveMs !== undefined &&
+                        `resolved after ${formatDuration(incident.responseTimes.toResolveMs)}`}
+                    </p>
+                  )}
+                  {events.length === 0 ? (
+                    <p className="text-sm text-gray-500">No recorded changes yet.</p>
+                  ) : (
+                    <ol className="space-y-2 m-0 p-0 list-none">
+                      {events.map((event) => (
+                        <li key={event.id} className="text-sm border-l-2 border-gray-300 pl-3">
+                          <div className="text-gray-900 font-medium">{describeIncidentEvent(event)}</div>
+                          {event.kind === "edit" && event.newValue !== undefined && (
+                            <div className="text-gray-700 break-words">
+                              {event.oldValue ?? "—"} → {event.newValue}
+                            </div>
+                          )}
+                          {event.reason && <div className="text-gray-700 italic">“{event.reason}”</div>}
+                          <div className="text-xs text-gray-500">
+                            {new Date(event.at).toLocaleString()}
+                            {` · ${event.actorName ?? (event.actorId ? "Unknown user" : "System")}`}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
               </>
             )}
           </div>
 
           {/* Actions */}
-          <div className="border-t border-gray-200 p-4 bg-white">
-            {incident && incident.status === 'Active' && (
-              <button
-                className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors mb-2"
-                type="button"
-                onClick={() => updateIncidentStatus(incident.id, 'Dispatched')}
-              >
-                Dispatch Response Team
-              </button>
-            )}
-
-            {/* Fallback/Generic Dispatch Button if not Active (e.g. Responding) */}
-            {incident && incident.status !== 'Active' && incident.status !== 'Resolved' && incident.status !== 'Dispatched' && (
-              <button
-                className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors mb-2"
-                type="button"
-                onClick={() => updateIncidentStatus(incident.id, 'Dispatched')}
-              >
-                Dispatch Response Team
-              </button>
-            )}
-
+          {incident && transitions.length > 0 && (
+            <div className="border-t border-gray-200 p-4 bg-white space-y-2">
+              <input
+                type="text"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/30"
+                placeholder={
+                  reasonRequired
+                    ? "Reason (needed to resolve or reopen, kept in the timeline)"
+                    : "Reason for the change (optional, kept in the timeline)"
+                }
+                value={reason}
+                onChange={(e) => setReasonDraft({ incidentId: incident.id, text: e.target.value })}
+              />
 
-            {isAdmin && incident && incident.status !== 'Resolved' && (
-              <button
-                className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2"
-                type="button"
-                onClick={() => resolveIncident(incident.id)}
-              >
-                <CheckCircle className="w-4 h-4" />
-                Mark as Resolved
-              </button>
-            )}
-          </div>
+              {transitions.map((transition) => {
+                const { className, Icon } = ACTION_STYLES[transition.action];
+                const needsReason = transition.requiresReason && !reason.trim();
+                return (
+                  <button
+                    key={transition.action}
+                    className={`w-full py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
+                    type="button"
+                    disabled={needsReason}
+                    title={needsReason ? "Enter a reason first" : undefined}
+                    onClick={() => changeStatus(incident.id, transition.to)}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {transition.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
       </div>
     </>
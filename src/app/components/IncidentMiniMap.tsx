@@ -4,6 +4,7 @@ import { divIcon } from "leaflet";
 import { Marker } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 import { useGeolocation } from "../hooks/useGeolocation";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
 import type { Incident } from "../../types/incident";
 
 // Fix for default Leaflet markers in React
@@ -43,6 +44,7 @@ interface IncidentMiniMapProps {
 
 export function IncidentMiniMap({ incident }: IncidentMiniMapProps) {
   const { latitude, longitude } = useGeolocation();
+  const { getLabel } = useIncidentTypes();
 
   // Custom marker for User (Blue Pulse)
   const userIcon = divIcon({
@@ -88,7 +90,7 @@ export function IncidentMiniMap({ incident }: IncidentMiniMapProps) {
 
         {/* Incident Location */}
         <Marker position={[incident.location.lat, incident.location.lng]} icon={incidentIcon}>
-            <Popup>{incident.type}</Popup>
+            <Popup>{getLabel(incident.type)}</Popup>
         </Marker>
 
         <MapBoundsFitter 
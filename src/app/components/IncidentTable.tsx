@@ -1,6 +1,9 @@
 import type { Incident } from "../../types/incident";
-import { AlertCircle, Info } from "lucide-react";
-import { useEffect, useState } from "react";
+import { AlertCircle, CloudUpload, Info } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { compareByHumanImpact, getCasualtyTotal } from "../utils/casualties";
+import { formatDuration } from "../utils/incidentTimeline";
 
 interface IncidentTableProps {
   incidents: Incident[];
@@ -13,6 +16,8 @@ export function IncidentTable({
   selectedIncident,
   onIncidentClick,
 }: IncidentTableProps) {
+  const { getDefinition } = useIncidentTypes();
+
   // ✅ Severity palette (maroon → black, beige → white)
   const getSeverityRowStyle = (severity: number) => {
     if (severity === 5) return "border-l-black bg-white";
@@ -37,15 +42,22 @@ export function IncidentTable({
   };
 
   const [page, setPage] = useState(1);
+  const [sortBy, setSortBy] = useState<"latest" | "impact">("latest");
   const ITEMS_PER_PAGE = 10;
 
   useEffect(() => {
     setPage(1);
-  }, [incidents.length]);
+  }, [incidents.length, sortBy]);
+
+  // "latest" keeps the provider's order (newest first)
+  const sortedIncidents = useMemo(
+    () => (sortBy === "impact" ? [...incidents].sort(compareByHumanImpact) : incidents),
+    [incidents, sortBy],
+  );
 
   const totalPages = Math.ceil(incidents.length / ITEMS_PER_PAGE);
   const startIndex = (page - 1) * ITEMS_PER_PAGE;
-  const paginatedIncidents = incidents.slice(
+  const paginatedIncidents = sortedIncidents.slice(
     startIndex,
     startIndex + ITEMS_PER_PAGE,
   );
@@ -68,6 +80,26 @@ export function IncidentTable({
         <span className="font-medium">
           Select an incident row to view details on the right panel.
         </span>
+
+        <div className="ml-auto inline-flex rounded-md border border-white/40 overflow-hidden">
+          {([
+            ["latest", "Latest"],
+            ["impact", "Human impact"],
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setSortBy(value)}
+              aria-pressed={sortBy === value}
+              className={[
+                "px-2.5 py-1 font-semibold transition-colors",
+                sortBy === value ? "bg-white text-black" : "text-white hover:bg-white/10",
+              ].join(" ")}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Table */}
@@ -84,7 +116,7 @@ export function IncidentTable({
         <table className="w-full border-separate border-spacing-0">
           <thead className="sticky top-0 z-10 bg-white border-b border-[#E5E5E5]">
             <tr>
-              {["ID", "Type", "Severity", "Time", "Status"].map((h) => (
+              {["ID", "Type", "Severity", "People", "Time", "Response", "Status"].map((h) => (
                 <th
                   key={h}
                   className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-black"
@@ -99,7 +131,7 @@ export function IncidentTable({
             {incidents.length === 0 ? (
               <tr>
                 <td
-                  colSpan={5}
+                  colSpan={7}
                   className="px-4 py-12 text-center text-sm text-gray-500"
                 >
                   No incidents match the current filters.
@@ -134,12 +166,23 @@ export function IncidentTable({
                         <div className="font-mono text-black truncate">
                           {incident.id}
                         </div>
+                        {incident.isTraining && (
+                          <span className="px-1.5 py-0.5 rounded text-[10px] font-bold tracking-wide bg-purple-100 text-purple-800 border border-purple-200">
+                            TRAINING
+                          </span>
+                        )}
                       </div>
                     </td>
 
                     {/* Type */}
                     <td className="px-4 py-3 text-sm text-black font-medium">
-                      {incident.type}
+                      <span className="inline-flex items-center gap-2">
+                        <span
+                          className="w-2 h-2 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: getDefinition(incident.type).color }}
+                        />
+                        {getDefinition(incident.type).label}
+                      </span>
                     </td>
 
                     {/* Severity */}
@@ -155,6 +198,11 @@ export function IncidentTable({
                       </span>
                     </td>
 
+                    {/* People */}
+                    <td className="px-4 py-3 text-sm text-black">
+                      {incident.casualties ? getCasualtyTotal(incident.casualties) : "—"}
+                    </td>
+
                     {/* Time */}
                     <td className="px-4 py-3 text-sm text-black">
                       {incident.timestamp.toLocaleTimeString([], {
@@ -163,6 +211,20 @@ export function IncidentTable({
                       })}
                     </td>
 
+                    {/* Response: time to dispatch, then time to resolve */}
+                    <td
+                      className="px-4 py-3 text-xs text-black whitespace-nowrap"
+                      title="Time from report to dispatch / to resolution"
+                    >
+                      {incident.responseTimes?.toDispatchMs !== undefined
+                        ? formatDuration(incident.responseTimes.toDispatchMs)
+                        : "—"}
+                      {" / "}
+                      {incident.responseTimes?.toResolveMs !== undefined
+                        ? formatDuration(incident.responseTimes.toResolveMs)
+                        : "—"}
+                    </td>
+
                     {/* Status */}
                     <td className="px-4 py-3">
                       <span
@@ -174,6 +236,15 @@ export function IncidentTable({
                       >
                         {incident.status}
                       </span>
+                      {incident.hasPendingChanges && (
+                        <span
+                          title="Change not yet confirmed by the server"
+                          className="ml-2 inline-flex items-center gap-1 text-xs text-[#A16207]"
+                        >
+                          <CloudUpload className="w-3.5 h-3.5" />
+                          Pending
+                        </span>
+                      )}
                     </td>
                   </tr>
                 );
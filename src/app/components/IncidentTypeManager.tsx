@@ -0,0 +1,395 @@
+import { useCallback, useEffect, useState } from "react";
+import { Pencil, Plus, RefreshCw, X } from "lucide-react";
+import type { IncidentTypeDefinition } from "../../types/incident";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { refreshIncidentTypes, saveIncidentType } from "../services/incidentTypeService";
+import { INCIDENT_TYPE_ICONS, getIncidentTypeIcon } from "../utils/incidentTypes";
+import { slugify, toRegistryId } from "../utils/registryId";
+
+// Languages the field app ships keyword packs for (see i18n/messages.ts)
+const LANGUAGE_FIELDS = [
+  { code: "si", name: "Sinhala" },
+  { code: "ta", name: "Tamil" },
+] as const;
+
+interface TypeDraft {
+  isNew: boolean;
+  id: string;
+  label: string;
+  labels: Record<string, string>;
+  icon: string;
+  color: string;
+  // Comma or newline separated, split on save
+  keywords: Record<string, string>;
+  enabled: boolean;
+  sortOrder: number;
+}
+
+const toDraft = (type: IncidentTypeDefinition): TypeDraft => ({
+  isNew: false,
+  id: type.id,
+  label: type.label,
+  labels: { ...type.labels },
+  icon: type.icon,
+  color: type.color,
+  keywords: Object.fromEntries(
+    Object.entries(type.keywords).map(([code, words]) => [code, words.join(", ")]),
+  ),
+  enabled: type.enabled,
+  sortOrder: type.sortOrder,
+});
+
+// Labels that differ only in case or spacing name the same type
+const normaliseLabel = (label: string) => label.trim().toLowerCase().replace(/\s+/g, " ");
+
+const splitKeywords = (text: string) =>
+  text
+    .split(/[,\n]/)
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean);
+
+export function IncidentTypeManager() {
+  const { types, getDefinition } = useIncidentTypes();
+  const [draft, setDraft] = useState<TypeDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTypes = useCallback(() => {
+    return refreshIncidentTypes()
+      .catch((err) => {
+        console.error("Error refreshing incident types:", err);
+        setError(err instanceof Error ? err.message : "Failed to load incident types");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadTypes();
+  }, [loadTypes]);
+
+  const refresh = () => {
+    setIsLoading(true);
+    setError(null);
+    loadTypes();
+  };
+
+  const startNew = () => {
+    setDraft({
+      isNew: true,
+      id: "",
+      label: "",
+      labels: {},
+      icon: "AlertTriangle",
+      color: "#6b7280",
+      keywords: {},
+      enabled: true,
+      sortOrder: types.length,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const label = draft.label.trim();
+    // A permanent ID slugged from the label, like report form fields; renaming keeps it
+    const id = draft.isNew ? toRegistryId(label, "type") : draft.id;
+
+    if (!label) {
+      setError("A label is required");
+      return;
+    }
+    // Built-in IDs are labels ("Road Block"), so compare them as slugs too
+    const clash = types.find(
+      (type) =>
+        type.id !== draft.id &&
+        (type.id === id ||
+          slugify(type.id) === id ||
+          normaliseLabel(type.label) === normaliseLabel(label)),
+    );
+    if (clash) {
+      setError(`An incident type called "${clash.label}" already exists`);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await saveIncidentType({
+        id,
+        label,
+        labels: Object.fromEntries(
+          Object.entries(draft.labels)
+            .map(([code, text]) => [code, text.trim()])
+            .filter(([, text]) => text),
+        ),
+        icon: draft.icon,
+        color: draft.color,
+        keywords: {
+          // The label itself is always a keyword so new types work with voice right away
+          en: [...new Set([label.toLowerCase(), ...splitKeywords(draft.keywords.en ?? "")])],
+          ...Object.fromEntries(
+            LANGUAGE_FIELDS.map(({ code }) => [code, splitKeywords(draft.keywords[code] ?? "")]),
+          ),
+        },
+        enabled: draft.enabled,
+        sortOrder: draft.sortOrder,
+      });
+      setDraft(null);
+    } catch (err) {
+      console.error("Error saving incident type:", err);
+      setError(err instanceof Error ? err.message : "Failed to save incident type");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (type: IncidentTypeDefinition) => {
+    try {
+      await saveIncidentType({ ...type, enabled: !type.enabled });
+    } catch (err) {
+      console.error("Error updating incident type:", err);
+      alert("Failed to update incident type");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-black/30";
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-300 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-300 bg-black flex justify-between items-center">
+        <div>
+          <h3 className="text-white font-semibold text-sm">Incident Types</h3>
+          <p className="text-xs text-white mt-1">
+            Types, icons and voice keywords used by field devices. Changes reach devices next time they come online.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={startNew}
+            disabled={!!draft}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-white text-black hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add type
+          </button>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="p-2 text-white hover:bg-gray-800 rounded-md disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 text-red-500 text-sm bg-red-50">
+          {error}
+        </div>
+      )}
+
+      {/* Editor */}
+      {draft && (
+        <div className="p-4 border-b border-gray-300 bg-gray-50 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-black font-semibold text-sm m-0">
+              {draft.isNew ? "New incident type" : `Edit ${getDefinition(draft.id).label}`}
+            </h4>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="p-1 text-gray-500 hover:text-black"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Label (English)</span>
+              <input
+                className={inputClass}
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                placeholder="e.g. Building Collapse"
+              />
+            </label>
+
+            {LANGUAGE_FIELDS.map(({ code, name }) => (
+              <label key={code} className="space-y-1 text-xs font-semibold text-gray-700">
+                <span>Label ({name})</span>
+                <input
+                  className={inputClass}
+                  value={draft.labels[code] ?? ""}
+                  onChange={(e) =>
+                    setDraft({ ...draft, labels: { ...draft.labels, [code]: e.target.value } })
+                  }
+                />
+              </label>
+            ))}
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Icon</span>
+              <select
+                className={inputClass}
+                value={draft.icon}
+                onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+              >
+                {Object.keys(INCIDENT_TYPE_ICONS).map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Colour</span>
+              <input
+                type="color"
+                className="w-full h-[38px] border border-gray-300 rounded-md"
+                value={draft.color}
+                onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+              />
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Sort order</span>
+              <input
+                type="number"
+                className={inputClass}
+                value={draft.sortOrder}
+                onChange={(e) => setDraft({ ...draft, sortOrder: Number(e.target.value) || 0 })}
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[{ code: "en", name: "English" }, ...LANGUAGE_FIELDS].map(({ code, name }) => (
+              <label key={code} className="space-y-1 text-xs font-semibold text-gray-700">
+                <span>Voice keywords ({name})</span>
+                <textarea
+                  rows={3}
+                  className={inputClass}
+                  value={draft.keywords[code] ?? ""}
+                  onChange={(e) =>
+                    setDraft({ ...draft, keywords: { ...draft.keywords, [code]: e.target.value } })
+                  }
+                  placeholder="Comma separated"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-300 accent-black"
+              />
+              Available for new reports
+            </label>
+
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-semibold rounded-md bg-black text-white hover:bg-gray-900 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Registry */}
+      <div className="overflow-x-auto">
+        <table className="min-w-[700px] w-full border-separate border-spacing-0">
+          <thead className="bg-white border-b border-gray-300">
+            <tr>
+              {["Type", "Translations", "Voice keywords", "Status", "Action"].map((h) => (
+                <th
+                  key={h}
+                  className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-black whitespace-nowrap"
+                >
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+
+          <tbody>
+            {types.map((type) => {
+              const Icon = getIncidentTypeIcon(type);
+              const keywordCount = Object.values(type.keywords).reduce(
+                (sum, words) => sum + words.length,
+                0,
+              );
+
+              return (
+                <tr
+                  key={type.id}
+                  className="border-t border-gray-300 hover:bg-gray-100 transition-colors"
+                >
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="flex items-center gap-3">
+                      <span
+                        className="w-8 h-8 rounded-lg flex items-center justify-center text-white"
+                        style={{ backgroundColor: type.color }}
+                      >
+                        <Icon className="w-4 h-4" />
+                      </span>
+                      <span className="font-medium text-black">{type.label}</span>
+                    </div>
+                  </td>
+
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {LANGUAGE_FIELDS.map(({ code }) => type.labels[code])
+                      .filter(Boolean)
+                      .join(" / ") || "—"}
+                  </td>
+
+                  <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                    {keywordCount}
+                  </td>
+
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => handleToggleEnabled(type)}
+                      className={[
+                        "px-3 py-1 text-xs font-semibold rounded-full border",
+                        type.enabled
+                          ? "bg-green-100 text-green-800 border-green-200"
+                          : "bg-gray-100 text-gray-600 border-gray-200",
+                      ].join(" ")}
+                    >
+                      {type.enabled ? "Enabled" : "Disabled"}
+                    </button>
+                  </td>
+
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => setDraft(toDraft(type))}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md border border-gray-300 hover:bg-gray-100"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Languages } from "lucide-react";
+import { LANGUAGES } from "../i18n/messages";
+import { useLanguage } from "../hooks/useLanguage";
+
+export function LanguageSwitcher() {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <div
+      role="group"
+      aria-label={t("common.language")}
+      className="inline-flex items-center gap-1 rounded-full border border-black/10 bg-white p-1"
+    >
+      <Languages className="w-4 h-4 mx-1 text-black/60" />
+      {LANGUAGES.map((option) => (
+        <button
+          key={option.code}
+          type="button"
+          lang={option.locale}
+          onClick={() => setLanguage(option.code)}
+          aria-pressed={language === option.code}
+          className={[
+            "px-3 py-1 rounded-full text-xs font-semibold transition-colors",
+            language === option.code
+              ? "bg-black text-white"
+              : "text-black hover:bg-black/5",
+          ].join(" ")}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Card } from "./ui/card";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { useLanguage } from "../hooks/useLanguage";
 import type { SignupData } from "../services/authService";
 
 interface LoginScreenProps {
@@ -12,6 +14,7 @@ interface LoginScreenProps {
 }
 
 export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
+  const { t } = useLanguage();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
@@ -58,7 +61,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
         // Keep email so user can easily login
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "An error occurred");
+      setError(err instanceof Error ? err.message : t("login.genericError"));
     } finally {
       setIsLoading(false);
     }
@@ -68,21 +71,25 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
     <div className="min-h-screen w-full bg-white p-4 flex items-center justify-center">
       {/* ✅ Keep the "mobile card" feel even on desktop */}
       <Card className="w-full max-w-sm sm:max-w-md p-8 shadow-sm">
+        <div className="flex justify-center">
+          <LanguageSwitcher />
+        </div>
+
         {/* Header */}
         <div className="flex flex-col items-center mb-3">
           <div className="w-16 h-16 bg-primary rounded-full flex items-center justify-center mb-2">
             <Shield className="w-8 h-8 text-primary-foreground" />
           </div>
 
-          <h1 className="text-center mb-1">Nodus</h1>
+          <h1 className="text-center mb-1">{t("app.name")}</h1>
           <p className="text-muted-foreground text-center m-0 font-semibold">
-            Emergency Response System
+            {t("app.tagline")}
           </p>
         </div>
 
         {/* Login title */}
         <p className="text-center text-primary font-semibold text-lg mb-0">
-          {isLogin ? "Login" : "Create Account"}
+          {isLogin ? t("login.title") : t("login.createAccount")}
         </p>
 
         {/* Form */}
@@ -90,14 +97,14 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
           {/* Success message after signup */}
           {signupSuccess && (
             <div className="p-4 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
-              <p className="font-semibold m-0 text-base">Account created successfully!</p>
-              <p className="m-0 mt-2">Your account is now pending approval by an administrator. You will be able to login once approved.</p>
+              <p className="font-semibold m-0 text-base">{t("login.signupSuccessTitle")}</p>
+              <p className="m-0 mt-2">{t("login.signupSuccessBody")}</p>
               <button
                 type="button"
                 onClick={() => { setSignupSuccess(false); setIsLogin(true); }}
                 className="mt-3 text-primary hover:underline font-medium"
               >
-                Back to Login
+                {t("login.backToLogin")}
               </button>
             </div>
           )}
@@ -113,7 +120,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
             <>
               {/* 1. Full Name */}
               <div className="space-y-2">
-                <Label htmlFor="fullName">Full Name</Label>
+                <Label htmlFor="fullName">{t("login.fullName")}</Label>
                 <Input
                   id="fullName"
                   type="text"
@@ -135,7 +142,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
 
           {/* 2. Email */}
           <div className="space-y-2">
-            <Label htmlFor="email">Email</Label>
+            <Label htmlFor="email">{t("login.email")}</Label>
             <Input
               id="email"
               type="email"
@@ -155,7 +162,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
 
           {/* ✅ Password should be after email */}
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t("login.password")}</Label>
 
             <div className="relative">
               <Input
@@ -183,7 +190,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
                   text-primary
                   hover:opacity-80
                 "
-                aria-label={showPassword ? "Hide password" : "Show password"}
+                aria-label={showPassword ? t("login.hidePassword") : t("login.showPassword")}
               >
                 {showPassword ? (
                   <EyeOff className="w-4 h-4" />
@@ -199,7 +206,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
             <>
               {/* 3. Phone */}
               <div className="space-y-2">
-                <Label htmlFor="phone">Phone</Label>
+                <Label htmlFor="phone">{t("login.phone")}</Label>
                 <Input
                   id="phone"
                   type="tel"
@@ -219,7 +226,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
 
               {/* 5. Designation */}
               <div className="space-y-2">
-                <Label htmlFor="designation">Designation</Label>
+                <Label htmlFor="designation">{t("login.designation")}</Label>
                 <Input
                   id="designation"
                   type="text"
@@ -239,7 +246,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
 
               {/* 6. Region */}
               <div className="space-y-2">
-                <Label htmlFor="region">Region</Label>
+                <Label htmlFor="region">{t("login.region")}</Label>
                 <Input
                   id="region"
                   type="text"
@@ -261,7 +268,7 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
 
           {/* Submit */}
           <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Loading..." : isLogin ? "Login" : "Sign Up"}
+            {isLoading ? t("login.loading") : isLogin ? t("login.submit") : t("login.signUp")}
           </Button>
 
           <div className="text-center space-y-2">
@@ -271,12 +278,12 @@ export function LoginScreen({ onLogin, onSignup }: LoginScreenProps) {
               className="text-sm text-primary hover:underline"
             >
               {isLogin
-                ? "Need an account? Sign up"
-                : "Already have an account? Login"}
+                ? t("login.needAccount")
+                : t("login.haveAccount")}
             </button>
 
             <p className="text-sm text-muted-foreground m-0">
-              Once logged in, you can continue using the app offline
+              {t("login.offlineHint")}
             </p>
           </div>
         </form>
@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import type { Incident } from "../../types/incident";
 import { HeatmapLayer } from "./HeatmapLayer";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
 import "leaflet/dist/leaflet.css";
 
 interface MapViewProps {
@@ -29,22 +30,26 @@ interface MapViewProps {
 // Helper component to handle flying to selected incident
 function MapUpdater({ selectedIncident }: { selectedIncident: Incident | null }) {
   const map = useMap();
+  // Only fly when the position changes, not every time the selected incident is updated
+  const lat = selectedIncident?.location?.lat;
+  const lng = selectedIncident?.location?.lng;
 
   useEffect(() => {
-    if (selectedIncident && selectedIncident.location) {
+    if (lat !== undefined && lng !== undefined) {
       map.flyTo(
-        [selectedIncident.location.lat, selectedIncident.location.lng],
+        [lat, lng],
         13,
         { animate: true, duration: 1.5 },
       );
     }
-  }, [selectedIncident, map]);
+  }, [lat, lng, map]);
 
   return null;
 }
 
 export function MapView({ incidents, selectedIncident, onIncidentClick }: MapViewProps) {
   const API_KEY = import.meta.env.VITE_OPENWEATHER_API_KEY;
+  const { getDefinition } = useIncidentTypes();
 
   // Custom Layer State
   const [activeBaseMap, setActiveBaseMap] = useState<'osm' | 'light'>('osm');
@@ -196,8 +201,8 @@ export function MapView({ incidents, selectedIncident, onIncidentClick }: MapVie
             >
               <Popup>
                 <div className="text-sm">
-                  <strong className="block mb-1 text-base">{incident.type}</strong>
-                  <span className="text-gray-600">{incident.description}</span>
+                  <strong className="block mb-1 text-base">{getDefinition(incident.type).label}</strong>
+                  <span className="text-gray-600 whitespace-pre-line line-clamp-4">{incident.description}</span>
                   <div className="mt-2 text-xs text-gray-400">
                     Severity Level: {incident.severity}
                   </div>
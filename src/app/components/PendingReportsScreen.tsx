@@ -4,6 +4,12 @@ import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { ConnectivityBanner } from './ConnectivityBanner';
 import type { IncidentReport } from '../../db/db';
+import { useLanguage } from '../hooks/useLanguage';
+import { useIncidentTypes } from '../hooks/useIncidentTypes';
+import { useReportAttachments } from '../hooks/useReportAttachments';
+import { PhotoGallery } from './PhotoGallery';
+import { MAX_SYNC_ATTEMPTS } from '../utils/syncBackoff';
+import type { SyncState } from '../services/syncCoordinator';
 
 interface PendingReportsScreenProps {
   isOnline: boolean;
@@ -11,31 +17,34 @@ interface PendingReportsScreenProps {
   onBack: () => void;
   onSync: () => void;
   onRetry: (id: string) => void;
+  /** Shared across tabs, so a sync started elsewhere shows here too */
+  isSyncing: boolean;
+  syncProgress: SyncState['progress'];
 }
 
 const STATUS_CONFIG = {
   local: {
-    label: 'Saved Locally',
+    labelKey: 'reports.status.local',
     color: 'bg-gray-500',
     icon: Clock,
   },
   pending: {
-    label: 'Pending',
+    labelKey: 'reports.status.pending',
     color: 'bg-yellow-500',
     icon: Clock,
   },
   syncing: {
-    label: 'Syncing',
+    labelKey: 'reports.status.syncing',
     color: 'bg-blue-500',
     icon: Loader2,
   },
   synced: {
-    label: 'Synced',
+    labelKey: 'reports.status.synced',
     color: 'bg-green-500',
     icon: CheckCircle,
   },
   failed: {
-    label: 'Failed',
+    labelKey: 'reports.status.failed',
     color: 'bg-red-500',
     icon: AlertCircle,
   },
@@ -49,13 +58,23 @@ const SEVERITY_COLORS = {
   5: 'bg-red-100 text-red-800 border-red-300',
 } as const;
 
+function ReportPhotos({ reportId, alt }: { reportId: string; alt: string }) {
+  const photos = useReportAttachments(reportId);
+  return <PhotoGallery photos={photos} alt={alt} className="h-32" />;
+}
+
 export function PendingReportsScreen({ 
   isOnline, 
   reports, 
   onBack, 
   onSync,
-  onRetry 
+  onRetry,
+  isSyncing,
+  syncProgress,
 }: PendingReportsScreenProps) {
+  const { t, formatDateTime, formatNumber } = useLanguage();
+  const { getLabel } = useIncidentTypes();
+
   return (
     <div className="min-h-screen flex flex-col bg-white w-full">
       <ConnectivityBanner isOnline={isOnline} />
@@ -70,27 +89,36 @@ export function PendingReportsScreen({
           >
             <ArrowLeft className="w-5 h-5" />
           </Button>
-          <h2 className="m-0 flex-1">Pending Reports</h2>
+          <h2 className="m-0 flex-1">{t('reports.title')}</h2>
           <Button
             variant="outline"
             size="icon"
             onClick={onSync}
-            disabled={!isOnline}
-            title={isOnline ? 'Sync now' : 'Offline - sync unavailable'}
+            disabled={!isOnline || isSyncing}
+            title={isOnline ? t('reports.syncNow') : t('reports.syncUnavailable')}
           >
-            <RefreshCw className="w-4 h-4" />
+            <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
           </Button>
         </div>
 
+        {syncProgress && (
+          <p className="text-sm text-muted-foreground m-0">
+            {t('reports.syncProgress', {
+              completed: formatNumber(syncProgress.completed),
+              total: formatNumber(syncProgress.total),
+            })}
+          </p>
+        )}
+
         {reports.length === 0 ? (
           <Card className="p-8 text-center">
             <div className="flex flex-col items-center gap-3">
               <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center">
                 <Clock className="w-8 h-8 text-muted-foreground" />
               </div>
-              <h3 className="mb-1">No Reports Yet</h3>
+              <h3 className="mb-1">{t('reports.emptyTitle')}</h3>
               <p className="text-muted-foreground m-0">
-                Create your first incident report to get started
+                {t('reports.emptyBody')}
               </p>
             </div>
           </Card>
@@ -99,21 +127,23 @@ export function PendingReportsScreen({
             {reports.map((report) => {
               const statusConfig = STATUS_CONFIG[report.status];
               const StatusIcon = statusConfig.icon;
+              // Reports waiting out a backoff can be retried straight away too
+              const canRetry = report.status === 'failed' || (report.status === 'pending' && !!report.lastError);
               
               return (
                 <Card key={report.id} className="p-4">
                   <div className="space-y-3">
                     <div className="flex items-start justify-between gap-3">
                       <div className="flex-1">
-                        <h4 className="mb-1">{report.type}</h4>
+                        <h4 className="mb-1">{getLabel(report.type)}</h4>
                         <p className="text-sm text-muted-foreground m-0">
-                          {new Date(report.timestamp).toLocaleString()}
+                          {formatDateTime(report.timestamp)}
                         </p>
                       </div>
                       <Badge 
                         className={`${SEVERITY_COLORS[report.severity]} border`}
                       >
-                        Severity {report.severity}
+                        {t('severity.badge', { level: formatNumber(report.severity) })}
                       </Badge>
                     </div>
 
@@ -125,33 +155,53 @@ export function PendingReportsScreen({
                             report.status === 'syncing' ? 'animate-spin' : ''
                           }`}
                         />
-                        <span className="text-sm">{statusConfig.label}</span>
+                        <span className="text-sm">{t(statusConfig.labelKey)}</span>
                       </div>
 
-                      {report.status === 'failed' && (
+                      {canRetry && (
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={() => onRetry(report.id)}
                         >
-                          Retry
+                          {t('reports.retry')}
                         </Button>
                       )}
                     </div>
 
+                    {report.lastError && report.status !== 'synced' && (
+                      <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm space-y-1">
+                        <p className="m-0 text-red-800 break-words">
+                          {t('reports.lastError', { error: report.lastError })}
+                        </p>
+                        <p className="m-0 text-xs text-red-700">
+                          {report.status === 'failed'
+                            ? t('reports.gaveUp', { count: formatNumber(report.attempts ?? 0) })
+                            : t('reports.attempts', {
+                                count: formatNumber(report.attempts ?? 0),
+                                max: formatNumber(MAX_SYNC_ATTEMPTS),
+                              })}
+                          {report.status === 'pending' && report.nextRetryAt &&
+                            ` ${t('reports.nextRetry', { time: formatDateTime(report.nextRetryAt) })}`}
+                        </p>
+                      </div>
+                    )}
+
                     <div className="text-sm space-y-1">
                       <p className="text-muted-foreground m-0">
-                        Location: {report.location.latitude.toFixed(4)}, {report.location.longitude.toFixed(4)}
+                        {t('reports.location', {
+                          lat: formatNumber(report.location.latitude, { minimumFractionDigits: 4, maximumFractionDigits: 4 }),
+                          lng: formatNumber(report.location.longitude, { minimumFractionDigits: 4, maximumFractionDigits: 4 }),
+                        })}
                       </p>
+                      {report.description && (
+                        <p className="m-0 whitespace-pre-line line-clamp-3">
+                          {report.description}
+                        </p>
+                      )}
                     </div>
 
-                    {report.photo && (
-                      <img
-                        src={report.photo}
-                        alt="Incident"
-                        className="w-full h-32 object-cover rounded-lg border border-border"
-                      />
-                    )}
+                    <ReportPhotos reportId={report.id} alt={t('reports.photoAlt')} />
                   </div>
                 </Card>
               );
@@ -0,0 +1,325 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, EyeOff, Loader2, MoveUpRight, Pencil, Trash2, Type, Undo2, X } from "lucide-react";
+
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useLanguage } from "../hooks/useLanguage";
+import type { DraftAttachment } from "../utils/attachments";
+import {
+  ANNOTATION_COLORS,
+  createPixelatedCopy,
+  renderAnnotations,
+  strokeWidthFor,
+  type AnnotationShape,
+  type AnnotationTool,
+  type Point,
+} from "../utils/annotation";
+
+interface PhotoAnnotatorProps {
+  photo: DraftAttachment;
+  /** `rendered` is null when every mark was removed */
+  onSave: (rendered: Blob | null, shapes: AnnotationShape[]) => void;
+  onCancel: () => void;
+}
+
+interface LoadedImage {
+  image: HTMLImageElement;
+  pixelated: HTMLCanvasElement;
+  width: number;
+  height: number;
+}
+
+const TOOLS: { tool: AnnotationTool; icon: typeof Pencil }[] = [
+  { tool: "draw", icon: Pencil },
+  { tool: "arrow", icon: MoveUpRight },
+  { tool: "text", icon: Type },
+  { tool: "blur", icon: EyeOff },
+];
+
+// Blur brush is wide enough to cover a face in one or two passes
+const BLUR_RADIUS_FACTOR = 6;
+const TEXT_SIZE_FACTOR = 8;
+
+export function PhotoAnnotator({ photo, onSave, onCancel }: PhotoAnnotatorProps) {
+  const { t } = useLanguage();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [loaded, setLoaded] = useState<LoadedImage | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>("draw");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  // Editing always starts from the untouched original, so earlier marks stay editable
+  const [shapes, setShapes] = useState<AnnotationShape[]>(photo.annotation?.shapes ?? []);
+  const [activeShape, setActiveShape] = useState<AnnotationShape | null>(null);
+  const [textAt, setTextAt] = useState<Point | null>(null);
+  const [textValue, setTextValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(photo.blob);
+    const image = new Image();
+    let cancelled = false;
+
+    image.onload = () => {
+      if (cancelled) return;
+      const width = image.naturalWidth;
+      const height = image.naturalHeight;
+      setLoaded({ image, pixelated: createPixelatedCopy(image, width, height), width, height });
+    };
+    image.onerror = () => console.error("[PhotoAnnotator] Could not load photo");
+    image.src = url;
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [photo.blob]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!loaded || !ctx) return;
+    renderAnnotations(ctx, loaded.image, loaded.pixelated, activeShape ? [...shapes, activeShape] : shapes);
+  }, [loaded, shapes, activeShape]);
+
+  const strokeWidth = loaded ? strokeWidthFor(loaded.width) : 3;
+
+  // Pointer position in image pixels; the canvas is scaled down to fit the screen
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!loaded || isSaving) return;
+    const point = toImagePoint(e);
+
+    if (tool === "text") {
+      setTextAt(point);
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (tool === "draw") setActiveShape({ tool, color, width: strokeWidth, points: [point] });
+    else if (tool === "arrow") setActiveShape({ tool, color, width: strokeWidth, from: point, to: point });
+    else setActiveShape({ tool, radius: strokeWidth * BLUR_RADIUS_FACTOR, points: [point] });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!activeShape) return;
+    const point = toImagePoint(e);
+
+    switch (activeShape.tool) {
+      case "draw":
+        setActiveShape({ ...activeShape, points: [...activeShape.points, point] });
+        break;
+      case "arrow":
+        setActiveShape({ ...activeShape, to: point });
+        break;
+      case "blur": {
+        // Fill the gaps a fast swipe leaves between pointer events
+        const last = activeShape.points[activeShape.points.length - 1];
+        const distance = Math.hypot(point.x - last.x, point.y - last.y);
+        const steps = Math.ceil(distance / (activeShape.radius / 2));
+        const filled: Point[] = [];
+        for (let i = 1; i <= steps; i++) {
+          filled.push({ x: last.x + ((point.x - last.x) * i) / steps, y: last.y + ((point.y - last.y) * i) / steps });
+        }
+        setActiveShape({ ...activeShape, points: [...activeShape.points, ...filled] });
+        break;
+      }
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!activeShape) return;
+    setShapes((prev) => [...prev, activeShape]);
+    setActiveShape(null);
+  };
+
+  const addText = () => {
+    const text = textValue.trim();
+    if (textAt && text) {
+      setShapes((prev) => [
+        ...prev,
+        { tool: "text", color, size: strokeWidth * TEXT_SIZE_FACTOR, at: textAt, text },
+      ]);
+    }
+    setTextAt(null);
+    setTextValue("");
+  };
+
+  const selectTool = (next: AnnotationTool) => {
+    setTool(next);
+    setTextAt(null);
+    setTextValue("");
+  };
+
+  const handleSave = () => {
+    if (!loaded) return;
+    if (shapes.length === 0) {
+      onSave(null, []);
+      return;
+    }
+
+    setIsSaving(true);
+    // Render from scratch so a half-finished stroke can't end up in the copy
+    const canvas = document.createElement("canvas");
+    canvas.width = loaded.width;
+    canvas.height = loaded.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      setIsSaving(false);
+      return;
+    }
+    renderAnnotations(ctx, loaded.image, loaded.pixelated, shapes);
+    // High quality here; the report's own compression runs afterwards
+    canvas.toBlob(
+      (blob) => {
+        setIsSaving(false);
+        if (blob) onSave(blob, shapes);
+        else console.error("[PhotoAnnotator] Could not export annotated photo");
+      },
+      "image/jpeg",
+      0.92,
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-black flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={onCancel}
+          aria-label={t("annotate.cancel")}
+          className="text-white hover:bg-white/10"
+        >
+          <X className="w-6 h-6" />
+        </Button>
+
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setShapes((prev) => prev.slice(0, -1))}
+            disabled={shapes.length === 0}
+            aria-label={t("annotate.undo")}
+            className="text-white hover:bg-white/10"
+          >
+            <Undo2 className="w-5 h-5" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setShapes([])}
+            disabled={shapes.length === 0}
+            aria-label={t("annotate.clear")}
+            className="text-white hover:bg-white/10"
+          >
+            <Trash2 className="w-5 h-5" />
+          </Button>
+        </div>
+
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={!loaded || isSaving}
+          className="bg-white text-black hover:bg-white/90 gap-2"
+        >
+          {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+          {t("annotate.save")}
+        </Button>
+      </div>
+
+      {/* Photo */}
+      <div className="relative flex-1 min-h-0 flex items-center justify-center px-2">
+        {loaded ? (
+          <canvas
+            ref={canvasRef}
+            width={loaded.width}
+            height={loaded.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="max-w-full max-h-full"
+            style={{ touchAction: "none" }}
+          />
+        ) : (
+          <div className="flex flex-col items-center gap-3 text-white">
+            <Loader2 className="w-8 h-8 animate-spin" />
+            <span className="text-sm">{t("annotate.loading")}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Text label entry */}
+      {textAt && (
+        <div className="flex gap-2 px-4 pt-3">
+          <Input
+            autoFocus
+            value={textValue}
+            onChange={(e) => setTextValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addText();
+              }
+            }}
+            placeholder={t("annotate.textPlaceholder")}
+            className="bg-white"
+          />
+          <Button type="button" onClick={addText} disabled={!textValue.trim()} className="bg-white text-black hover:bg-white/90">
+            {t("annotate.addText")}
+          </Button>
+        </div>
+      )}
+
+      {/* Tools */}
+      <div className="flex items-center justify-between gap-3 px-4 py-4">
+        <div className="flex gap-1">
+          {TOOLS.map(({ tool: option, icon: Icon }) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => selectTool(option)}
+              aria-pressed={tool === option}
+              aria-label={t(`annotate.tool.${option}`)}
+              className={[
+                "w-11 h-11 rounded-lg flex items-center justify-center",
+                tool === option ? "bg-white text-black" : "text-white hover:bg-white/10",
+              ].join(" ")}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {/* The blur brush has no colour */}
+        <div className={["flex gap-2", tool === "blur" ? "invisible" : ""].join(" ")}>
+          {ANNOTATION_COLORS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setColor(option)}
+              aria-pressed={color === option}
+              aria-label={t("annotate.color")}
+              className={[
+                "w-8 h-8 rounded-full border-2",
+                color === option ? "border-white ring-2 ring-white/60" : "border-white/30",
+              ].join(" ")}
+              style={{ backgroundColor: option }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-white/70 text-center px-4 pb-4 m-0">{t(`annotate.hint.${tool}`)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { AlertCircle, Loader2, PenLine } from "lucide-react";
+import type { GalleryPhoto } from "../utils/attachments";
+
+interface PhotoGalleryProps {
+  photos: GalleryPhoto[];
+  alt: string;
+  className?: string;
+}
+
+// Upload state overlay; icons only, since the gallery is shared by the localised
+// field app and the English dashboard
+function UploadBadge({ status }: { status: GalleryPhoto["uploadStatus"] }) {
+  if (status === "uploading") {
+    return (
+      <span className="absolute top-1 right-1 bg-white/90 rounded-full p-0.5">
+        <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-600" />
+      </span>
+    );
+  }
+  if (status === "failed") {
+    return (
+      <span className="absolute top-1 right-1 bg-white/90 rounded-full p-0.5">
+        <AlertCircle className="w-3.5 h-3.5 text-red-600" />
+      </span>
+    );
+  }
+  return null;
+}
+
+// Marks the annotated copy of a photo; the untouched original sits next to it
+function AnnotatedBadge() {
+  return (
+    <span className="absolute top-1 left-1 bg-white/90 rounded-full p-0.5">
+      <PenLine className="w-3.5 h-3.5 text-black" />
+    </span>
+  );
+}
+
+export function PhotoGallery({ photos, alt, className = "h-48" }: PhotoGalleryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (photos.length === 0) return null;
+
+  const selected = photos.find((photo) => photo.id === selectedId) ?? photos[0];
+
+  return (
+    <div className="space-y-2">
+      <a href={selected.fullUrl} target="_blank" rel="noreferrer" className="block relative">
+        <img
+          src={selected.fullUrl}
+          alt={alt}
+          className={`w-full ${className} object-cover rounded-lg border border-gray-200`}
+        />
+        {selected.isAnnotated && <AnnotatedBadge />}
+      </a>
+
+      {photos.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {photos.map((photo, index) => (
+            <button
+              key={photo.id}
+              type="button"
+              onClick={() => setSelectedId(photo.id)}
+              aria-pressed={photo.id === selected.id}
+              className={[
+                "relative flex-shrink-0 w-16 h-16 rounded-md overflow-hidden border-2 transition-colors",
+                photo.id === selected.id ? "border-black" : "border-transparent opacity-80 hover:opacity-100",
+              ].join(" ")}
+            >
+              <img
+                src={photo.thumbnailUrl}
+                alt={`${alt} ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+              {photo.isAnnotated && <AnnotatedBadge />}
+              <UploadBadge status={photo.uploadStatus} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+import { useCallback, useEffect, useState } from "react";
+import { Pencil, Plus, RefreshCw, X } from "lucide-react";
+import type { ReportFormField, ReportFormFieldKind } from "../../types/incident";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { useReportFormFields } from "../hooks/useReportFormFields";
+import { refreshReportFormFields, saveReportFormField } from "../services/reportFormService";
+import { toRegistryId } from "../utils/registryId";
+
+const FIELD_KINDS: { kind: ReportFormFieldKind; name: string }[] = [
+  { kind: "text", name: "Text" },
+  { kind: "number", name: "Number" },
+  { kind: "select", name: "Select" },
+  { kind: "checkbox", name: "Checkbox" },
+];
+
+// Languages the field app is translated into (see i18n/messages.ts)
+const LANGUAGE_FIELDS = [
+  { code: "si", name: "Sinhala" },
+  { code: "ta", name: "Tamil" },
+] as const;
+
+interface FieldDraft extends Omit<ReportFormField, "options"> {
+  isNew: boolean;
+  // One choice per line, split on save
+  options: string;
+}
+
+const toDraft = (field: ReportFormField): FieldDraft => ({
+  ...field,
+  isNew: false,
+  labels: { ...field.labels },
+  options: field.options.join("\n"),
+});
+
+export function ReportFormBuilder() {
+  const { fields } = useReportFormFields();
+  const { types } = useIncidentTypes();
+  const [draft, setDraft] = useState<FieldDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFields = useCallback(() => {
+    return refreshReportFormFields()
+      .catch((err) => {
+        console.error("Error refreshing report form:", err);
+        setError(err instanceof Error ? err.message : "Failed to load report form");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadFields();
+  }, [loadFields]);
+
+  const refresh = () => {
+    setIsLoading(true);
+    setError(null);
+    loadFields();
+  };
+
+  const startNew = () => {
+    setDraft({
+      isNew: true,
+      id: "",
+      label: "",
+      labels: {},
+      kind: "text",
+      required: false,
+      options: "",
+      incidentTypes: [],
+      enabled: true,
+      sortOrder: fields.length,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const label = draft.label.trim();
+    const id = draft.isNew ? toRegistryId(label, "field") : draft.id;
+    const options = draft.options
+      .split("\n")
+      .map((option) => option.trim())
+      .filter(Boolean);
+
+    if (!label) {
+      setError("A label is required");
+      return;
+    }
+    if (draft.isNew && fields.some((field) => field.id === id)) {
+      setError(`A field with the ID "${id}" already exists`);
+      return;
+    }
+    if (draft.kind === "select" && options.length === 0) {
+      setError("Select fields need at least one option");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await saveReportFormField({
+        id,
+        label,
+        labels: Object.fromEntries(
+          Object.entries(draft.labels)
+            .map(([code, text]) => [code, text.trim()])
+            .filter(([, text]) => text),
+        ),
+        kind: draft.kind,
+        required: draft.required,
+        options: draft.kind === "select" ? options : [],
+        incidentTypes: draft.incidentTypes,
+        enabled: draft.enabled,
+        sortOrder: draft.sortOrder,
+      });
+      setDraft(null);
+    } catch (err) {
+      console.error("Error saving report form field:", err);
+      setError(err instanceof Error ? err.message : "Failed to save field");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (field: ReportFormField) => {
+    try {
+      await saveReportFormField({ ...field, enabled: !field.enabled });
+    } catch (err) {
+      console.error("Error updating report form field:", err);
+      alert("Failed to update field");
+    }
+  };
+
+  const typeLabel = (id: string) => types.find((type) => type.id === id)?.label ?? id;
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-black/30";
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-300 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-300 bg-black flex justify-between items-center">
+        <div>
+          <h3 className="text-white font-semibold text-sm">Report Form</h3>
+          <p className="text-xs text-white mt-1">
+            Extra questions responders answer when filing a report. Changes reach devices next time they come online.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={startNew}
+            disabled={!!draft}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-white text-black hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add field
+          </button>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="p-2 text-white hover:bg-gray-800 rounded-md disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 text-red-500 text-sm bg-red-50">
+          {error}
+        </div>
+      )}
+
+      {/* Editor */}
+      {draft && (
+        <div className="p-4 border-b border-gray-300 bg-gray-50 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-black font-semibold text-sm m-0">
+              {draft.isNew ? "New field" : `Edit ${draft.id}`}
+            </h4>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="p-1 text-gray-500 hover:text-black"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Label (English)</span>
+              <input
+                className={inputClass}
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                placeholder="e.g. People affected"
+              />
+            </label>
+
+            {LANGUAGE_FIELDS.map(({ code, name }) => (
+              <label key={code} className="space-y-1 text-xs font-semibold text-gray-700">
+                <span>Label ({name})</span>
+                <input
+                  className={inputClass}
+                  value={draft.labels[code] ?? ""}
+                  onChange={(e) =>
+                    setDraft({ ...draft, labels: { ...draft.labels, [code]: e.target.value } })
+                  }
+                />
+              </label>
+            ))}
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Answer type</span>
+              <select
+                className={inputClass}
+                value={draft.kind}
+                // Existing answers were stored with the old type, so it's fixed once saved
+                disabled={!draft.isNew}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value as ReportFormFieldKind })}
+              >
+                {FIELD_KINDS.map(({ kind, name }) => (
+                  <option key={kind} value={kind}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Sort order</span>
+              <input
+                type="number"
+                className={inputClass}
+                value={draft.sortOrder}
+                onChange={(e) => setDraft({ ...draft, sortOrder: Number(e.target.value) || 0 })}
+              />
+            </label>
+
+            {draft.kind === "select" && (
+              <label className="space-y-1 text-xs font-semibold text-gray-700">
+                <span>Options (one per line)</span>
+                <textarea
+                  rows={4}
+                  className={inputClass}
+                  value={draft.options}
+                  onChange={(e) => setDraft({ ...draft, options: e.target.value })}
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-xs font-semibold text-gray-700">
+              Ask for incident types (none ticked = all types)
+            </span>
+            <div className="flex flex-wrap gap-3">
+              {types.map((type) => (
+                <label key={type.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.incidentTypes.includes(type.id)}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        incidentTypes: e.target.checked
+                          ? [...draft.incidentTypes, type.id]
+                          : draft.incidentTypes.filter((id) => id !== type.id),
+                      })
+                    }
+                    className="w-4 h-4 rounded border-gray-300 accent-black"
+                  />
+                  {type.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.required}
+                  onChange={(e) => setDraft({ ...draft, required: e.target.checked })}
+                  className="w-4 h-4 rounded border-gray-300 accent-black"
+                />
+                Required
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.enabled}
+                  onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                  className="w-4 h-4 rounded border-gray-300 accent-black"
+                />
+                Asked on new reports
+              </label>
+            </div>
+
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-semibold rounded-md bg-black text-white hover:bg-gray-900 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Fields */}
+      {!isLoading && fields.length === 0 && !draft ? (
+        <div className="p-8 text-center text-gray-500">
+          No custom fields yet. Reports only ask the standard questions.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-[700px] w-full border-separate border-spacing-0">
+            <thead className="bg-white border-b border-gray-300">
+              <tr>
+                {["Field", "Answer type", "Incident types", "Status", "Action"].map((h) => (
+                  <th
+                    key={h}
+                    className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-black whitespace-nowrap"
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+
+            <tbody>
+              {fields.map((field) => (
+                <tr
+                  key={field.id}
+                  className="border-t border-gray-300 hover:bg-gray-100 transition-colors"
+                >
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="font-medium text-black">
+                      {field.label}
+                      {field.required && <span className="text-red-600"> *</span>}
+                    </div>
+                    <div className="font-mono text-xs text-gray-500">{field.id}</div>
+                  </td>
+
+                  <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                    {FIELD_KINDS.find((k) => k.kind === field.kind)?.name ?? field.kind}
+                    {field.kind === "select" && ` (${field.options.length})`}
+                  </td>
+
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {field.incidentTypes.length === 0
+                      ? "All types"
+                      : field.incidentTypes.map(typeLabel).join(", ")}
+                  </td>
+
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => handleToggleEnabled(field)}
+                      className={[
+                        "px-3 py-1 text-xs font-semibold rounded-full border",
+                        field.enabled
+                          ? "bg-green-100 text-green-800 border-green-200"
+                          : "bg-gray-100 text-gray-600 border-gray-200",
+                      ].join(" ")}
+                    >
+                      {field.enabled ? "Enabled" : "Disabled"}
+                    </button>
+                  </td>
+
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => setDraft(toDraft(field))}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md border border-gray-300 hover:bg-gray-100"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Pencil, Plus, RefreshCw, X } from "lucide-react";
+import type { ResponseUnit, ResponseUnitKind, UnitCapability } from "../../types/incident";
+import { getBackend } from "../backend/backend";
+import type { UserProfile } from "../backend/repositories";
+import { useDispatchBoard } from "../hooks/useDispatchBoard";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { useIncidentData } from "../../providers/IncidentProvider";
+import { refreshDispatchBoard, saveResponseUnit } from "../services/dispatchService";
+import {
+  AVAILABILITY_LABELS,
+  CAPABILITY_LABELS,
+  UNIT_KIND_LABELS,
+  getUnitAvailability,
+  groupAssignmentsByUnit,
+} from "../utils/dispatch";
+
+interface UnitDraft {
+  isNew: boolean;
+  id: string;
+  name: string;
+  kind: ResponseUnitKind;
+  capabilities: UnitCapability[];
+  baseName: string;
+  // Kept as typed, parsed on save
+  baseLat: string;
+  baseLng: string;
+  inService: boolean;
+  memberIds: string[];
+}
+
+const toDraft = (unit: ResponseUnit): UnitDraft => ({
+  isNew: false,
+  id: unit.id,
+  name: unit.name,
+  kind: unit.kind,
+  capabilities: [...unit.capabilities],
+  baseName: unit.base.name,
+  baseLat: String(unit.base.lat),
+  baseLng: String(unit.base.lng),
+  inService: unit.inService,
+  memberIds: [...unit.memberIds],
+});
+
+export function ResponseUnitManager() {
+  const { units, assignments } = useDispatchBoard();
+  const { incidents } = useIncidentData();
+  const { getDefinition } = useIncidentTypes();
+  const [responders, setResponders] = useState<UserProfile[]>([]);
+  const [draft, setDraft] = useState<UnitDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const assignmentsByUnit = useMemo(() => groupAssignmentsByUnit(assignments), [assignments]);
+
+  const loadUnits = useCallback(() => {
+    return Promise.all([
+      refreshDispatchBoard(),
+      getBackend().profiles.listResponders().then(setResponders),
+    ])
+      .catch((err) => {
+        console.error("Error refreshing response units:", err);
+        setError(err instanceof Error ? err.message : "Failed to load response units");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadUnits();
+  }, [loadUnits]);
+
+  const refresh = () => {
+    setIsLoading(true);
+    setError(null);
+    loadUnits();
+  };
+
+  const startNew = () => {
+    setDraft({
+      isNew: true,
+      id: crypto.randomUUID(),
+      name: "",
+      kind: "fire",
+      capabilities: [],
+      baseName: "",
+      baseLat: "",
+      baseLng: "",
+      inService: true,
+      memberIds: [],
+    });
+  };
+
+  const toggleCapability = (capability: UnitCapability) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      capabilities: draft.capabilities.includes(capability)
+        ? draft.capabilities.filter((c) => c !== capability)
+        : [...draft.capabilities, capability],
+    });
+  };
+
+  const toggleMember = (userId: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      memberIds: draft.memberIds.includes(userId)
+        ? draft.memberIds.filter((id) => id !== userId)
+        : [...draft.memberIds, userId],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    const lat = Number(draft.baseLat);
+    const lng = Number(draft.baseLng);
+
+    if (!name) {
+      setError("A name is required");
+      return;
+    }
+    if (!draft.baseLat.trim() || !draft.baseLng.trim() || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+      setError("The base needs a latitude and longitude");
+      return;
+    }
+    if (units.some((unit) => unit.id !== draft.id && unit.name.toLowerCase() === name.toLowerCase())) {
+      setError(`A unit called "${name}" already exists`);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await saveResponseUnit({
+        id: draft.id,
+        name,
+        kind: draft.kind,
+        capabilities: draft.capabilities,
+        base: { name: draft.baseName.trim() || name, lat, lng },
+        inService: draft.inService,
+        memberIds: draft.memberIds,
+      });
+      setDraft(null);
+    } catch (err) {
+      console.error("Error saving response unit:", err);
+      setError(err instanceof Error ? err.message : "Failed to save response unit");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleInService = async (unit: ResponseUnit) => {
+    try {
+      await saveResponseUnit({ ...unit, inService: !unit.inService });
+    } catch (err) {
+      console.error("Error updating response unit:", err);
+      alert("Failed to update response unit");
+    }
+  };
+
+  const describeIncident = (id: string) => {
+    const incident = incidents.find((inc) => inc.id === id);
+    return incident ? `${getDefinition(incident.type).label} ${incident.id.slice(0, 8)}` : id.slice(0, 8);
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-black/30";
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-300 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-300 bg-black flex justify-between items-center">
+        <div>
+          <h3 className="text-white font-semibold text-sm">Response Units</h3>
+          <p className="text-xs text-white mt-1">
+            Teams commanders can assign to incidents. Units out of service are still listed but flagged when assigning.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={startNew}
+            disabled={!!draft}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-white text-black hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add unit
+          </button>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="p-2 text-white hover:bg-gray-800 rounded-md disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 text-red-500 text-sm bg-red-50">
+          {error}
+        </div>
+      )}
+
+      {/* Editor */}
+      {draft && (
+        <div className="p-4 border-b border-gray-300 bg-gray-50 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-black font-semibold text-sm m-0">
+              {draft.isNew ? "New response unit" : `Edit ${draft.name}`}
+            </h4>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="p-1 text-gray-500 hover:text-black"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Name</span>
+              <input
+                className={inputClass}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Kandy Fire Brigade 2"
+              />
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Kind</span>
+              <select
+                className={inputClass}
+                value={draft.kind}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value as ResponseUnitKind })}
+              >
+                {Object.entries(UNIT_KIND_LABELS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Base</span>
+              <input
+                className={inputClass}
+                value={draft.baseName}
+                onChange={(e) => setDraft({ ...draft, baseName: e.target.value })}
+                placeholder="e.g. Kandy Central Station"
+              />
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Base latitude</span>
+              <input
+                inputMode="decimal"
+                className={inputClass}
+                value={draft.baseLat}
+                onChange={(e) => setDraft({ ...draft, baseLat: e.target.value })}
+              />
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Base longitude</span>
+              <input
+                inputMode="decimal"
+                className={inputClass}
+                value={draft.baseLng}
+                onChange={(e) => setDraft({ ...draft, baseLng: e.target.value })}
+              />
+            </label>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-xs font-semibold text-gray-700">Capabilities</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {(Object.keys(CAPABILITY_LABELS) as UnitCapability[]).map((capability) => (
+                <label key={capability} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.capabilities.includes(capability)}
+                    onChange={() => toggleCapability(capability)}
+                    className="w-4 h-4 rounded border-gray-300 accent-black"
+                  />
+                  {CAPABILITY_LABELS[capability]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset className="space-y-2">
+            <legend className="text-xs font-semibold text-gray-700">Crew</legend>
+            <p className="text-xs text-gray-500 m-0">
+              Field responders on this unit see the incidents it is assigned to and acknowledge them from the field app.
+            </p>
+            {responders.length === 0 ? (
+              <p className="text-sm text-gray-500 m-0">No approved field responders yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {responders.map((responder) => (
+                  <label key={responder.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.memberIds.includes(responder.id)}
+                      onChange={() => toggleMember(responder.id)}
+                      className="w-4 h-4 rounded border-gray-300 accent-black"
+                    />
+                    {responder.fullName}
+                    {responder.region && <span className="text-xs text-gray-500">({responder.region})</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+          </fieldset>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.inService}
+                onChange={(e) => setDraft({ ...draft, inService: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-300 accent-black"
+              />
+              In service
+            </label>
+
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-semibold rounded-md bg-black text-white hover:bg-gray-900 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Registry */}
+      <div className="overflow-x-auto">
+        <table className="min-w-[800px] w-full border-separate border-spacing-0">
+          <thead className="bg-white border-b border-gray-300">
+            <tr>
+              {["Unit", "Capabilities", "Base", "Availability", "Action"].map((h) => (
+                <th
+                  key={h}
+                  className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-black whitespace-nowrap"
+                >
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+
+          <tbody>
+            {units.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-sm text-gray-500 text-center">
+                  {isLoading ? "Loading units..." : "No response units registered yet."}
+                </td>
+              </tr>
+            )}
+            {units.map((unit) => {
+              const unitAssignments = assignmentsByUnit.get(unit.id) ?? [];
+              const availability = getUnitAvailability(unit, unitAssignments);
+
+              return (
+                <tr
+                  key={unit.id}
+                  className="border-t border-gray-300 hover:bg-gray-100 transition-colors"
+                >
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="font-medium text-black">{unit.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {UNIT_KIND_LABELS[unit.kind]}
+                      {unit.memberIds.length > 0 && ` · ${unit.memberIds.length} crew`}
+                    </div>
+                  </td>
+
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {unit.capabilities.map((capability) => CAPABILITY_LABELS[capability]).join(", ") || "—"}
+                  </td>
+
+                  <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                    {unit.base.name}
+                  </td>
+
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => handleToggleInService(unit)}
+                      title={unit.inService ? "Take out of service" : "Return to service"}
+                      className={[
+                        "px-3 py-1 text-xs font-semibold rounded-full border",
+                        availability === "available"
+                          ? "bg-green-100 text-green-800 border-green-200"
+                          : availability === "committed"
+                            ? "bg-amber-100 text-amber-800 border-amber-200"
+                            : "bg-gray-100 text-gray-600 border-gray-200",
+                      ].join(" ")}
+                    >
+                      {AVAILABILITY_LABELS[availability]}
+                    </button>
+                    {unitAssignments.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        On {unitAssignments.map((a) => describeIncident(a.incidentId)).join(", ")}
+                      </div>
+                    )}
+                  </td>
+
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => setDraft(toDraft(unit))}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md border border-gray-300 hover:bg-gray-100"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,17 @@
 import type { Incident, IncidentType } from "../../types/incident";
-import {
-  Droplets,
-  Mountain,
-  Construction,
-  Zap,
-  AlertCircle,
-  Shield,
-} from "lucide-react";
+import { AlertCircle, Shield, Timer, Users } from "lucide-react";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { getIncidentTypeIcon } from "../utils/incidentTypes";
+import { getCasualtyTotal, getPeopleAtRisk } from "../utils/casualties";
+import { formatDuration, median } from "../utils/incidentTimeline";
 
 interface SummaryBadgesProps {
   incidents: Incident[];
   onLogout?: () => void;
 
   // ✅ optional navigation handlers (won't break existing usage)
-  activeTab?: "home" | "accounts";
-  onNavigate?: (tab: "home" | "accounts") => void;
+  activeTab?: "home" | "accounts" | "types" | "units" | "form" | "training";
+  onNavigate?: (tab: "home" | "accounts" | "types" | "units" | "form" | "training") => void;
 }
 
 export function SummaryBadges({
@@ -23,33 +20,35 @@ export function SummaryBadges({
   activeTab = "home",
   onNavigate,
 }: SummaryBadgesProps) {
+  const { types: registryTypes } = useIncidentTypes();
+
   const getCountByType = (type: IncidentType) =>
     incidents.filter((i) => i.type === type).length;
 
   const getCriticalCount = () =>
     incidents.filter((i) => i.severity >= 4).length;
 
-  const getIcon = (type: IncidentType) => {
-    switch (type) {
-      case "Flood":
-        return <Droplets className="w-5 h-5" />;
-      case "Landslide":
-        return <Mountain className="w-5 h-5" />;
-      case "Road Block":
-        return <Construction className="w-5 h-5" />;
-      case "Power Line Down":
-        return <Zap className="w-5 h-5" />;
-      default:
-        return null;
-    }
+  const getCasualtyCount = () =>
+    incidents.reduce((sum, i) => sum + getCasualtyTotal(i.casualties), 0);
+
+  const getAtRiskCount = () =>
+    incidents.reduce((sum, i) => sum + getPeopleAtRisk(i.casualties), 0);
+
+  // Medians, so one incident left open overnight doesn't skew the picture
+  const getMedianResponse = (key: "toDispatchMs" | "toResolveMs") => {
+    const value = median(
+      incidents.flatMap((i) => {
+        const ms = i.responseTimes?.[key];
+        return ms === undefined ? [] : [ms];
+      }),
+    );
+    return value === undefined ? "—" : formatDuration(value);
   };
 
-  const types: IncidentType[] = [
-    "Flood",
-    "Landslide",
-    "Road Block",
-    "Power Line Down",
-  ];
+  // Disabled types still get a badge while they have incidents on the board
+  const types = registryTypes.filter(
+    (type) => type.enabled || getCountByType(type.id) > 0,
+  );
 
   return (
     <div className="space-y-4">
@@ -107,6 +106,74 @@ export function SummaryBadges({
               >
                 Accounts
               </button>
+
+              <span className="h-8 w-px bg-gray-300" />
+
+              <button
+                type="button"
+                onClick={() => onNavigate?.("types")}
+                className={[
+                  "px-4 py-2.5 text-sm font-semibold transition-colors",
+                  "focus:outline-none focus-visible:ring-2 focus-visible:ring-black/30 focus-visible:ring-offset-2",
+                  activeTab === "types"
+                    ? "bg-black text-white"
+                    : "text-black hover:bg-gray-100",
+                ].join(" ")}
+                aria-current={activeTab === "types" ? "page" : undefined}
+              >
+                Incident Types
+              </button>
+
+              <span className="h-8 w-px bg-gray-300" />
+
+              <button
+                type="button"
+                onClick={() => onNavigate?.("units")}
+                className={[
+                  "px-4 py-2.5 text-sm font-semibold transition-colors",
+                  "focus:outline-none focus-visible:ring-2 focus-visible:ring-black/30 focus-visible:ring-offset-2",
+                  activeTab === "units"
+                    ? "bg-black text-white"
+                    : "text-black hover:bg-gray-100",
+                ].join(" ")}
+                aria-current={activeTab === "units" ? "page" : undefined}
+              >
+                Units
+              </button>
+
+              <span className="h-8 w-px bg-gray-300" />
+
+              <button
+                type="button"
+                onClick={() => onNavigate?.("form")}
+                className={[
+                  "px-4 py-2.5 text-sm font-semibold transition-colors",
+                  "focus:outline-none focus-visible:ring-2 focus-visible:ring-black/30 focus-visible:ring-offset-2",
+                  activeTab === "form"
+                    ? "bg-black text-white"
+                    : "text-black hover:bg-gray-100",
+                ].join(" ")}
+                aria-current={activeTab === "form" ? "page" : undefined}
+              >
+                Report Form
+              </button>
+
+              <span className="h-8 w-px bg-gray-300" />
+
+              <button
+                type="button"
+                onClick={() => onNavigate?.("training")}
+                className={[
+                  "px-4 py-2.5 text-sm font-semibold transition-colors",
+                  "focus:outline-none focus-visible:ring-2 focus-visible:ring-black/30 focus-visible:ring-offset-2",
+                  activeTab === "training"
+                    ? "bg-black text-white"
+                    : "text-black hover:bg-gray-100",
+                ].join(" ")}
+                aria-current={activeTab === "training" ? "page" : undefined}
+              >
+                Training
+              </button>
             </nav>
           </div>
 
@@ -155,32 +222,87 @@ export function SummaryBadges({
           </div>
         </div>
 
-        {/* Type badges */}
-        {types.map((type) => (
-          <div
-            key={type}
-            className="bg-white rounded-xl shadow-sm border border-gray-300 p-4 transition-all hover:shadow-md hover:-translate-y-[1px]"
-          >
-            <div className="flex items-center gap-3">
-              <div className="bg-white border border-gray-200 p-3 rounded-xl text-black">
-                {getIcon(type)}
+        {/* Casualties */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-300 p-4 transition-all hover:shadow-md hover:-translate-y-[1px]">
+          <div className="flex items-center gap-3">
+            <div className="bg-gray-50 border border-gray-200 p-3 rounded-xl">
+              <Users className="w-5 h-5 text-black" />
+            </div>
+
+            <div className="min-w-0">
+              <div className="text-[26px] leading-none font-semibold text-black">
+                {getCasualtyCount()}
+              </div>
+              <div className="mt-1 text-sm font-medium text-gray-600 truncate">
+                Casualties
+                {getAtRiskCount() > 0 && ` · ${getAtRiskCount()} at risk`}
               </div>
+            </div>
+          </div>
 
-              <div className="min-w-0">
-                <div className="text-[26px] leading-none font-semibold text-black">
-                  {getCountByType(type)}
+          <div className="mt-3 h-[3px] w-full rounded-full bg-gray-200 overflow-hidden">
+            <div className="h-full w-1/3 bg-black/60 rounded-full" />
+          </div>
+        </div>
+
+        {/* Response times */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-300 p-4 transition-all hover:shadow-md hover:-translate-y-[1px]">
+          <div className="flex items-center gap-3">
+            <div className="bg-gray-50 border border-gray-200 p-3 rounded-xl">
+              <Timer className="w-5 h-5 text-black" />
+            </div>
+
+            <div className="min-w-0">
+              <div className="text-[26px] leading-none font-semibold text-black whitespace-nowrap">
+                {getMedianResponse("toDispatchMs")}
+              </div>
+              <div className="mt-1 text-sm font-medium text-gray-600 truncate">
+                To dispatch · {getMedianResponse("toResolveMs")} to resolve
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-3 h-[3px] w-full rounded-full bg-gray-200 overflow-hidden">
+            <div className="h-full w-1/3 bg-black/60 rounded-full" />
+          </div>
+        </div>
+
+        {/* Type badges */}
+        {types.map((type) => {
+          const Icon = getIncidentTypeIcon(type);
+
+          return (
+            <div
+              key={type.id}
+              className="bg-white rounded-xl shadow-sm border border-gray-300 p-4 transition-all hover:shadow-md hover:-translate-y-[1px]"
+            >
+              <div className="flex items-center gap-3">
+                <div
+                  className="bg-white border border-gray-200 p-3 rounded-xl"
+                  style={{ color: type.color }}
+                >
+                  <Icon className="w-5 h-5" />
                 </div>
-                <div className="mt-1 text-sm font-medium text-gray-600 truncate">
-                  {type}
+
+                <div className="min-w-0">
+                  <div className="text-[26px] leading-none font-semibold text-black">
+                    {getCountByType(type.id)}
+                  </div>
+                  <div className="mt-1 text-sm font-medium text-gray-600 truncate">
+                    {type.label}
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <div className="mt-3 h-[3px] w-full rounded-full bg-gray-200 overflow-hidden">
-              <div className="h-full w-1/3 bg-black/60 rounded-full" />
+              <div className="mt-3 h-[3px] w-full rounded-full bg-gray-200 overflow-hidden">
+                <div
+                  className="h-full w-1/3 rounded-full opacity-60"
+                  style={{ backgroundColor: type.color }}
+                />
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
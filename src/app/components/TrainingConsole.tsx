@@ -0,0 +1,212 @@
+import { useMemo, useState, useSyncExternalStore } from "react";
+import { GraduationCap, Play, Square, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { TRAINING_MODE, setTrainingMode } from "../utils/trainingMode";
+import { TRAINING_DISTRICTS, generateScenario } from "../utils/trainingScenario";
+import {
+  clearTrainingExercise,
+  getTrainingReplayState,
+  startTrainingReplay,
+  stopTrainingReplay,
+  subscribeTrainingReplay,
+} from "../services/trainingReplay";
+
+const SPEEDS = [1, 5, 10, 30];
+
+const inputClass =
+  "w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-black/30";
+
+export function TrainingConsole() {
+  const replay = useSyncExternalStore(subscribeTrainingReplay, getTrainingReplayState);
+
+  const [districtId, setDistrictId] = useState(TRAINING_DISTRICTS[0].id);
+  const [incidentCount, setIncidentCount] = useState(25);
+  const [durationMinutes, setDurationMinutes] = useState(120);
+  const [speed, setSpeed] = useState(10);
+  const [seed, setSeed] = useState(() => Math.floor(Math.random() * 100000));
+
+  const scenario = useMemo(
+    () => generateScenario({ districtId, seed, incidentCount, durationMinutes }),
+    [districtId, seed, incidentCount, durationMinutes],
+  );
+  const reportCount = scenario.events.filter((event) => event.type === "report").length;
+
+  const handleEnter = () => {
+    if (!confirm("Switch this device to training mode? The app reloads and shows exercise data only until you exit.")) return;
+    setTrainingMode(true);
+  };
+
+  const handleStart = () => {
+    try {
+      startTrainingReplay(scenario, { speed });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not start the scenario");
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm("Delete every exercise incident and training report on this device?")) return;
+    try {
+      const removed = await clearTrainingExercise();
+      toast.success(`Cleared ${removed} exercise incidents`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not clear the exercise");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-300 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-300 bg-black flex justify-between items-center">
+        <div>
+          <h3 className="text-white font-semibold text-sm">Training &amp; Exercises</h3>
+          <p className="text-xs text-white mt-1">
+            Generated incident streams for drills. Exercise data is watermarked and kept apart from operational records.
+          </p>
+        </div>
+        {TRAINING_MODE && (
+          <button
+            type="button"
+            onClick={() => setTrainingMode(false)}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-white text-black hover:bg-gray-200"
+          >
+            Exit training mode
+          </button>
+        )}
+      </div>
+
+      {!TRAINING_MODE ? (
+        <div className="p-6 flex flex-col items-start gap-3 text-sm text-gray-700">
+          <p>
+            Training mode switches this device to a separate exercise store. Reports, dispatches and status changes made
+            while it is on never reach the operational incident list, and other tabs on this device switch with it.
+          </p>
+          <button
+            type="button"
+            onClick={handleEnter}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md bg-purple-700 text-white hover:bg-purple-800"
+          >
+            <GraduationCap className="w-4 h-4" />
+            Enter training mode
+          </button>
+        </div>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>District</span>
+              <select
+                className={inputClass}
+                value={districtId}
+                disabled={replay.isRunning}
+                onChange={(e) => setDistrictId(e.target.value)}
+              >
+                {TRAINING_DISTRICTS.map((district) => (
+                  <option key={district.id} value={district.id}>
+                    {district.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Incidents</span>
+              <input
+                type="number"
+                min={1}
+                max={200}
+                className={inputClass}
+                value={incidentCount}
+                disabled={replay.isRunning}
+                onChange={(e) => setIncidentCount(Math.min(200, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Drill length (minutes)</span>
+              <input
+                type="number"
+                min={10}
+                max={720}
+                className={inputClass}
+                value={durationMinutes}
+                disabled={replay.isRunning}
+                onChange={(e) => setDurationMinutes(Math.min(720, Math.max(10, Number(e.target.value) || 10)))}
+              />
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Speed</span>
+              <select
+                className={inputClass}
+                value={speed}
+                disabled={replay.isRunning}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+              >
+                {SPEEDS.map((value) => (
+                  <option key={value} value={value}>
+                    {value === 1 ? "Real time" : `${value}× faster`}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1 text-xs font-semibold text-gray-700">
+              <span>Seed (same seed, same drill)</span>
+              <input
+                type="number"
+                className={inputClass}
+                value={seed}
+                disabled={replay.isRunning}
+                onChange={(e) => setSeed(Number(e.target.value) || 0)}
+              />
+            </label>
+          </div>
+
+          <p className="text-xs text-gray-600">
+            {reportCount} reports and {scenario.events.length - reportCount} status changes over {durationMinutes} minutes
+            {speed > 1 && `, played in about ${Math.ceil(durationMinutes / speed)} minutes`}.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {replay.isRunning ? (
+              <button
+                type="button"
+                onClick={stopTrainingReplay}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md bg-black text-white hover:bg-gray-900"
+              >
+                <Square className="w-4 h-4" />
+                Stop scenario
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleStart}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md bg-purple-700 text-white hover:bg-purple-800"
+              >
+                <Play className="w-4 h-4" />
+                Start scenario
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleClear}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md border border-gray-300 text-black hover:bg-gray-100"
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear exercise data
+            </button>
+          </div>
+
+          {replay.label && (
+            <div className="rounded-md border border-purple-200 bg-purple-50 px-3 py-2 text-xs text-purple-900">
+              <span className="font-semibold">{replay.isRunning ? "Playing" : "Last run"}:</span> {replay.label} —{" "}
+              {replay.played}/{replay.total} events, minute {Math.floor(replay.minute)}
+              {replay.error && <span className="block text-red-700 mt-1">Last error: {replay.error}</span>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
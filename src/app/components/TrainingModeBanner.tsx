@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { GraduationCap } from "lucide-react";
+import { TRAINING_MODE, setTrainingMode, watchTrainingMode } from "../utils/trainingMode";
+
+/** Watermark on every screen while training mode is on; also keeps tabs in the same mode */
+export function TrainingModeBanner() {
+  useEffect(() => watchTrainingMode(), []);
+
+  if (!TRAINING_MODE) return null;
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-[1100] flex items-center justify-center gap-3 px-4 py-2 text-sm font-semibold text-white bg-[repeating-linear-gradient(45deg,#6b21a8_0,#6b21a8_12px,#7e22ce_12px,#7e22ce_24px)]"
+    >
+      <GraduationCap className="w-4 h-4 shrink-0" />
+      <span>TRAINING MODE — exercise data only, nothing here is an operational record</span>
+      <button
+        type="button"
+        onClick={() => setTrainingMode(false)}
+        className="ml-2 px-2 py-0.5 rounded border border-white/70 text-xs hover:bg-white/10"
+      >
+        Exit
+      </button>
+    </div>
+  );
+}
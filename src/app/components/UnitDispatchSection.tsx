@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { Truck } from "lucide-react";
+import { toast } from "sonner";
+import type { Incident, UnitAvailability } from "../../types/incident";
+import { useDispatchBoard } from "../hooks/useDispatchBoard";
+import { useIncidentTypes } from "../hooks/useIncidentTypes";
+import { useIncidentData } from "../../providers/IncidentProvider";
+import { assignUnits, releaseUnitAssignment } from "../services/dispatchService";
+import { AVAILABILITY_LABELS, CAPABILITY_LABELS, UNIT_KIND_LABELS, rankUnitsForIncident } from "../utils/dispatch";
+
+const AVAILABILITY_STYLES: Record<UnitAvailability, string> = {
+  available: "bg-green-100 text-green-800 border-green-200",
+  committed: "bg-amber-100 text-amber-800 border-amber-200",
+  out_of_service: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+interface UnitDispatchSectionProps {
+  incident: Incident;
+  /** Typed into the panel's reason box; used when assigning also dispatches */
+  reason: string;
+}
+
+/** Assigned units with a release button, and a picker for sending more */
+export function UnitDispatchSection({ incident, reason }: UnitDispatchSectionProps) {
+  const { units, assignments } = useDispatchBoard();
+  const { incidents, updateIncidentStatus } = useIncidentData();
+  const { getDefinition } = useIncidentTypes();
+  // Tied to the incident it was made for, like the panel's reason
+  const [selection, setSelection] = useState({ incidentId: "", unitIds: [] as string[] });
+  const [isAssigning, setIsAssigning] = useState(false);
+  const selectedIds = selection.incidentId === incident.id ? selection.unitIds : [];
+
+  const options = useMemo(() => rankUnitsForIncident(incident, units, assignments), [incident, units, assignments]);
+  const assignedHere = options.flatMap((option) =>
+    option.assignments.filter((assignment) => assignment.incidentId === incident.id).map((assignment) => ({ option, assignment })),
+  );
+  // A resolved incident releases its units, so it takes no new ones until reopened
+  const candidates =
+    incident.status === "Resolved"
+      ? []
+      : options.filter((option) => !option.assignments.some((a) => a.incidentId === incident.id));
+
+  const describeIncident = (id: string) => {
+    const other = incidents.find((inc) => inc.id === id);
+    return other ? `${getDefinition(other.type).label} ${other.id.slice(0, 8)}` : id.slice(0, 8);
+  };
+
+  const toggle = (unitId: string) => {
+    setSelection({
+      incidentId: incident.id,
+      unitIds: selectedIds.includes(unitId) ? selectedIds.filter((id) => id !== unitId) : [...selectedIds, unitId],
+    });
+  };
+
+  const handleAssign = async () => {
+    const chosen = candidates.filter((option) => selectedIds.includes(option.unit.id));
+    if (chosen.length === 0) return;
+
+    // Sending a unit that is busy elsewhere is allowed, but never by accident
+    const warnings = chosen.flatMap((option) => {
+      if (option.availability === "out_of_service") return [`${option.unit.name} is out of service`];
+      if (option.availability === "committed") {
+        return [`${option.unit.name} is committed to ${option.assignments.map((a) => describeIncident(a.incidentId)).join(", ")}`];
+      }
+      return [];
+    });
+    if (warnings.length > 0 && !confirm(`${warnings.join("\n")}\n\nAssign anyway?`)) return;
+
+    setIsAssigning(true);
+    try {
+      await assignUnits(incident.id, chosen.map((option) => option.unit.id));
+      setSelection({ incidentId: "", unitIds: [] });
+      const names = chosen.map((option) => option.unit.name).join(", ");
+      toast.success(`Assigned ${names}`);
+      if (incident.status === "Active") {
+        await updateIncidentStatus(incident.id, "Dispatched", reason.trim() || `Assigned ${names}`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not assign units");
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleRelease = async (assignmentId: string, unitName: string) => {
+    try {
+      await releaseUnitAssignment(assignmentId);
+      toast.success(`${unitName} released`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not release the unit");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-3 border border-gray-200">
+      <h4 className="text-black mb-2 flex items-center gap-2">
+        <Truck className="w-4 h-4" />
+        Response Units
+      </h4>
+
+      {assignedHere.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-2">No units assigned.</p>
+      ) : (
+        <ul className="space-y-2 mb-3 m-0 p-0 list-none">
+          {assignedHere.map(({ option, assignment }) => (
+            <li key={assignment.id} className="flex items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <div className="text-gray-900 font-medium truncate">{option.unit.name}</div>
+                <div className="text-xs text-gray-500">
+                  {UNIT_KIND_LABELS[option.unit.kind]} · since{" "}
+                  {new Date(assignment.assignedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  {assignment.assignedByName && ` · ${assignment.assignedByName}`}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRelease(assignment.id, option.unit.name)}
+                className="shrink-0 px-2 py-1 text-xs font-semibold rounded-md border border-gray-300 hover:bg-gray-100"
+              >
+                Release
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {candidates.length > 0 && (
+        <>
+          <div className="max-h-56 overflow-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+            {candidates.map((option) => (
+              <label key={option.unit.id} className="flex items-start gap-2 px-2 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  className="mt-1 w-4 h-4 accent-black"
+                  checked={selectedIds.includes(option.unit.id)}
+                  onChange={() => toggle(option.unit.id)}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-900 font-medium truncate">{option.unit.name}</span>
+                    <span
+                      className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold border ${AVAILABILITY_STYLES[option.availability]}`}
+                    >
+                      {AVAILABILITY_LABELS[option.availability]}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {UNIT_KIND_LABELS[option.unit.kind]} · {option.distanceKm.toFixed(1)} km from {option.unit.base.name}
+                  </div>
+                  {option.matches.length > 0 && (
+                    <div className="text-xs text-green-700">
+                      {option.matches.map((capability) => CAPABILITY_LABELS[capability]).join(", ")}
+                    </div>
+                  )}
+                  {option.assignments.length > 0 && (
+                    <div className="text-xs text-amber-700">
+                      On {option.assignments.map((a) => describeIncident(a.incidentId)).join(", ")}
+                    </div>
+                  )}
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={handleAssign}
+            disabled={selectedIds.length === 0 || isAssigning}
+            className="w-full mt-2 bg-black text-white py-2 px-4 rounded-lg text-sm hover:bg-gray-900 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isAssigning
+              ? "Assigning..."
+              : incident.status === "Active"
+                ? `Assign and dispatch${selectedIds.length > 0 ? ` (${selectedIds.length})` : ""}`
+                : `Assign${selectedIds.length > 0 ? ` (${selectedIds.length})` : ""}`}
+          </button>
+        </>
+      )}
+
+      {units.length === 0 && (
+        <p className="text-sm text-gray-500">No response units registered yet. Add them under Units.</p>
+      )}
+    </div>
+  );
+}
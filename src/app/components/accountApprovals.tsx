@@ -1,6 +1,6 @@
 import { useEffect, useState, useCallback } from "react";
 import { Check, X, RefreshCw } from "lucide-react";
-import { supabase } from "../../supabaseClient";
+import { getBackend } from "../backend/backend";
 import { useAuth } from "../../providers/AuthProvider";
 
 interface PendingUser {
@@ -26,16 +26,10 @@ export function AccountApprovals() {
     setError(null);
 
     try {
-      // Fetch user_profiles where verification_status = 'pending'
-      const { data: profiles, error: profilesError } = await supabase
-        .from('user_profiles')
-        .select('id, full_name, phone, designation, region')
-        .eq('verification_status', 'pending')
-        .eq('is_admin', false);
+      // Fetch non-admin profiles still waiting for verification
+      const profiles = await getBackend().profiles.listPendingProfiles();
 
-      if (profilesError) throw profilesError;
-
-      if (!profiles || profiles.length === 0) {
+      if (profiles.length === 0) {
         setPendingUsers([]);
         setIsLoading(false);
         return;
@@ -48,10 +42,10 @@ export function AccountApprovals() {
       // For now, we'll show the data we have
       const usersWithEmail: PendingUser[] = profiles.map(p => ({
         id: p.id,
-        full_name: p.full_name || 'Unknown',
-        phone: p.phone || '',
-        designation: p.designation || '',
-        region: p.region || '',
+        full_name: p.fullName || 'Unknown',
+        phone: p.phone,
+        designation: p.designation,
+        region: p.region,
       }));
 
       setPendingUsers(usersWithEmail);
@@ -69,12 +63,7 @@ export function AccountApprovals() {
 
   const handleApprove = async (userId: string) => {
     try {
-      const { error } = await supabase
-        .from('user_profiles')
-        .update({ verification_status: 'approved' })
-        .eq('id', userId);
-
-      if (error) throw error;
+      await getBackend().profiles.setVerificationStatus(userId, 'approved');
 
       // Remove from local state
       setPendingUsers(prev => prev.filter(u => u.id !== userId));
@@ -91,12 +80,7 @@ export function AccountApprovals() {
 
     try {
       // Delete the profile (the auth user will remain but can't log in without a profile)
-      const { error } = await supabase
-        .from('user_profiles')
-        .delete()
-        .eq('id', userId);
-
-      if (error) throw error;
+      await getBackend().profiles.deleteProfile(userId);
 
       // Remove from local state
       setPendingUsers(prev => prev.filter(u => u.id !== userId));
@@ -0,0 +1,13 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../db/db';
+import type { ResponseUnit, UnitAssignment } from '../../types/incident';
+
+const NO_UNITS: ResponseUnit[] = [];
+const NO_ASSIGNMENTS: UnitAssignment[] = [];
+
+/** The cached unit registry, by name, and the assignments still open */
+export function useDispatchBoard() {
+    const units = useLiveQuery(() => db.responseUnits.orderBy('name').toArray());
+    const assignments = useLiveQuery(() => db.unitAssignments.toArray());
+    return { units: units ?? NO_UNITS, assignments: assignments ?? NO_ASSIGNMENTS };
+}
@@ -0,0 +1,14 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../db/db';
+import type { IncidentEvent } from '../../types/incident';
+
+const NO_EVENTS: IncidentEvent[] = [];
+
+/** Cached audit trail of an incident, oldest first */
+export function useIncidentEvents(incidentId: string | undefined): IncidentEvent[] {
+    const events = useLiveQuery(
+        () => (incidentId ? db.incidentEvents.where('incidentId').equals(incidentId).sortBy('at') : NO_EVENTS),
+        [incidentId],
+    );
+    return events ?? NO_EVENTS;
+}
@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../db/db';
+import type { IncidentType } from '../../types/incident';
+import { useLanguage } from './useLanguage';
+import {
+    DEFAULT_INCIDENT_TYPES,
+    getIncidentTypeDefinition,
+    getIncidentTypeLabel,
+    sortIncidentTypes,
+} from '../utils/incidentTypes';
+
+/**
+ * The incident type registry from the offline cache, falling back to the built-in
+ * types until the first download. `enabledTypes` is what new reports may use.
+ */
+export function useIncidentTypes() {
+    const { language } = useLanguage();
+    const cached = useLiveQuery(() => db.incidentTypes.toArray());
+
+    const types = useMemo(
+        () => sortIncidentTypes(cached && cached.length > 0 ? cached : DEFAULT_INCIDENT_TYPES),
+        [cached],
+    );
+
+    const enabledTypes = useMemo(() => types.filter((type) => type.enabled), [types]);
+
+    const getDefinition = useCallback(
+        (id: IncidentType) => getIncidentTypeDefinition(types, id),
+        [types],
+    );
+
+    const getLabel = useCallback(
+        (id: IncidentType) => getIncidentTypeLabel(getDefinition(id), language),
+        [getDefinition, language],
+    );
+
+    return { types, enabledTypes, getDefinition, getLabel };
+}
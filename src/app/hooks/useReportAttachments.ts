@@ -0,0 +1,47 @@
+import { useEffect, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../db/db';
+import type { GalleryPhoto } from '../utils/attachments';
+
+/**
+ * Gallery entries for a local report's photos. Blobs are exposed as object URLs,
+ * which are revoked when the attachments change or the component unmounts.
+ */
+export function useReportAttachments(reportId: string | undefined): GalleryPhoto[] {
+    const attachments = useLiveQuery(
+        () => (reportId ? db.attachments.where('reportId').equals(reportId).sortBy('position') : []),
+        [reportId],
+    );
+
+    const { photos, objectUrls } = useMemo(() => {
+        const objectUrls: string[] = [];
+        const toUrl = (blob: Blob) => {
+            const url = URL.createObjectURL(blob);
+            objectUrls.push(url);
+            return url;
+        };
+
+        const photos: GalleryPhoto[] = [];
+        for (const attachment of attachments ?? []) {
+            const source = attachment.thumbnail ?? attachment.blob;
+            // Synced photos have dropped their full-size blob, so fall back to the uploaded copy
+            const fullUrl = attachment.blob ? toUrl(attachment.blob) : attachment.remoteUrl;
+            const thumbnailUrl = source ? toUrl(source) : fullUrl;
+            if (!fullUrl || !thumbnailUrl) continue;
+
+            photos.push({
+                id: attachment.id,
+                thumbnailUrl,
+                fullUrl,
+                uploadStatus: attachment.uploadStatus,
+                isAnnotated: attachment.kind === 'annotated',
+            });
+        }
+
+        return { photos, objectUrls };
+    }, [attachments]);
+
+    useEffect(() => () => objectUrls.forEach((url) => URL.revokeObjectURL(url)), [objectUrls]);
+
+    return photos;
+}
@@ -0,0 +1,32 @@
+import { useCallback, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../db/db';
+import type { IncidentType } from '../../types/incident';
+import { useLanguage } from './useLanguage';
+import { getReportFormFieldLabel, isFieldForType, sortReportFormFields } from '../utils/reportForm';
+
+/**
+ * The admin-defined report form from the offline cache. `getFieldsForType`
+ * returns the enabled questions to ask for a given incident type.
+ */
+export function useReportFormFields() {
+    const { language } = useLanguage();
+    const cached = useLiveQuery(() => db.formFields.toArray());
+
+    const fields = useMemo(() => sortReportFormFields(cached ?? []), [cached]);
+
+    const getFieldsForType = useCallback(
+        (type: IncidentType) => fields.filter((field) => field.enabled && isFieldForType(field, type)),
+        [fields],
+    );
+
+    const getLabel = useCallback(
+        (id: string) => {
+            const field = fields.find((f) => f.id === id);
+            return field ? getReportFormFieldLabel(field, language) : id;
+        },
+        [fields, language],
+    );
+
+    return { fields, getFieldsForType, getLabel };
+}
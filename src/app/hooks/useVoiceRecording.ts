@@ -1,9 +1,17 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import '../../../src/types/speech.d.ts';
 
+export interface UseVoiceRecordingOptions {
+    /** BCP 47 recognition language, e.g. 'si-LK'. Defaults to 'en-US'. */
+    lang?: string;
+    /** Called with the finalised transcript once recognition ends (user stop, silence or error). */
+    onComplete?: (transcript: string) => void;
+}
+
 export interface UseVoiceRecordingResult {
     isRecording: boolean;
     transcript: string;
+    interimTranscript: string;
     isSupported: boolean;
     error: string | null;
     startRecording: () => void;
@@ -11,11 +19,19 @@ export interface UseVoiceRecordingResult {
     clearTranscript: () => void;
 }
 
-export function useVoiceRecording(): UseVoiceRecordingResult {
+export function useVoiceRecording({ lang = 'en-US', onComplete }: UseVoiceRecordingOptions = {}): UseVoiceRecordingResult {
     const [isRecording, setIsRecording] = useState(false);
     const [transcript, setTranscript] = useState('');
+    const [interimTranscript, setInterimTranscript] = useState('');
     const [error, setError] = useState<string | null>(null);
     const recognitionRef = useRef<SpeechRecognition | null>(null);
+    const finalTranscriptRef = useRef('');
+    const onCompleteRef = useRef(onComplete);
+
+    // Keep the latest callback without restarting recognition
+    useEffect(() => {
+        onCompleteRef.current = onComplete;
+    }, [onComplete]);
 
     // Check browser support
     const isSupported = typeof window !== 'undefined' &&
@@ -28,6 +44,9 @@ export function useVoiceRecording(): UseVoiceRecordingResult {
         }
 
         setError(null);
+        setTranscript('');
+        setInterimTranscript('');
+        finalTranscriptRef.current = '';
 
         // Get the SpeechRecognition constructor
         const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -35,7 +54,7 @@ export function useVoiceRecording(): UseVoiceRecordingResult {
         recognitionRef.current = new SpeechRecognitionAPI();
         recognitionRef.current.continuous = true;
         recognitionRef.current.interimResults = true;
-        recognitionRef.current.lang = 'en-US';
+        recognitionRef.current.lang = lang;
 
         recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
             let finalTranscript = '';
@@ -50,14 +69,12 @@ export function useVoiceRecording(): UseVoiceRecordingResult {
                 }
             }
 
-            setTranscript(prev => {
-                // Append final transcripts, show interim in real-time
-                if (finalTranscript) {
-                    return prev + finalTranscript;
-                }
-                // For interim results, we show the previous final + current interim
-                return prev + interimTranscript;
-            });
+            // Final results are appended once; interim text is replaced on every event
+            if (finalTranscript) {
+                finalTranscriptRef.current += finalTranscript;
+                setTranscript(finalTranscriptRef.current);
+            }
+            setInterimTranscript(interimTranscript);
         };
 
         recognitionRef.current.onerror = (event: SpeechRecognitionErrorEvent) => {
@@ -74,6 +91,8 @@ export function useVoiceRecording(): UseVoiceRecordingResult {
 
         recognitionRef.current.onend = () => {
             setIsRecording(false);
+            setInterimTranscript('');
+            onCompleteRef.current?.(finalTranscriptRef.current.trim());
         };
 
         try {
@@ -83,7 +102,7 @@ export function useVoiceRecording(): UseVoiceRecordingResult {
             console.error('Failed to start speech recognition:', e);
             setError('Failed to start speech recognition. Please try again.');
         }
-    }, [isSupported]);
+    }, [isSupported, lang]);
 
     const stopRecording = useCallback(() => {
         if (recognitionRef.current) {
@@ -93,7 +112,9 @@ export function useVoiceRecording(): UseVoiceRecordingResult {
     }, []);
 
     const clearTranscript = useCallback(() => {
+        finalTranscriptRef.current = '';
         setTranscript('');
+        setInterimTranscript('');
         setError(null);
     }, []);
 
@@ -101,6 +122,8 @@ export function useVoiceRecording(): UseVoiceRecordingResult {
     useEffect(() => {
         return () => {
             if (recognitionRef.current) {
+                // Don't hand a half-finished transcript to an unmounted form
+                recognitionRef.current.onend = null;
                 recognitionRef.current.abort();
             }
         };
@@ -109,6 +132,7 @@ export function useVoiceRecording(): UseVoiceRecordingResult {
     return {
         isRecording,
         transcript,
+        interimTranscript,
         isSupported,
         error,
         startRecording,
@@ -0,0 +1,16 @@
+import { createContext } from "react";
+import type { Language, MessageKey } from "./messages";
+
+export interface LanguageContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  /** BCP 47 locale used for dates and numbers */
+  locale: string;
+  /** Language tag passed to the Web Speech API */
+  speechLang: string;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  formatDateTime: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export const LanguageContext = createContext<LanguageContextValue | undefined>(undefined);
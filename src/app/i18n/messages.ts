@@ -0,0 +1,673 @@
+// Message catalogue for the field responder app.
+// English is the source of truth: every other language must provide the same keys.
+
+export type Language = "en" | "si" | "ta";
+
+export const LANGUAGES: {
+  code: Language;
+  label: string;
+  locale: string;
+  speechLang: string;
+}[] = [
+  { code: "en", label: "English", locale: "en-LK", speechLang: "en-US" },
+  { code: "si", label: "සිංහල", locale: "si-LK", speechLang: "si-LK" },
+  { code: "ta", label: "தமிழ்", locale: "ta-LK", speechLang: "ta-LK" },
+];
+
+const en = {
+  // Common
+  "app.name": "Nodus",
+  "app.tagline": "Emergency Response System",
+  "common.logout": "Logout",
+  "common.language": "Language",
+
+  // Severity (incident type labels come from the incident type registry)
+  "severity.1": "Minor",
+  "severity.2": "Low",
+  "severity.3": "Fair",
+  "severity.4": "High",
+  "severity.5": "Critical",
+  "severity.badge": "Severity {level}",
+
+  // Connectivity banner
+  "connectivity.online": "Online",
+  "connectivity.offline": "Offline – data will sync automatically",
+
+  // Login
+  "login.title": "Login",
+  "login.createAccount": "Create Account",
+  "login.signupSuccessTitle": "Account created successfully!",
+  "login.signupSuccessBody":
+    "Your account is now pending approval by an administrator. You will be able to login once approved.",
+  "login.backToLogin": "Back to Login",
+  "login.fullName": "Full Name",
+  "login.email": "Email",
+  "login.password": "Password",
+  "login.showPassword": "Show password",
+  "login.hidePassword": "Hide password",
+  "login.phone": "Phone",
+  "login.designation": "Designation",
+  "login.region": "Region",
+  "login.loading": "Loading...",
+  "login.submit": "Login",
+  "login.signUp": "Sign Up",
+  "login.needAccount": "Need an account? Sign up",
+  "login.haveAccount": "Already have an account? Login",
+  "login.offlineHint": "Once logged in, you can continue using the app offline",
+  "login.genericError": "An error occurred",
+
+  // Home
+  "home.title": "Field Responder",
+  "home.subtitle": "Emergency Response Dashboard",
+  "home.createIncident": "Create Incident Report",
+  "home.createIncidentHint": "Record incidents on site",
+  "home.pendingReports": "Pending Reports",
+  "home.pendingReportsHint": "Review & sync when online",
+  "home.nearbyAlerts": "Nearby Alerts",
+  "home.withinKm": "Within {km}km",
+  "home.viewOnMap": "View on Map",
+  "home.myReports": "My Reports",
+  "home.noReports": "No Reports found.",
+  "home.statusPending": "Pending",
+  "home.statusRead": "Read",
+  "home.acknowledge": "Acknowledge dispatch",
+  "home.statusResponding": "Responding",
+  "home.assignedToUnit": "Your unit",
+
+  // Status workflow (shared with the command dashboard)
+  "workflow.status.Active": "Active",
+  "workflow.status.Dispatched": "Dispatched",
+  "workflow.status.Responding": "Responding",
+  "workflow.status.Resolved": "Resolved",
+  "workflow.alreadyInStatus": "Incident is already {status}",
+  "workflow.invalidTransition": "An incident can't go from {from} to {to}",
+  "workflow.roleRequired.dispatch": "Only commanders can dispatch an incident",
+  "workflow.roleRequired.acknowledge": "Only responders or commanders can acknowledge a dispatch",
+  "workflow.roleRequired.resolve": "Only commanders can resolve an incident",
+  "workflow.roleRequired.reopen": "Only commanders can reopen an incident",
+  "workflow.reasonRequired.dispatch": "A reason is needed to dispatch an incident",
+  "workflow.reasonRequired.acknowledge": "A reason is needed to acknowledge a dispatch",
+  "workflow.reasonRequired.resolve": "A reason is needed to resolve an incident",
+  "workflow.reasonRequired.reopen": "A reason is needed to reopen an incident",
+  "workflow.notOnServer": "This report hasn't reached the server yet, so its status can't be changed.",
+  "workflow.notOnBoard": "This incident is no longer on the board.",
+
+  // Create incident
+  "create.title": "Create Incident Report",
+  "create.voiceTitle": "Voice Report",
+  "create.voiceHint": "Describe the incident. Type and severity are filled in for you to check.",
+  "create.voiceStart": "Start voice report",
+  "create.voiceStop": "Stop recording",
+  "create.voiceListening": "Listening...",
+  "create.voiceConfirm": "Filled from voice ({percent}% sure). Confirm it, or pick a different value.",
+  "create.voiceAlsoMentioned": "Also mentioned: {types}",
+  "create.confirm": "Confirm",
+  "create.incidentType": "Incident Type",
+  "create.selectIncidentType": "Select incident type",
+  "create.severity": "Severity Level",
+  "create.severityHint": "Select the severity that best matches the situation.",
+  "create.location": "Location",
+  "create.capturingLocation": "Capturing location...",
+  "create.mapOffline": "Map view unavailable offline",
+  "create.coordinates": "Coordinates: {lat}, {lng}",
+  "create.cachedLocation": "Cached (Offline)",
+  "create.locationCaptured": "Location captured. Tap “Capture Location” to refresh if needed.",
+  "create.captureLocation": "Capture Location",
+  "create.timestamp": "Timestamp",
+  "assessment.title": "Damage Assessment",
+  "assessment.hint": "Optional details that help command triage without calling you back.",
+  "assessment.waterDepth": "Water depth (cm)",
+  "assessment.waterTrend": "Water level",
+  "assessment.trend.rising": "Rising",
+  "assessment.trend.steady": "Steady",
+  "assessment.trend.falling": "Falling",
+  "assessment.roadPassable": "Is the road passable?",
+  "assessment.passable.yes": "Passable",
+  "assessment.passable.no": "Blocked",
+  "assessment.vehicles": "Which vehicles can get through?",
+  "assessment.vehicle.pedestrian": "On foot",
+  "assessment.vehicle.motorcycle": "Motorcycle",
+  "assessment.vehicle.car": "Car / van",
+  "assessment.vehicle.truck": "Truck / bus",
+  "assessment.vehicle.emergency": "Emergency vehicles",
+  "assessment.buildings": "Buildings affected",
+  "assessment.hazard": "Hazard status",
+  "assessment.hazard.live": "Live – keep clear",
+  "assessment.hazard.isolated": "Power isolated",
+  "assessment.hazard.cleared": "Cleared",
+  "casualties.title": "People Affected",
+  "casualties.hint": "Leave blank anything you don't know. Blank is not the same as zero.",
+  "casualties.trapped": "Trapped",
+  "casualties.injured": "Injured",
+  "casualties.dead": "Dead",
+  "casualties.missing": "Missing",
+  "casualties.evacuated": "Evacuated",
+  "casualties.triage": "Triage tags (START)",
+  "casualties.triage.immediate": "Red – immediate",
+  "casualties.triage.delayed": "Yellow – delayed",
+  "casualties.triage.minor": "Green – minor",
+  "casualties.triage.expectant": "Black – expectant",
+  "customFields.title": "Additional Details",
+  "customFields.required": "This field is required",
+  "customFields.invalidNumber": "Enter a number",
+  "customFields.selectPlaceholder": "Select an option",
+  "create.notes": "Field Notes (Optional)",
+  "create.notesPlaceholder": "What do you see? Access routes, people at risk, hazards...",
+  "create.notesHint": "Notes are sent to command with the report.",
+  "create.photo": "Photos (Optional)",
+  "create.photoPreview": "Incident preview",
+  "create.photoLimit": "{count} of {max} photos",
+  "create.photoRemove": "Remove photo",
+  "create.photoLocation.body": "No live GPS fix. Your photo was taken at {lat}, {lng}.",
+  "create.photoLocation.takenAt": "Taken {time}.",
+  "create.photoLocation.use": "Use photo location and time",
+  "create.photoLocation.applied": "Using the location and time saved in your photo.",
+  "camera.open": "Take photos",
+  "camera.gallery": "Choose from gallery",
+  "camera.denied": "Camera access is blocked. Attach photos from your gallery instead.",
+  "camera.unavailable": "The camera can't be opened on this device. Attach photos from your gallery instead.",
+  "camera.starting": "Starting camera…",
+  "camera.capture": "Take photo",
+  "camera.burst": "Burst",
+  "camera.torch": "Torch",
+  "camera.retake": "Retake",
+  "camera.retaking": "Retaking photo {number}",
+  "camera.discard": "Discard",
+  "camera.done": "Use {count}",
+  "camera.cancel": "Close camera",
+  "annotate.open": "Mark up",
+  "annotate.edited": "Marked",
+  "annotate.cancel": "Close without saving",
+  "annotate.save": "Done",
+  "annotate.undo": "Undo",
+  "annotate.clear": "Clear all marks",
+  "annotate.loading": "Opening photo…",
+  "annotate.color": "Colour",
+  "annotate.textPlaceholder": "Label text",
+  "annotate.addText": "Add",
+  "annotate.tool.draw": "Draw",
+  "annotate.tool.arrow": "Arrow",
+  "annotate.tool.text": "Text label",
+  "annotate.tool.blur": "Blur",
+  "annotate.hint.draw": "Draw around the hazard with your finger.",
+  "annotate.hint.arrow": "Drag from where the arrow starts to what it points at.",
+  "annotate.hint.text": "Tap where the label should go, then type it.",
+  "annotate.hint.blur": "Rub over faces and number plates to hide them.",
+  "create.save": "Save Incident Locally",
+  "create.confirmVoiceFirst": "Confirm the values filled from your voice report before saving.",
+  "create.offlineHint": "This report will be saved even if you are offline.",
+
+  // Pending reports
+  "reports.title": "Pending Reports",
+  "reports.syncNow": "Sync now",
+  "reports.syncUnavailable": "Offline - sync unavailable",
+  "reports.syncProgress": "Syncing {completed} of {total} reports…",
+  "reports.emptyTitle": "No Reports Yet",
+  "reports.emptyBody": "Create your first incident report to get started",
+  "reports.status.local": "Saved Locally",
+  "reports.status.pending": "Pending",
+  "reports.status.syncing": "Syncing",
+  "reports.status.synced": "Synced",
+  "reports.status.failed": "Failed",
+  "reports.retry": "Retry",
+  "reports.lastError": "Last error: {error}",
+  "reports.attempts": "Attempt {count} of {max}.",
+  "reports.nextRetry": "Retrying automatically at {time}.",
+  "reports.gaveUp": "Stopped retrying after {count} attempts. Tap Retry to try again.",
+  "reports.location": "Location: {lat}, {lng}",
+  "reports.photoAlt": "Incident",
+
+  // Toasts
+  "toast.loggedIn": "Logged in successfully",
+  "toast.accountCreated": "Account created! Please check your email to verify.",
+  "toast.loggedOut": "Logged out",
+  "toast.installUnavailable": "Install prompt unavailable",
+  "toast.installing": "Installing Nodus...",
+  "toast.installDismissed": "Install dismissed",
+  "toast.reportSaved": "Report saved locally",
+  "toast.cannotSyncOffline": "Cannot sync while offline",
+  "toast.cannotRetryOffline": "Cannot retry while offline",
+  "toast.retrying": "Retrying sync...",
+  "install.title": "Install Nodus",
+  "install.subtitle": "Report Immediately",
+  "install.install": "Install",
+  "install.later": "Later",
+};
+
+export type MessageKey = keyof typeof en;
+export type MessageCatalogue = Record<MessageKey, string>;
+
+const si: MessageCatalogue = {
+  "app.name": "Nodus",
+  "app.tagline": "හදිසි ප්‍රතිචාර පද්ධතිය",
+  "common.logout": "ඉවත් වන්න",
+  "common.language": "භාෂාව",
+
+  "severity.1": "සුළු",
+  "severity.2": "අඩු",
+  "severity.3": "මධ්‍යම",
+  "severity.4": "ඉහළ",
+  "severity.5": "අතිශය බරපතල",
+  "severity.badge": "බරපතලකම {level}",
+
+  "connectivity.online": "සබැඳි",
+  "connectivity.offline": "නොබැඳි – දත්ත ස්වයංක්‍රීයව සමමුහුර්ත වේ",
+
+  "login.title": "පිවිසෙන්න",
+  "login.createAccount": "ගිණුමක් සාදන්න",
+  "login.signupSuccessTitle": "ගිණුම සාර්ථකව සෑදුවා!",
+  "login.signupSuccessBody":
+    "ඔබගේ ගිණුම පරිපාලකයෙකුගේ අනුමැතිය සඳහා රැඳී ඇත. අනුමත වූ පසු ඔබට පිවිසිය හැක.",
+  "login.backToLogin": "පිවිසීමට ආපසු",
+  "login.fullName": "සම්පූර්ණ නම",
+  "login.email": "ඊමේල්",
+  "login.password": "මුරපදය",
+  "login.showPassword": "මුරපදය පෙන්වන්න",
+  "login.hidePassword": "මුරපදය සඟවන්න",
+  "login.phone": "දුරකථනය",
+  "login.designation": "තනතුර",
+  "login.region": "ප්‍රදේශය",
+  "login.loading": "පූරණය වෙමින්...",
+  "login.submit": "පිවිසෙන්න",
+  "login.signUp": "ලියාපදිංචි වන්න",
+  "login.needAccount": "ගිණුමක් නැද්ද? ලියාපදිංචි වන්න",
+  "login.haveAccount": "දැනටමත් ගිණුමක් තිබේද? පිවිසෙන්න",
+  "login.offlineHint": "පිවිසුණු පසු, ඔබට යෙදුම නොබැඳිව දිගටම භාවිත කළ හැක",
+  "login.genericError": "දෝෂයක් ඇති විය",
+
+  "home.title": "ක්ෂේත්‍ර ප්‍රතිචාරක",
+  "home.subtitle": "හදිසි ප්‍රතිචාර උපකරණ පුවරුව",
+  "home.createIncident": "සිදුවීම් වාර්තාවක් සාදන්න",
+  "home.createIncidentHint": "ස්ථානයේදීම සිදුවීම් සටහන් කරන්න",
+  "home.pendingReports": "පොරොත්තු වාර්තා",
+  "home.pendingReportsHint": "සබැඳි වූ විට සමාලෝචනය කර සමමුහුර්ත කරන්න",
+  "home.nearbyAlerts": "අවට අනතුරු ඇඟවීම්",
+  "home.withinKm": "කි.මී. {km} ඇතුළත",
+  "home.viewOnMap": "සිතියමේ බලන්න",
+  "home.myReports": "මගේ වාර්තා",
+  "home.noReports": "වාර්තා හමු නොවීය.",
+  "home.statusPending": "පොරොත්තුවෙන්",
+  "home.statusRead": "කියවා ඇත",
+  "home.acknowledge": "යැවීම පිළිගන්න",
+  "home.statusResponding": "ප්‍රතිචාර දක්වමින්",
+  "home.assignedToUnit": "ඔබේ ඒකකය",
+
+  "workflow.status.Active": "සක්‍රීය",
+  "workflow.status.Dispatched": "යවා ඇත",
+  "workflow.status.Responding": "ප්‍රතිචාර දක්වමින්",
+  "workflow.status.Resolved": "විසඳා ඇත",
+  "workflow.alreadyInStatus": "සිද්ධිය දැනටමත් {status} තත්ත්වයේ ඇත",
+  "workflow.invalidTransition": "සිද්ධියක් {from} සිට {to} දක්වා වෙනස් කළ නොහැක",
+  "workflow.roleRequired.dispatch": "සිද්ධියකට කණ්ඩායම් යැවිය හැක්කේ අණදෙන නිලධාරීන්ට පමණි",
+  "workflow.roleRequired.acknowledge": "යැවීමක් පිළිගත හැක්කේ ප්‍රතිචාර කණ්ඩායම්වලට හෝ අණදෙන නිලධාරීන්ට පමණි",
+  "workflow.roleRequired.resolve": "සිද්ධියක් විසඳූ ලෙස සලකුණු කළ හැක්කේ අණදෙන නිලධාරීන්ට පමණි",
+  "workflow.roleRequired.reopen": "සිද්ධියක් නැවත විවෘත කළ හැක්කේ අණදෙන නිලධාරීන්ට පමණි",
+  "workflow.reasonRequired.dispatch": "කණ්ඩායම් යැවීමට හේතුවක් අවශ්‍යයි",
+  "workflow.reasonRequired.acknowledge": "යැවීම පිළිගැනීමට හේතුවක් අවශ්‍යයි",
+  "workflow.reasonRequired.resolve": "සිද්ධිය විසඳීමට හේතුවක් අවශ්‍යයි",
+  "workflow.reasonRequired.reopen": "සිද්ධිය නැවත විවෘත කිරීමට හේතුවක් අවශ්‍යයි",
+  "workflow.notOnServer": "මෙම වාර්තාව තවම සේවාදායකයට ළඟා වී නැති නිසා එහි තත්ත්වය වෙනස් කළ නොහැක.",
+  "workflow.notOnBoard": "මෙම සිද්ධිය තවදුරටත් ලැයිස්තුවේ නැත.",
+
+  "create.title": "සිදුවීම් වාර්තාවක් සාදන්න",
+  "create.voiceTitle": "හඬ වාර්තාව",
+  "create.voiceHint": "සිදුවීම විස්තර කරන්න. වර්ගය සහ බරපතලකම ඔබට පරීක්ෂා කිරීමට පුරවනු ලැබේ.",
+  "create.voiceStart": "හඬ වාර්තාව අරඹන්න",
+  "create.voiceStop": "පටිගත කිරීම නවත්වන්න",
+  "create.voiceListening": "සවන් දෙමින්...",
+  "create.voiceConfirm": "හඬෙන් පුරවා ඇත ({percent}% විශ්වාසයි). තහවුරු කරන්න, නැතහොත් වෙනත් අගයක් තෝරන්න.",
+  "create.voiceAlsoMentioned": "සඳහන් වූ අනෙක්: {types}",
+  "create.confirm": "තහවුරු කරන්න",
+  "create.incidentType": "සිදුවීමේ වර්ගය",
+  "create.selectIncidentType": "සිදුවීමේ වර්ගය තෝරන්න",
+  "create.severity": "බරපතලකමේ මට්ටම",
+  "create.severityHint": "තත්ත්වයට වඩාත්ම ගැළපෙන බරපතලකම තෝරන්න.",
+  "create.location": "ස්ථානය",
+  "create.capturingLocation": "ස්ථානය ලබා ගනිමින්...",
+  "create.mapOffline": "නොබැඳිව සිතියම නොපෙන්වයි",
+  "create.coordinates": "ඛණ්ඩාංක: {lat}, {lng}",
+  "create.cachedLocation": "සුරකින ලද (නොබැඳි)",
+  "create.locationCaptured": "ස්ථානය ලබා ගත්තා. අවශ්‍ය නම් යාවත්කාලීන කිරීමට “ස්ථානය ලබා ගන්න” ඔබන්න.",
+  "create.captureLocation": "ස්ථානය ලබා ගන්න",
+  "create.timestamp": "වේලාව",
+  "assessment.title": "හානි තක්සේරුව",
+  "assessment.hint": "ඔබට නැවත ඇමතීමකින් තොරව අණදෙන මධ්‍යස්ථානයට තීරණ ගැනීමට උපකාරී අමතර විස්තර (විකල්ප).",
+  "assessment.waterDepth": "ජල ගැඹුර (සෙ.මී.)",
+  "assessment.waterTrend": "ජල මට්ටම",
+  "assessment.trend.rising": "ඉහළ යමින්",
+  "assessment.trend.steady": "ස්ථාවරයි",
+  "assessment.trend.falling": "පහළ බසිමින්",
+  "assessment.roadPassable": "මාර්ගය ගමන් කළ හැකිද?",
+  "assessment.passable.yes": "ගමන් කළ හැක",
+  "assessment.passable.no": "අවහිරයි",
+  "assessment.vehicles": "ගමන් කළ හැකි වාහන මොනවාද?",
+  "assessment.vehicle.pedestrian": "පයින්",
+  "assessment.vehicle.motorcycle": "යතුරුපැදි",
+  "assessment.vehicle.car": "මෝටර් රථ / වෑන්",
+  "assessment.vehicle.truck": "ලොරි / බස්",
+  "assessment.vehicle.emergency": "හදිසි සේවා වාහන",
+  "assessment.buildings": "හානි වූ ගොඩනැගිලි ගණන",
+  "assessment.hazard": "අනතුරු තත්ත්වය",
+  "assessment.hazard.live": "විදුලිය ඇත – ළං නොවන්න",
+  "assessment.hazard.isolated": "විදුලිය විසන්ධි කර ඇත",
+  "assessment.hazard.cleared": "නිරාකරණය කර ඇත",
+  "casualties.title": "බලපෑමට ලක් වූ පුද්ගලයින්",
+  "casualties.hint": "නොදන්නා දේ හිස්ව තබන්න. හිස් යනු ශුන්‍ය නොවේ.",
+  "casualties.trapped": "සිරවී සිටින",
+  "casualties.injured": "තුවාල ලැබූ",
+  "casualties.dead": "මියගිය",
+  "casualties.missing": "අතුරුදහන්",
+  "casualties.evacuated": "ඉවත් කළ",
+  "casualties.triage": "ප්‍රමුඛතා ටැග් (START)",
+  "casualties.triage.immediate": "රතු – වහාම",
+  "casualties.triage.delayed": "කහ – ප්‍රමාද කළ හැකි",
+  "casualties.triage.minor": "කොළ – සුළු",
+  "casualties.triage.expectant": "කළු – බලාපොරොත්තු රහිත",
+  "customFields.title": "අමතර විස්තර",
+  "customFields.required": "මෙම ක්ෂේත්‍රය අනිවාර්යයි",
+  "customFields.invalidNumber": "අංකයක් ඇතුළත් කරන්න",
+  "customFields.selectPlaceholder": "විකල්පයක් තෝරන්න",
+  "create.notes": "ක්ෂේත්‍ර සටහන් (අත්‍යවශ්‍ය නැත)",
+  "create.notesPlaceholder": "ඔබ දකින්නේ කුමක්ද? ප්‍රවේශ මාර්ග, අවදානමේ සිටින අය, අනතුරු...",
+  "create.notesHint": "සටහන් වාර්තාව සමඟ අණ මධ්‍යස්ථානයට යවනු ලැබේ.",
+  "create.photo": "ඡායාරූප (අත්‍යවශ්‍ය නැත)",
+  "create.photoPreview": "සිදුවීමේ පෙරදසුන",
+  "create.photoLimit": "ඡායාරූප {max} න් {count}",
+  "create.photoRemove": "ඡායාරූපය ඉවත් කරන්න",
+  "create.photoLocation.body": "සජීවී GPS ස්ථානයක් නැත. ඔබේ ඡායාරූපය ගත්තේ {lat}, {lng} හිදීය.",
+  "create.photoLocation.takenAt": "ගත් වේලාව {time}.",
+  "create.photoLocation.use": "ඡායාරූපයේ ස්ථානය සහ වේලාව භාවිතා කරන්න",
+  "create.photoLocation.applied": "ඔබේ ඡායාරූපයේ සුරකින ලද ස්ථානය සහ වේලාව භාවිතා කරයි.",
+  "camera.open": "ඡායාරූප ගන්න",
+  "camera.gallery": "ගැලරියෙන් තෝරන්න",
+  "camera.denied": "කැමරාවට ප්‍රවේශය අවහිර කර ඇත. ඒ වෙනුවට ගැලරියෙන් ඡායාරූප අමුණන්න.",
+  "camera.unavailable": "මෙම උපාංගයේ කැමරාව විවෘත කළ නොහැක. ඒ වෙනුවට ගැලරියෙන් ඡායාරූප අමුණන්න.",
+  "camera.starting": "කැමරාව ආරම්භ වෙමින්…",
+  "camera.capture": "ඡායාරූපය ගන්න",
+  "camera.burst": "අඛණ්ඩ",
+  "camera.torch": "විදුලි පන්දම",
+  "camera.retake": "නැවත ගන්න",
+  "camera.retaking": "ඡායාරූපය {number} නැවත ගනිමින්",
+  "camera.discard": "ඉවත් කරන්න",
+  "camera.done": "{count} භාවිතා කරන්න",
+  "camera.cancel": "කැමරාව වසන්න",
+  "annotate.open": "සලකුණු කරන්න",
+  "annotate.edited": "සලකුණු කළා",
+  "annotate.cancel": "සුරැකීමෙන් තොරව වසන්න",
+  "annotate.save": "අවසන්",
+  "annotate.undo": "අහෝසි කරන්න",
+  "annotate.clear": "සියලු සලකුණු මකන්න",
+  "annotate.loading": "ඡායාරූපය විවෘත වෙමින්…",
+  "annotate.color": "වර්ණය",
+  "annotate.textPlaceholder": "ලේබල් පෙළ",
+  "annotate.addText": "එක් කරන්න",
+  "annotate.tool.draw": "අඳින්න",
+  "annotate.tool.arrow": "ඊතලය",
+  "annotate.tool.text": "පෙළ ලේබලය",
+  "annotate.tool.blur": "බොඳ කරන්න",
+  "annotate.hint.draw": "ඇඟිල්ලෙන් අනතුර වටා අඳින්න.",
+  "annotate.hint.arrow": "ඊතලය ආරම්භ වන තැන සිට එය පෙන්වන දෙයට අදින්න.",
+  "annotate.hint.text": "ලේබලය යා යුතු තැන තට්ටු කර, පසුව ටයිප් කරන්න.",
+  "annotate.hint.blur": "මුහුණු සහ අංක තහඩු සැඟවීමට ඒවා මත අතුල්ලන්න.",
+  "create.save": "සිදුවීම උපාංගයේ සුරකින්න",
+  "create.confirmVoiceFirst": "සුරැකීමට පෙර හඬ වාර්තාවෙන් පුරවූ අගයන් තහවුරු කරන්න.",
+  "create.offlineHint": "ඔබ නොබැඳිව සිටියත් මෙම වාර්තාව සුරැකෙනු ඇත.",
+
+  "reports.title": "පොරොත්තු වාර්තා",
+  "reports.syncNow": "දැන් සමමුහුර්ත කරන්න",
+  "reports.syncUnavailable": "නොබැඳි - සමමුහුර්ත කළ නොහැක",
+  "reports.syncProgress": "වාර්තා {total} න් {completed} ක් සමමුහුර්ත වෙමින්…",
+  "reports.emptyTitle": "තවම වාර්තා නැත",
+  "reports.emptyBody": "ආරම්භ කිරීමට ඔබගේ පළමු සිදුවීම් වාර්තාව සාදන්න",
+  "reports.status.local": "උපාංගයේ සුරකින ලදී",
+  "reports.status.pending": "පොරොත්තුවෙන්",
+  "reports.status.syncing": "සමමුහුර්ත වෙමින්",
+  "reports.status.synced": "සමමුහුර්තයි",
+  "reports.status.failed": "අසාර්ථකයි",
+  "reports.retry": "නැවත උත්සාහ කරන්න",
+  "reports.lastError": "අවසන් දෝෂය: {error}",
+  "reports.attempts": "උත්සාහය {max} න් {count}.",
+  "reports.nextRetry": "{time} ට ස්වයංක්‍රීයව නැවත උත්සාහ කරයි.",
+  "reports.gaveUp": "උත්සාහ {count} කට පසු නැවත උත්සාහ කිරීම නැවැත්විණි. නැවත උත්සාහ කිරීමට තට්ටු කරන්න.",
+  "reports.location": "ස්ථානය: {lat}, {lng}",
+  "reports.photoAlt": "සිදුවීම",
+
+  "toast.loggedIn": "සාර්ථකව පිවිසුණා",
+  "toast.accountCreated": "ගිණුම සෑදුවා! තහවුරු කිරීමට ඔබගේ ඊමේල් පරීක්ෂා කරන්න.",
+  "toast.loggedOut": "ඉවත් විය",
+  "toast.installUnavailable": "ස්ථාපන විමසුම නොමැත",
+  "toast.installing": "Nodus ස්ථාපනය වෙමින්...",
+  "toast.installDismissed": "ස්ථාපනය ඉවත් කළා",
+  "toast.reportSaved": "වාර්තාව උපාංගයේ සුරැකුණා",
+  "toast.cannotSyncOffline": "නොබැඳිව සමමුහුර්ත කළ නොහැක",
+  "toast.cannotRetryOffline": "නොබැඳිව නැවත උත්සාහ කළ නොහැක",
+  "toast.retrying": "නැවත සමමුහුර්ත කරමින්...",
+  "install.title": "Nodus ස්ථාපනය කරන්න",
+  "install.subtitle": "වහාම වාර්තා කරන්න",
+  "install.install": "ස්ථාපනය",
+  "install.later": "පසුව",
+};
+
+const ta: MessageCatalogue = {
+  "app.name": "Nodus",
+  "app.tagline": "அவசரகால பதிலளிப்பு அமைப்பு",
+  "common.logout": "வெளியேறு",
+  "common.language": "மொழி",
+
+  "severity.1": "சிறிய",
+  "severity.2": "குறைவு",
+  "severity.3": "மிதமான",
+  "severity.4": "அதிகம்",
+  "severity.5": "மிக ஆபத்தான",
+  "severity.badge": "தீவிரம் {level}",
+
+  "connectivity.online": "இணைப்பில்",
+  "connectivity.offline": "இணைப்பு இல்லை – தரவு தானாக ஒத்திசைக்கப்படும்",
+
+  "login.title": "உள்நுழை",
+  "login.createAccount": "கணக்கை உருவாக்கு",
+  "login.signupSuccessTitle": "கணக்கு வெற்றிகரமாக உருவாக்கப்பட்டது!",
+  "login.signupSuccessBody":
+    "உங்கள் கணக்கு நிர்வாகியின் ஒப்புதலுக்காகக் காத்திருக்கிறது. ஒப்புதல் கிடைத்ததும் உள்நுழையலாம்.",
+  "login.backToLogin": "உள்நுழைவுக்குத் திரும்பு",
+  "login.fullName": "முழுப் பெயர்",
+  "login.email": "மின்னஞ்சல்",
+  "login.password": "கடவுச்சொல்",
+  "login.showPassword": "கடவுச்சொல்லைக் காட்டு",
+  "login.hidePassword": "கடவுச்சொல்லை மறை",
+  "login.phone": "தொலைபேசி",
+  "login.designation": "பதவி",
+  "login.region": "பிரதேசம்",
+  "login.loading": "ஏற்றுகிறது...",
+  "login.submit": "உள்நுழை",
+  "login.signUp": "பதிவு செய்",
+  "login.needAccount": "கணக்கு இல்லையா? பதிவு செய்யுங்கள்",
+  "login.haveAccount": "ஏற்கனவே கணக்கு உள்ளதா? உள்நுழையுங்கள்",
+  "login.offlineHint": "உள்நுழைந்த பின், இணைப்பு இல்லாமலும் செயலியைப் பயன்படுத்தலாம்",
+  "login.genericError": "பிழை ஏற்பட்டது",
+
+  "home.title": "களப் பதிலளிப்பாளர்",
+  "home.subtitle": "அவசரகால பதிலளிப்பு தகவல் பலகை",
+  "home.createIncident": "சம்பவ அறிக்கையை உருவாக்கு",
+  "home.createIncidentHint": "சம்பவ இடத்திலேயே பதிவு செய்யுங்கள்",
+  "home.pendingReports": "நிலுவையிலுள்ள அறிக்கைகள்",
+  "home.pendingReportsHint": "இணைப்பில் இருக்கும்போது சரிபார்த்து ஒத்திசைக்கவும்",
+  "home.nearbyAlerts": "அருகிலுள்ள எச்சரிக்கைகள்",
+  "home.withinKm": "{km} கி.மீ. க்குள்",
+  "home.viewOnMap": "வரைபடத்தில் பார்",
+  "home.myReports": "எனது அறிக்கைகள்",
+  "home.noReports": "அறிக்கைகள் எதுவும் இல்லை.",
+  "home.statusPending": "நிலுவையில்",
+  "home.statusRead": "படிக்கப்பட்டது",
+  "home.acknowledge": "அனுப்புதலை ஏற்றுக்கொள்",
+  "home.statusResponding": "பதிலளிக்கிறது",
+  "home.assignedToUnit": "உங்கள் அணி",
+
+  "workflow.status.Active": "செயலில்",
+  "workflow.status.Dispatched": "அனுப்பப்பட்டது",
+  "workflow.status.Responding": "பதிலளிக்கிறது",
+  "workflow.status.Resolved": "தீர்க்கப்பட்டது",
+  "workflow.alreadyInStatus": "சம்பவம் ஏற்கனவே {status} நிலையில் உள்ளது",
+  "workflow.invalidTransition": "சம்பவத்தை {from} நிலையிலிருந்து {to} நிலைக்கு மாற்ற முடியாது",
+  "workflow.roleRequired.dispatch": "கட்டளை அதிகாரிகள் மட்டுமே சம்பவத்திற்கு அணியை அனுப்ப முடியும்",
+  "workflow.roleRequired.acknowledge": "பதிலளிப்பு அணிகள் அல்லது கட்டளை அதிகாரிகள் மட்டுமே அனுப்புதலை ஏற்க முடியும்",
+  "workflow.roleRequired.resolve": "கட்டளை அதிகாரிகள் மட்டுமே சம்பவத்தைத் தீர்க்கப்பட்டதாகக் குறிக்க முடியும்",
+  "workflow.roleRequired.reopen": "கட்டளை அதிகாரிகள் மட்டுமே சம்பவத்தை மீண்டும் திறக்க முடியும்",
+  "workflow.reasonRequired.dispatch": "அணியை அனுப்ப ஒரு காரணம் தேவை",
+  "workflow.reasonRequired.acknowledge": "அனுப்புதலை ஏற்க ஒரு காரணம் தேவை",
+  "workflow.reasonRequired.resolve": "சம்பவத்தைத் தீர்க்க ஒரு காரணம் தேவை",
+  "workflow.reasonRequired.reopen": "சம்பவத்தை மீண்டும் திறக்க ஒரு காரணம் தேவை",
+  "workflow.notOnServer": "இந்த அறிக்கை இன்னும் சேவையகத்தை அடையவில்லை, எனவே அதன் நிலையை மாற்ற முடியாது.",
+  "workflow.notOnBoard": "இந்த சம்பவம் இனி பட்டியலில் இல்லை.",
+
+  "create.title": "சம்பவ அறிக்கையை உருவாக்கு",
+  "create.voiceTitle": "குரல் அறிக்கை",
+  "create.voiceHint": "சம்பவத்தை விவரியுங்கள். வகையும் தீவிரமும் நீங்கள் சரிபார்க்க நிரப்பப்படும்.",
+  "create.voiceStart": "குரல் அறிக்கையைத் தொடங்கு",
+  "create.voiceStop": "பதிவை நிறுத்து",
+  "create.voiceListening": "கேட்கிறது...",
+  "create.voiceConfirm": "குரலிலிருந்து நிரப்பப்பட்டது ({percent}% உறுதி). உறுதிப்படுத்துங்கள் அல்லது வேறு மதிப்பைத் தேர்ந்தெடுங்கள்.",
+  "create.voiceAlsoMentioned": "மேலும் குறிப்பிடப்பட்டவை: {types}",
+  "create.confirm": "உறுதிப்படுத்து",
+  "create.incidentType": "சம்பவ வகை",
+  "create.selectIncidentType": "சம்பவ வகையைத் தேர்ந்தெடு",
+  "create.severity": "தீவிர நிலை",
+  "create.severityHint": "நிலைமைக்கு மிகப் பொருத்தமான தீவிரத்தைத் தேர்ந்தெடுங்கள்.",
+  "create.location": "இருப்பிடம்",
+  "create.capturingLocation": "இருப்பிடத்தைப் பெறுகிறது...",
+  "create.mapOffline": "இணைப்பு இல்லாதபோது வரைபடம் கிடைக்காது",
+  "create.coordinates": "ஆள்கூறுகள்: {lat}, {lng}",
+  "create.cachedLocation": "சேமிக்கப்பட்டது (இணைப்பு இல்லை)",
+  "create.locationCaptured": "இருப்பிடம் பெறப்பட்டது. தேவைப்பட்டால் புதுப்பிக்க “இருப்பிடத்தைப் பெறு” என்பதைத் தட்டுங்கள்.",
+  "create.captureLocation": "இருப்பிடத்தைப் பெறு",
+  "create.timestamp": "நேரம்",
+  "assessment.title": "சேத மதிப்பீடு",
+  "assessment.hint": "உங்களை மீண்டும் அழைக்காமல் கட்டளை மையம் முடிவெடுக்க உதவும் கூடுதல் விவரங்கள் (விருப்பத்தேர்வு).",
+  "assessment.waterDepth": "நீர் ஆழம் (செ.மீ.)",
+  "assessment.waterTrend": "நீர் மட்டம்",
+  "assessment.trend.rising": "உயர்கிறது",
+  "assessment.trend.steady": "நிலையாக உள்ளது",
+  "assessment.trend.falling": "குறைகிறது",
+  "assessment.roadPassable": "வீதியில் பயணிக்க முடியுமா?",
+  "assessment.passable.yes": "பயணிக்கலாம்",
+  "assessment.passable.no": "தடைப்பட்டுள்ளது",
+  "assessment.vehicles": "எந்த வாகனங்கள் செல்ல முடியும்?",
+  "assessment.vehicle.pedestrian": "நடந்து",
+  "assessment.vehicle.motorcycle": "மோட்டார் சைக்கிள்",
+  "assessment.vehicle.car": "கார் / வேன்",
+  "assessment.vehicle.truck": "லொறி / பேருந்து",
+  "assessment.vehicle.emergency": "அவசர வாகனங்கள்",
+  "assessment.buildings": "பாதிக்கப்பட்ட கட்டடங்கள்",
+  "assessment.hazard": "ஆபத்து நிலை",
+  "assessment.hazard.live": "மின்சாரம் உள்ளது – அருகே செல்லாதீர்",
+  "assessment.hazard.isolated": "மின்சாரம் துண்டிக்கப்பட்டது",
+  "assessment.hazard.cleared": "சரிசெய்யப்பட்டது",
+  "casualties.title": "பாதிக்கப்பட்ட மக்கள்",
+  "casualties.hint": "தெரியாதவற்றை வெறுமையாக விடவும். வெறுமை என்பது பூஜ்ஜியம் அல்ல.",
+  "casualties.trapped": "சிக்கியுள்ளவர்கள்",
+  "casualties.injured": "காயமடைந்தவர்கள்",
+  "casualties.dead": "இறந்தவர்கள்",
+  "casualties.missing": "காணாமல் போனவர்கள்",
+  "casualties.evacuated": "வெளியேற்றப்பட்டவர்கள்",
+  "casualties.triage": "முன்னுரிமைக் குறிச்சீட்டுகள் (START)",
+  "casualties.triage.immediate": "சிவப்பு – உடனடி",
+  "casualties.triage.delayed": "மஞ்சள் – தாமதிக்கலாம்",
+  "casualties.triage.minor": "பச்சை – சிறியது",
+  "casualties.triage.expectant": "கருப்பு – நம்பிக்கையற்றது",
+  "customFields.title": "கூடுதல் விவரங்கள்",
+  "customFields.required": "இந்தப் புலம் கட்டாயமானது",
+  "customFields.invalidNumber": "ஒரு எண்ணை உள்ளிடவும்",
+  "customFields.selectPlaceholder": "ஒரு விருப்பத்தைத் தேர்ந்தெடு",
+  "create.notes": "களக் குறிப்புகள் (விருப்பத்திற்குரியது)",
+  "create.notesPlaceholder": "நீங்கள் என்ன காண்கிறீர்கள்? அணுகும் பாதைகள், ஆபத்திலுள்ளவர்கள், அபாயங்கள்...",
+  "create.notesHint": "குறிப்புகள் அறிக்கையுடன் கட்டளை மையத்துக்கு அனுப்பப்படும்.",
+  "create.photo": "புகைப்படங்கள் (விருப்பத்திற்குரியது)",
+  "create.photoPreview": "சம்பவ முன்னோட்டம்",
+  "create.photoLimit": "{max} இல் {count} புகைப்படங்கள்",
+  "create.photoRemove": "புகைப்படத்தை நீக்கு",
+  "create.photoLocation.body": "நேரடி GPS இருப்பிடம் இல்லை. உங்கள் புகைப்படம் {lat}, {lng} இல் எடுக்கப்பட்டது.",
+  "create.photoLocation.takenAt": "எடுக்கப்பட்ட நேரம் {time}.",
+  "create.photoLocation.use": "புகைப்படத்தின் இருப்பிடம் மற்றும் நேரத்தைப் பயன்படுத்து",
+  "create.photoLocation.applied": "உங்கள் புகைப்படத்தில் சேமிக்கப்பட்ட இருப்பிடமும் நேரமும் பயன்படுத்தப்படுகின்றன.",
+  "camera.open": "புகைப்படங்கள் எடு",
+  "camera.gallery": "கேலரியிலிருந்து தேர்ந்தெடு",
+  "camera.denied": "கேமரா அணுகல் தடுக்கப்பட்டுள்ளது. பதிலாக கேலரியிலிருந்து புகைப்படங்களை இணைக்கவும்.",
+  "camera.unavailable": "இந்தச் சாதனத்தில் கேமராவைத் திறக்க முடியவில்லை. பதிலாக கேலரியிலிருந்து புகைப்படங்களை இணைக்கவும்.",
+  "camera.starting": "கேமரா தொடங்குகிறது…",
+  "camera.capture": "புகைப்படம் எடு",
+  "camera.burst": "தொடர்",
+  "camera.torch": "டார்ச்",
+  "camera.retake": "மீண்டும் எடு",
+  "camera.retaking": "புகைப்படம் {number} மீண்டும் எடுக்கப்படுகிறது",
+  "camera.discard": "நிராகரி",
+  "camera.done": "{count} பயன்படுத்து",
+  "camera.cancel": "கேமராவை மூடு",
+  "annotate.open": "குறியிடு",
+  "annotate.edited": "குறியிடப்பட்டது",
+  "annotate.cancel": "சேமிக்காமல் மூடு",
+  "annotate.save": "முடிந்தது",
+  "annotate.undo": "செயல்தவிர்",
+  "annotate.clear": "எல்லா குறிகளையும் அழி",
+  "annotate.loading": "புகைப்படம் திறக்கப்படுகிறது…",
+  "annotate.color": "நிறம்",
+  "annotate.textPlaceholder": "லேபிள் உரை",
+  "annotate.addText": "சேர்",
+  "annotate.tool.draw": "வரை",
+  "annotate.tool.arrow": "அம்புக்குறி",
+  "annotate.tool.text": "உரை லேபிள்",
+  "annotate.tool.blur": "மங்கலாக்கு",
+  "annotate.hint.draw": "விரலால் ஆபத்தைச் சுற்றி வரையவும்.",
+  "annotate.hint.arrow": "அம்புக்குறி தொடங்கும் இடத்திலிருந்து அது சுட்டும் பொருள் வரை இழுக்கவும்.",
+  "annotate.hint.text": "லேபிள் வர வேண்டிய இடத்தில் தட்டி, பின் தட்டச்சு செய்யவும்.",
+  "annotate.hint.blur": "முகங்களையும் வாகன இலக்கத் தகடுகளையும் மறைக்க அவற்றின் மேல் தேய்க்கவும்.",
+  "create.save": "சம்பவத்தைச் சாதனத்தில் சேமி",
+  "create.confirmVoiceFirst": "சேமிக்கும் முன் குரல் அறிக்கையிலிருந்து நிரப்பப்பட்ட மதிப்புகளை உறுதிப்படுத்துங்கள்.",
+  "create.offlineHint": "இணைப்பு இல்லாவிட்டாலும் இந்த அறிக்கை சேமிக்கப்படும்.",
+
+  "reports.title": "நிலுவையிலுள்ள அறிக்கைகள்",
+  "reports.syncNow": "இப்போது ஒத்திசை",
+  "reports.syncUnavailable": "இணைப்பு இல்லை - ஒத்திசைக்க முடியாது",
+  "reports.syncProgress": "{total} அறிக்கைகளில் {completed} ஒத்திசைக்கப்படுகிறது…",
+  "reports.emptyTitle": "இன்னும் அறிக்கைகள் இல்லை",
+  "reports.emptyBody": "தொடங்க உங்கள் முதல் சம்பவ அறிக்கையை உருவாக்குங்கள்",
+  "reports.status.local": "சாதனத்தில் சேமிக்கப்பட்டது",
+  "reports.status.pending": "நிலுவையில்",
+  "reports.status.syncing": "ஒத்திசைக்கிறது",
+  "reports.status.synced": "ஒத்திசைக்கப்பட்டது",
+  "reports.status.failed": "தோல்வி",
+  "reports.retry": "மீண்டும் முயல்",
+  "reports.lastError": "கடைசி பிழை: {error}",
+  "reports.attempts": "முயற்சி {count} / {max}.",
+  "reports.nextRetry": "{time} இல் தானாக மீண்டும் முயலும்.",
+  "reports.gaveUp": "{count} முயற்சிகளுக்குப் பின் மீண்டும் முயல்வது நிறுத்தப்பட்டது. மீண்டும் முயல தட்டவும்.",
+  "reports.location": "இருப்பிடம்: {lat}, {lng}",
+  "reports.photoAlt": "சம்பவம்",
+
+  "toast.loggedIn": "வெற்றிகரமாக உள்நுழைந்தீர்கள்",
+  "toast.accountCreated": "கணக்கு உருவாக்கப்பட்டது! சரிபார்க்க உங்கள் மின்னஞ்சலைப் பாருங்கள்.",
+  "toast.loggedOut": "வெளியேறினீர்கள்",
+  "toast.installUnavailable": "நிறுவல் கோரிக்கை கிடைக்கவில்லை",
+  "toast.installing": "Nodus நிறுவப்படுகிறது...",
+  "toast.installDismissed": "நிறுவல் நிராகரிக்கப்பட்டது",
+  "toast.reportSaved": "அறிக்கை சாதனத்தில் சேமிக்கப்பட்டது",
+  "toast.cannotSyncOffline": "இணைப்பு இல்லாமல் ஒத்திசைக்க முடியாது",
+  "toast.cannotRetryOffline": "இணைப்பு இல்லாமல் மீண்டும் முயல முடியாது",
+  "toast.retrying": "மீண்டும் ஒத்திசைக்கிறது...",
+  "install.title": "Nodus ஐ நிறுவு",
+  "install.subtitle": "உடனடியாக அறிவியுங்கள்",
+  "install.install": "நிறுவு",
+  "install.later": "பின்னர்",
+};
+
+export const MESSAGES: Record<Language, MessageCatalogue> = { en, si, ta };
+
+export type MessageParams = Record<string, string | number>;
+
+/** Fills `{name}` placeholders, falling back to English for a missing message */
+export function formatMessage(language: Language, key: MessageKey, params?: MessageParams): string {
+  const template = MESSAGES[language][key] ?? MESSAGES.en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
@@ -0,0 +1,75 @@
+import { db } from '../../db/db';
+import type { ResponseUnit, UnitAssignment } from '../../types/incident';
+import { getBackend } from '../backend/backend';
+
+/**
+ * Dexie copy of the response unit registry and open assignments. The dashboard reads
+ * availability from it, and the field app which incidents the responder's unit is on.
+ */
+
+/** Replaces the cached units and open assignments with the server's */
+export async function refreshDispatchBoard(): Promise<void> {
+    const { dispatch } = getBackend();
+    const [units, assignments] = await Promise.all([dispatch.listUnits(), dispatch.listActiveAssignments()]);
+
+    await db.transaction('rw', db.responseUnits, db.unitAssignments, async () => {
+        await db.responseUnits.clear();
+        await db.responseUnits.bulkPut(units);
+        await db.unitAssignments.clear();
+        await db.unitAssignments.bulkPut(assignments);
+    });
+    console.log(`[Dispatch] Cached ${units.length} units, ${assignments.length} open assignments.`);
+}
+
+/**
+ * Refreshes the board now, whenever a unit or assignment changes, and when the
+ * connection returns. `onChange` runs after each live change, e.g. to fetch the audit
+ * events it wrote. Returns a function that stops watching.
+ */
+export function watchDispatchBoard(onChange?: () => void): () => void {
+    let refreshing = Promise.resolve();
+    const refresh = () => {
+        if (!navigator.onLine) return;
+        refreshing = refreshing
+            .then(refreshDispatchBoard)
+            .catch((err) => console.warn('[Dispatch] Board refresh failed, showing cached units:', err));
+    };
+
+    refresh();
+    window.addEventListener('online', refresh);
+    const unsubscribe = getBackend().dispatch.subscribe(() => {
+        refresh();
+        onChange?.();
+    });
+
+    return () => {
+        window.removeEventListener('online', refresh);
+        unsubscribe();
+    };
+}
+
+/** Creates or updates a unit (commanders only) and mirrors it locally */
+export async function saveResponseUnit(unit: ResponseUnit): Promise<ResponseUnit> {
+    const saved = await getBackend().dispatch.saveUnit(unit);
+    await db.responseUnits.put(saved);
+    return saved;
+}
+
+/**
+ * Commits each unit to the incident, in order. Resolves with the assignments made;
+ * stops at the first failure, keeping the ones already made.
+ */
+export async function assignUnits(incidentId: string, unitIds: string[]): Promise<UnitAssignment[]> {
+    const assignments: UnitAssignment[] = [];
+    for (const unitId of unitIds) {
+        const assignment = await getBackend().dispatch.assignUnit(incidentId, unitId);
+        await db.unitAssignments.put(assignment);
+        assignments.push(assignment);
+    }
+    return assignments;
+}
+
+export async function releaseUnitAssignment(assignmentId: string): Promise<void> {
+    await getBackend().dispatch.releaseAssignment(assignmentId);
+    await db.unitAssignments.delete(assignmentId);
+}
@@ -0,0 +1,146 @@
+import { db } from '../../db/db';
+import type { Incident } from '../../types/incident';
+import { getBackend } from '../backend/backend';
+
+/**
+ * Dexie copy of the incidents fetched from the backend. The provider renders from it, so
+ * a reload during an outage still shows the last known picture.
+ */
+
+export interface CacheOwner {
+    userId: string;
+    isAdmin: boolean;
+}
+
+const latest = (a: string | undefined, b: string | undefined) => (!a || (b && b > a) ? b : a);
+
+/**
+ * The `updated_at` to fetch changes after, or undefined when a full fetch is needed.
+ * A cache filled for another user (or another role) is thrown away first.
+ */
+async function getIncidentCacheCursor({ userId, isAdmin }: CacheOwner): Promise<string | undefined> {
+    const meta = await db.cacheMeta.get('incidents');
+    if (meta && meta.userId === userId && meta.isAdmin === isAdmin) return meta.lastUpdatedAt;
+
+    if (meta) {
+        console.log('[IncidentCache] Cache belongs to another session, clearing it.');
+        await db.transaction('rw', db.incidents, db.incidentEvents, db.cacheMeta, async () => {
+            await db.incidents.clear();
+            await db.incidentEvents.clear();
+            await db.cacheMeta.delete('incidents');
+        });
+    }
+    return undefined;
+}
+
+/**
+ * Saves a fetch result. A full fetch replaces the cache, which also drops incidents
+ * deleted on the server; a delta fetch is merged in.
+ */
+async function storeFetchedIncidents(
+    incidents: Incident[],
+    owner: CacheOwner,
+    { isFullFetch }: { isFullFetch: boolean },
+) {
+    await db.transaction('rw', db.incidents, db.cacheMeta, async () => {
+        const meta = await db.cacheMeta.get('incidents');
+        if (isFullFetch) await db.incidents.clear();
+        await db.incidents.bulkPut(incidents);
+
+        let lastUpdatedAt = isFullFetch ? undefined : meta?.lastUpdatedAt;
+        for (const incident of incidents) lastUpdatedAt = latest(lastUpdatedAt, incident.updatedAt);
+
+        await db.cacheMeta.put({
+            id: 'incidents',
+            ...owner,
+            lastUpdatedAt,
+            lastSyncedAt: new Date().toISOString(),
+            lastEventAt: meta?.lastEventAt,
+        });
+    });
+}
+
+/** Drops cached incidents the server no longer returns, e.g. deleted while Realtime was down */
+async function pruneDeletedIncidents(liveIds: Set<string>) {
+    const staleIds = (await db.incidents.toCollection().primaryKeys()).filter((id) => !liveIds.has(id));
+    if (staleIds.length > 0) {
+        console.log(`[IncidentCache] Removing ${staleIds.length} incidents deleted on the server.`);
+        await db.transaction('rw', db.incidents, db.incidentEvents, async () => {
+            await db.incidents.bulkDelete(staleIds);
+            await db.incidentEvents.where('incidentId').anyOf(staleIds).delete();
+        });
+    }
+}
+
+/**
+ * Brings the cache up to date. Fetches everything the first time, then only incidents
+ * changed since the newest cached one.
+ */
+export async function refreshIncidentCache(owner: CacheOwner): Promise<number> {
+    const { incidents: repository } = getBackend();
+    let cursor = await getIncidentCacheCursor(owner);
+    let incidents = await repository.listIncidents(owner, { updatedAfter: cursor });
+
+    if (cursor) {
+        // A delta can't show deletions, so compare IDs. Listed after the delta so an
+        // incident created in between is never mistaken for a deleted one
+        const ids = await repository.listIncidentIds(owner);
+        const liveIds = new Set([...ids, ...incidents.map((incident) => incident.id)]);
+        await pruneDeletedIncidents(liveIds);
+
+        // Nor can it show incidents that came into view unchanged, such as one a
+        // responder's unit was just assigned to, so fetch everything again
+        const cachedIds = new Set(await db.incidents.toCollection().primaryKeys());
+        const fetchedIds = new Set(incidents.map((incident) => incident.id));
+        if (ids.some((id) => !cachedIds.has(id) && !fetchedIds.has(id))) {
+            cursor = undefined;
+            incidents = await repository.listIncidents(owner);
+        }
+    }
+
+    await storeFetchedIncidents(incidents, owner, { isFullFetch: !cursor });
+    console.log(`[IncidentCache] Loaded ${incidents.length} ${cursor ? 'changed ' : ''}incidents.`);
+
+    // The list is still usable without its history, so a failure here isn't one of the fetch
+    await refreshIncidentEvents(owner).catch((err) =>
+        console.warn('[IncidentCache] Audit trail fetch failed, keeping cached events:', err),
+    );
+    return incidents.length;
+}
+
+/**
+ * Fetches audit events newer than the newest cached one. Call after refreshIncidentCache
+ * has settled who the cache belongs to.
+ */
+export async function refreshIncidentEvents(owner: CacheOwner): Promise<number> {
+    const meta = await db.cacheMeta.get('incidents');
+    if (!meta || meta.userId !== owner.userId || meta.isAdmin !== owner.isAdmin) return 0;
+
+    const events = await getBackend().incidents.listIncidentEvents(owner, { after: meta.lastEventAt });
+    if (events.length === 0) return 0;
+
+    await db.transaction('rw', db.incidentEvents, db.cacheMeta, async () => {
+        await db.incidentEvents.bulkPut(events);
+        let lastEventAt = meta.lastEventAt;
+        for (const event of events) lastEventAt = latest(lastEventAt, event.at);
+        await db.cacheMeta.update('incidents', { lastEventAt });
+    });
+    console.log(`[IncidentCache] Loaded ${events.length} audit events.`);
+    return events.length;
+}
+
+export async function isIncidentCached(id: string): Promise<boolean> {
+    return (await db.incidents.where('id').equals(id).count()) > 0;
+}
+
+/** Realtime insert or update, or the row returned by an outbox update */
+export async function putCachedIncident(incident: Incident) {
+    await db.incidents.put(incident);
+}
+
+export async function deleteCachedIncident(id: string) {
+    await db.transaction('rw', db.incidents, db.incidentEvents, async () => {
+        await db.incidents.delete(id);
+        await db.incidentEvents.where('incidentId').equals(id).delete();
+    });
+}
@@ -0,0 +1,48 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { db } from '../../db/db';
+import { getBackend } from '../backend/backend';
+import { enqueueIncidentChange, flushIncidentOutbox } from './incidentOutbox';
+
+// The outbox talks to whatever backend the page uses; here that's a local one in fake IndexedDB
+vi.mock('../backend/backend', async () => {
+    const { createLocalBackend } = await import('../backend/localBackend');
+    const backend = createLocalBackend({ name: 'IncidentOutboxTest' });
+    return { getBackend: () => backend };
+});
+
+describe('flushIncidentOutbox', () => {
+    beforeAll(async () => {
+        // No Web Locks here, so the outbox replays without one
+        vi.stubGlobal('navigator', { onLine: true });
+        await getBackend().auth.signIn('admin@demo.local', 'demo1234');
+    });
+
+    it('sends a change queued after a read marker against the version the marker made', async () => {
+        const now = new Date().toISOString();
+        const incident = await getBackend().incidents.createIncident({
+            localId: crypto.randomUUID(),
+            type: 'Flood',
+            severity: 3,
+            location: { latitude: 6.9, longitude: 79.86 },
+            imageUrls: [],
+            createdAt: now,
+            occurredAt: now,
+        });
+        if (!incident) throw new Error('Incident was not created');
+
+        // Let the clock move on, so applying the read marker changes `updated_at`
+        await new Promise((resolve) => setTimeout(resolve, 5));
+
+        // Both queued offline against the version the dispatcher saw
+        await enqueueIncidentChange(incident.id, { isRead: true });
+        await enqueueIncidentChange(incident.id, { status: 'Dispatched' }, incident.updatedAt);
+
+        const result = await flushIncidentOutbox();
+
+        expect(result).toMatchObject({ applied: 2, conflicted: 0, rejected: 0, stalled: false });
+        expect(await db.outbox.count()).toBe(0);
+        const current = await getBackend().incidents.getIncident(incident.id);
+        expect(current?.incident).toMatchObject({ status: 'Dispatched', isRead: true });
+    });
+});
@@ -0,0 +1,223 @@
+import { db, type IncidentChanges, type OutboxConflict, type OutboxMutation } from '../../db/db';
+import type { Incident } from '../../types/incident';
+import { getBackend } from '../backend/backend';
+import { BackendError } from '../backend/repositories';
+
+/**
+ * Persisted queue of dashboard changes to incidents. Changes are applied to the UI
+ * from the queue straight away and sent to the backend in order; a change the server
+ * refuses is dropped, which rolls it back on screen.
+ *
+ * Each change carries the `updated_at` it was made against and only applies while
+ * the row still has it. If another commander got there first the change is held as
+ * a conflict until this dashboard re-applies or discards it.
+ */
+
+// Held while replaying so two dashboard tabs don't send the same change twice
+const OUTBOX_LOCK = 'incident-outbox';
+
+export interface OutboxFlushHandlers {
+    /** The server accepted the change; `incident` is the updated row. Awaited before the next change is sent */
+    onApplied?: (mutation: OutboxMutation, incident: Incident) => void | Promise<void>;
+    /** The server refused the change; it has been removed from the queue */
+    onRejected?: (mutation: OutboxMutation, error: string) => void;
+    /** Someone else changed the incident first; the change is held for review */
+    onConflict?: (mutation: OutboxMutation, conflict: OutboxConflict) => void;
+}
+
+/** `stalled` means a change couldn't be sent and is still at the head of the queue */
+export interface OutboxFlushResult {
+    applied: number;
+    rejected: number;
+    conflicted: number;
+    stalled: boolean;
+}
+
+class OutboxConflictError extends Error {
+    readonly conflict: OutboxConflict;
+
+    constructor(conflict: OutboxConflict) {
+        super('Incident was changed by someone else');
+        this.conflict = conflict;
+    }
+}
+
+/**
+ * `baseUpdatedAt` is the incident's `updated_at` as this dashboard last saw it;
+ * `reason` is recorded with the change in the incident's audit trail.
+ */
+export async function enqueueIncidentChange(
+    incidentId: string,
+    changes: IncidentChanges,
+    baseUpdatedAt?: string,
+    reason?: string,
+) {
+    await db.outbox.add({ incidentId, changes, baseUpdatedAt, reason, createdAt: new Date().toISOString(), attempts: 0 });
+}
+
+/**
+ * Merged changes still waiting for each incident, oldest first so later ones win.
+ * Conflicted changes are left out, so the incident shows what the server has.
+ */
+export function getPendingChanges(mutations: OutboxMutation[]): Map<string, IncidentChanges> {
+    const pending = new Map<string, IncidentChanges>();
+    for (const mutation of mutations) {
+        if (mutation.conflict) continue;
+        pending.set(mutation.incidentId, { ...pending.get(mutation.incidentId), ...mutation.changes });
+    }
+    return pending;
+}
+
+/** Held changes by incident, oldest first */
+export function getConflicts(mutations: OutboxMutation[]): Map<string, OutboxMutation> {
+    const conflicts = new Map<string, OutboxMutation>();
+    for (const mutation of mutations) {
+        if (mutation.conflict && !conflicts.has(mutation.incidentId)) conflicts.set(mutation.incidentId, mutation);
+    }
+    return conflicts;
+}
+
+/**
+ * Settles a held change. Re-applying sends it again against the server's current
+ * version, overwriting the other change; discarding drops it.
+ */
+export async function resolveConflict(seq: number, resolution: 'reapply' | 'discard') {
+    await db.transaction('rw', db.outbox, async () => {
+        const mutation = await db.outbox.get(seq);
+        if (!mutation?.conflict) return;
+
+        if (resolution === 'discard') {
+            await db.outbox.delete(seq);
+            return;
+        }
+        await db.outbox.update(seq, { baseUpdatedAt: mutation.conflict.updatedAt, conflict: undefined });
+    });
+}
+
+/** Short English description for toasts, e.g. `status → Dispatched` */
+export function describeChanges(changes: IncidentChanges): string {
+    const parts: string[] = [];
+    if (changes.status !== undefined) parts.push(`status → ${changes.status}`);
+    if (changes.isRead) parts.push('mark as read');
+    return parts.join(', ');
+}
+
+/** Full name from the user's profile, falling back to their ID if profiles can't be read */
+async function lookUpName(userId: string): Promise<string> {
+    return (await getBackend().profiles.getDisplayName(userId)) ?? userId;
+}
+
+/**
+ * Works out why an update matched no row: the row is gone or hidden (a refusal), or it
+ * moved on from the version the change was made against (a conflict).
+ */
+async function explainEmptyUpdate(mutation: OutboxMutation): Promise<Error> {
+    let current: { incident: Incident; updatedBy?: string } | null;
+    try {
+        current = await getBackend().incidents.getIncident(mutation.incidentId);
+    } catch (e) {
+        // Can't tell yet, so try the whole change again later
+        return new BackendError(e instanceof Error ? e.message : 'Network error', { transient: true });
+    }
+
+    if (!current || !mutation.baseUpdatedAt || current.incident.updatedAt === mutation.baseUpdatedAt) {
+        // Rows the user can't change are hidden, so a refusal looks like nothing was updated
+        return new Error('Incident not found, or you are not allowed to change it');
+    }
+
+    const { incident, updatedBy } = current;
+    return new OutboxConflictError({
+        server: { status: incident.status, isRead: incident.isRead },
+        updatedAt: incident.updatedAt,
+        updatedBy: updatedBy ? await lookUpName(updatedBy) : undefined,
+        detectedAt: new Date().toISOString(),
+    });
+}
+
+async function sendMutation(mutation: OutboxMutation): Promise<Incident> {
+    // Only update the version this change was made against
+    const incident = await getBackend().incidents.updateIncident(mutation.incidentId, mutation.changes, {
+        expectedUpdatedAt: mutation.baseUpdatedAt,
+        reason: mutation.reason,
+    });
+    if (!incident) throw await explainEmptyUpdate(mutation);
+    return incident;
+}
+
+async function replay({ onApplied, onRejected, onConflict }: OutboxFlushHandlers): Promise<OutboxFlushResult> {
+    const result: OutboxFlushResult = { applied: 0, rejected: 0, conflicted: 0, stalled: false };
+
+    // Changes queued while this replay runs can't start another one (the lock is held),
+    // so keep reading the queue until a pass finds nothing left to send
+    for (;;) {
+        // Later changes to an incident with a held change would only conflict too
+        const held = new Set<string>();
+        let sent = false;
+        for (const queued of await db.outbox.orderBy('seq').toArray()) {
+            // Re-read the row: an earlier change in this pass may have rebased it
+            const mutation = await db.outbox.get(queued.seq);
+            if (!mutation) continue;
+            if (mutation.conflict || held.has(mutation.incidentId)) {
+                held.add(mutation.incidentId);
+                continue;
+            }
+            sent = true;
+
+            try {
+                const incident = await sendMutation(mutation);
+                await db.transaction('rw', db.outbox, async () => {
+                    await db.outbox.delete(mutation.seq);
+                    // Everything else queued here for this incident follows this change, whatever
+                    // version it was made against: a read marker has no base but still moves
+                    // `updated_at`, and our own change mustn't come back as a conflict
+                    await db.outbox
+                        .where('incidentId')
+                        .equals(mutation.incidentId)
+                        .filter((next) => !next.conflict)
+                        .modify({ baseUpdatedAt: incident.updatedAt });
+                });
+                result.applied++;
+                await onApplied?.(mutation, incident);
+            } catch (e) {
+                const message = e instanceof Error ? e.message : 'Unknown error';
+
+                if (e instanceof OutboxConflictError) {
+                    console.warn(`[IncidentOutbox] Change ${mutation.seq} to ${mutation.incidentId} conflicts with a newer edit.`);
+                    await db.outbox.update(mutation.seq, { conflict: e.conflict });
+                    held.add(mutation.incidentId);
+                    result.conflicted++;
+                    onConflict?.(mutation, e.conflict);
+                    continue;
+                }
+
+                // Network failures, expired tokens, rate limits and server errors are worth another try
+                if (e instanceof BackendError && e.transient) {
+                    console.warn(`[IncidentOutbox] Change ${mutation.seq} not sent, will retry:`, message);
+                    await db.outbox.update(mutation.seq, { attempts: mutation.attempts + 1, lastError: message });
+                    // Later changes wait so they still reach the server in the order they were made
+                    result.stalled = true;
+                    break;
+                }
+
+                console.error(`[IncidentOutbox] Server rejected change ${mutation.seq} to ${mutation.incidentId}:`, message);
+                await db.outbox.delete(mutation.seq);
+                result.rejected++;
+                onRejected?.(mutation, message);
+            }
+        }
+        if (!sent || result.stalled) break;
+    }
+
+    return result;
+}
+
+/**
+ * Sends queued changes in order. Resolves null when a replay is already running, in
+ * this tab or another; that replay also sends whatever was queued since it started.
+ */
+export async function flushIncidentOutbox(handlers: OutboxFlushHandlers = {}): Promise<OutboxFlushResult | null> {
+    if (!navigator.locks) return replay(handlers);
+    return navigator.locks.request(OUTBOX_LOCK, { ifAvailable: true }, (lock) =>
+        lock ? replay(handlers) : null,
+    );
+}
@@ -0,0 +1,127 @@
+import { getBackend } from '../backend/backend';
+import type { IncidentChangeEvent } from '../backend/repositories';
+import { deleteCachedIncident, isIncidentCached, putCachedIncident, type CacheOwner } from './incidentCache';
+
+/**
+ * Realtime feed of `incidents` into the Dexie cache. The backend doesn't replay events
+ * sent while a subscription was down, so the caller fetches the gap every time it
+ * (re)subscribes. A subscription that errors, times out or closes is recreated with backoff.
+ */
+
+export type RealtimeStatus = 'connecting' | 'live' | 'reconnecting';
+
+export interface IncidentRealtimeOptions extends CacheOwner {
+    onStatusChange: (status: RealtimeStatus) => void;
+    /** The subscription is live again; anything that changed while it was down needs fetching */
+    onSubscribed: () => void;
+    /** An incident was created or changed, so its audit trail has new events */
+    onIncidentChanged?: () => void;
+}
+
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+// Same shape as report sync backoff, but starting at a second: a dashboard without
+// live updates is worth reconnecting quickly
+function getReconnectDelay(attempts: number): number {
+    const step = Math.min(MAX_RECONNECT_DELAY_MS, BASE_RECONNECT_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+    return Math.round(step * (0.5 + Math.random() * 0.5));
+}
+
+/** Subscribes until the returned function is called */
+export function subscribeToIncidents({
+    userId,
+    isAdmin,
+    onStatusChange,
+    onSubscribed,
+    onIncidentChanged,
+}: IncidentRealtimeOptions) {
+    let unsubscribe: (() => Promise<void>) | null = null;
+    let attempts = 0;
+    let retryTimer: number | undefined;
+    // Set once the old subscription is gone and a new one may be made
+    let awaitingReconnect = false;
+    let stopped = false;
+
+    const handleChange = (event: IncidentChangeEvent) => {
+        console.log(`[IncidentRealtime] Event: ${event.type}`);
+
+        if (event.type === 'delete') {
+            // Deletes may carry only the ID, so they can't be filtered by owner;
+            // removing an uncached ID is harmless
+            deleteCachedIncident(event.id).catch((err) =>
+                console.error("[IncidentRealtime] Failed to remove deleted incident:", err),
+            );
+            return;
+        }
+
+        // Changes aren't filtered by owner, so responders drop other users' incidents unless
+        // they already have them, i.e. their unit is assigned there
+        const isOthers = !isAdmin && !!event.ownerId && event.ownerId !== userId;
+
+        (isOthers ? isIncidentCached(event.incident.id) : Promise.resolve(true))
+            .then(async (keep) => {
+                if (!keep) return;
+                await putCachedIncident(event.incident);
+                onIncidentChanged?.();
+            })
+            .catch((err) => console.error("[IncidentRealtime] Failed to cache incident:", err));
+    };
+
+    const connect = () => {
+        window.clearTimeout(retryTimer);
+        awaitingReconnect = false;
+        onStatusChange(attempts === 0 ? 'connecting' : 'reconnecting');
+
+        let current: (() => Promise<void>) | null = null;
+        current = getBackend().incidents.subscribe({
+            onChange: handleChange,
+            onStatus: (status, err) => {
+                // Ignore the status that follows ending this subscription ourselves
+                if (stopped || !current || current !== unsubscribe) return;
+
+                if (status === 'live') {
+                    attempts = 0;
+                    onStatusChange('live');
+                    onSubscribed();
+                    return;
+                }
+
+                console.warn('[IncidentRealtime] Subscription down, reconnecting.', err ?? '');
+                reconnect();
+            },
+        });
+        unsubscribe = current;
+    };
+
+    const reconnect = async () => {
+        const previous = unsubscribe;
+        unsubscribe = null;
+        attempts++;
+        onStatusChange('reconnecting');
+
+        // Supabase reuses a channel with the same topic, so the old one must be gone first
+        if (previous) await previous();
+        if (stopped) return;
+        awaitingReconnect = true;
+
+        // While offline, wait for the `online` event instead of burning attempts
+        if (navigator.onLine) retryTimer = window.setTimeout(connect, getReconnectDelay(attempts));
+    };
+
+    const handleOnline = () => {
+        // Skip the rest of the backoff; the gap fill on subscribe catches up
+        if (awaitingReconnect && !stopped) connect();
+    };
+
+    window.addEventListener('online', handleOnline);
+    connect();
+
+    return () => {
+        stopped = true;
+        window.clearTimeout(retryTimer);
+        window.removeEventListener('online', handleOnline);
+        unsubscribe?.();
+        unsubscribe = null;
+    };
+}
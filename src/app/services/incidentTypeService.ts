@@ -0,0 +1,34 @@
+import { getBackend } from '../backend/backend';
+import { db } from '../../db/db';
+import type { IncidentTypeDefinition } from '../../types/incident';
+import { DEFAULT_INCIDENT_TYPES } from '../utils/incidentTypes';
+
+/**
+ * Downloads the incident type registry and replaces the offline copy in Dexie.
+ * Remote rows override the built-in types with the same ID, so a built-in can be
+ * relabelled or disabled but never silently disappears.
+ */
+export async function refreshIncidentTypes(): Promise<IncidentTypeDefinition[]> {
+    const remote = await getBackend().catalog.listIncidentTypes();
+    const types = [
+        ...DEFAULT_INCIDENT_TYPES.filter((type) => !remote.some((r) => r.id === type.id)),
+        ...remote,
+    ];
+
+    await db.transaction('rw', db.incidentTypes, async () => {
+        await db.incidentTypes.clear();
+        await db.incidentTypes.bulkPut(types);
+    });
+
+    console.log(`[IncidentTypes] Cached ${types.length} incident types`);
+    return types;
+}
+
+/**
+ * Creates or updates a registry entry (admin only, enforced by RLS) and mirrors it locally.
+ */
+export async function saveIncidentType(type: IncidentTypeDefinition): Promise<IncidentTypeDefinition> {
+    const saved = await getBackend().catalog.saveIncidentType(type);
+    await db.incidentTypes.put(saved);
+    return saved;
+}
@@ -0,0 +1,27 @@
+import { getBackend } from '../backend/backend';
+import { db } from '../../db/db';
+import type { ReportFormField } from '../../types/incident';
+
+/**
+ * Downloads the report form schema and replaces the offline copy in Dexie.
+ */
+export async function refreshReportFormFields(): Promise<ReportFormField[]> {
+    const fields = await getBackend().catalog.listFormFields();
+
+    await db.transaction('rw', db.formFields, async () => {
+        await db.formFields.clear();
+        await db.formFields.bulkPut(fields);
+    });
+
+    console.log(`[ReportForm] Cached ${fields.length} form fields`);
+    return fields;
+}
+
+/**
+ * Creates or updates a form field (admin only, enforced by RLS) and mirrors it locally.
+ */
+export async function saveReportFormField(field: ReportFormField): Promise<ReportFormField> {
+    const saved = await getBackend().catalog.saveFormField(field);
+    await db.formFields.put(saved);
+    return saved;
+}
@@ -0,0 +1,188 @@
+import { db, type IncidentReport } from '../../db/db';
+import type { Incident } from '../../types/incident';
+import type { Backend } from '../backend/repositories';
+import { SYNCABLE_STATUSES, getFailureUpdate, isDueForSync } from '../utils/syncBackoff';
+
+/**
+ * The report upload queue. Runs in the page (useSyncManager) and in the service
+ * worker's Background Sync handler, so it takes the backend as a parameter
+ * and doesn't touch the DOM.
+ */
+
+export type SyncProgress =
+    | { type: 'started'; total: number }
+    | { type: 'report-synced'; reportId: string }
+    | { type: 'report-failed'; reportId: string; error: string; permanent: boolean }
+    | { type: 'finished'; synced: number; failed: number };
+
+export interface SyncRunOptions {
+    /** Retry reports still waiting out their backoff, e.g. when the responder taps Sync now */
+    ignoreBackoff?: boolean;
+    /** Signed-in user, for reports saved before the session was known */
+    userId?: string;
+    onProgress?: (progress: SyncProgress) => void;
+}
+
+function getFileExtension(mimeType: string): string {
+    const subtype = mimeType.split('/')[1] ?? 'jpg';
+    return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+}
+
+/**
+ * Uploads a report's photos and files the incident. Throws with a message the pending
+ * reports screen can show when any step fails, so the caller can back off. Resolves
+ * with the new incident, or null when an earlier attempt had already filed it.
+ */
+async function pushReport(backend: Backend, incident: IncidentReport, userId?: string): Promise<Incident | null> {
+    // 1. Photo uploads
+    // Each attachment tracks its own state, so a retry only re-sends the ones that failed
+    const attachments = await db.attachments
+        .where('reportId')
+        .equals(incident.id)
+        .sortBy('position');
+    const imageUrls: string[] = [];
+    const uploadErrors: string[] = [];
+
+    for (const attachment of attachments) {
+        if (attachment.uploadStatus === 'uploaded' && attachment.remoteUrl) {
+            imageUrls.push(attachment.remoteUrl);
+            continue;
+        }
+        if (!attachment.blob) {
+            console.warn(`[SyncManager] Attachment ${attachment.id} has no image data, skipping.`);
+            continue;
+        }
+
+        console.log(`[SyncManager] Uploading attachment ${attachment.id} for ${incident.id}...`);
+        await db.attachments.update(attachment.id, { uploadStatus: 'uploading', uploadError: undefined });
+
+        try {
+            const fileName = `${incident.id}_${attachment.id}_${Date.now()}.${getFileExtension(attachment.mimeType)}`;
+
+            const remoteUrl = await backend.attachments.uploadPhoto(fileName, attachment.blob, attachment.mimeType);
+            console.log(`[SyncManager] Public image URL:`, remoteUrl);
+
+            await db.attachments.update(attachment.id, { uploadStatus: 'uploaded', remoteUrl });
+            imageUrls.push(remoteUrl);
+        } catch (e) {
+            console.error(`[SyncManager] Failed to upload attachment ${attachment.id}:`, e);
+            const message = e instanceof Error ? e.message : 'Error processing image';
+            await db.attachments.update(attachment.id, { uploadStatus: 'failed', uploadError: message });
+            uploadErrors.push(message);
+        }
+    }
+
+    // Don't create the incident with missing photos; the next attempt retries the failed ones
+    if (uploadErrors.length > 0) {
+        throw new Error(`Image upload failed: ${uploadErrors[0]}`);
+    }
+
+    // 2. Incident
+    let payloadUserId = incident.userId;
+
+    // 🚨 Self-healing: If ID is missing or anonymous, OR is 'offline-user', use the signed-in user
+    // (passed in, since the service worker has no auth session to ask)
+    if ((!payloadUserId || payloadUserId === "anonymous" || payloadUserId === "offline-user") && userId) {
+        console.log(`[SyncManager] Repaired missing userId for ${incident.id} -> ${userId}`);
+        payloadUserId = userId;
+        // Optional: Repair local DB too
+        await db.reports.update(incident.id, { userId });
+    }
+
+    // A duplicate resolves null and is marked synced like a fresh insert
+    const created = await backend.incidents.createIncident({
+        localId: incident.id,
+        type: incident.type,
+        severity: incident.severity,
+        location: incident.location,
+        description: incident.description,
+        assessment: incident.assessment,
+        customFields: incident.customFields,
+        casualties: incident.casualties,
+        imageUrls,
+        createdAt: incident.createdAt,
+        occurredAt: incident.timestamp,
+        userId: payloadUserId,
+    });
+
+    console.log(`[SyncManager] Filed ${incident.id}${created ? '' : ' (already on the server)'}`);
+    return created;
+}
+
+// Held for the whole run by whichever tab or service worker is syncing
+const SYNC_RUN_LOCK = 'report-sync-run';
+
+export interface SyncRunResult {
+    synced: number;
+    failed: number;
+}
+
+/**
+ * Pushes every report that is due, recording each failure on the report for backoff.
+ * Resolves null without doing anything when another tab or the service worker is
+ * already syncing, so the same photos are never uploaded twice at once.
+ */
+export async function runReportSync(backend: Backend, options: SyncRunOptions = {}): Promise<SyncRunResult | null> {
+    if (!navigator.locks) return pushDueReports(backend, options);
+    return navigator.locks.request(SYNC_RUN_LOCK, { ifAvailable: true }, (lock) =>
+        lock ? pushDueReports(backend, options) : null,
+    );
+}
+
+async function pushDueReports(
+    backend: Backend,
+    { ignoreBackoff = false, userId, onProgress }: SyncRunOptions,
+): Promise<SyncRunResult> {
+    // Reports that gave up (`failed`) wait for a manual retry; pending ones wait out their backoff
+    const now = Date.now();
+    const pendingIncidents = (await db.reports
+        .where('status')
+        .anyOf(SYNCABLE_STATUSES)
+        .toArray())
+        .filter((report) => isDueForSync(report, now, ignoreBackoff));
+
+    let synced = 0;
+    let failed = 0;
+    if (pendingIncidents.length === 0) return { synced, failed };
+
+    onProgress?.({ type: 'started', total: pendingIncidents.length });
+
+    for (const incident of pendingIncidents) {
+        console.log(`[SyncManager] Processing incident ${incident.id}`, incident);
+        await db.reports.update(incident.id, { status: 'syncing', lastAttemptAt: new Date().toISOString() });
+
+        let created: Incident | null;
+        try {
+            created = await pushReport(backend, incident, userId);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : 'Unknown sync error';
+            const update = getFailureUpdate(incident, message);
+            console.warn(`[SyncManager] Attempt ${update.attempts} for ${incident.id} failed (${update.status}):`, message);
+            await db.reports.update(incident.id, update);
+            failed++;
+            onProgress?.({ type: 'report-failed', reportId: incident.id, error: message, permanent: update.status === 'failed' });
+            continue;
+        }
+
+        // Success or Duplicate -> Update local Dexie record
+        console.log(`[SyncManager] Updating local DB status to 'synced' for ${incident.id}`);
+        await db.transaction('rw', db.reports, db.incidents, async () => {
+            await db.reports.update(incident.id, { status: 'synced', lastError: undefined, nextRetryAt: undefined });
+            // Cache the filed incident in the same step, so the dashboard swaps the local copy
+            // for it (matched by localId) without a moment where neither or both show
+            if (created) await db.incidents.put(created);
+        });
+        // Keep thumbnails for the reports screen but drop full-size photos to save space
+        await db.attachments
+            .where('reportId')
+            .equals(incident.id)
+            .modify((attachment) => {
+                delete attachment.blob;
+            });
+        synced++;
+        onProgress?.({ type: 'report-synced', reportId: incident.id });
+    }
+
+    onProgress?.({ type: 'finished', synced, failed });
+    return { synced, failed };
+}
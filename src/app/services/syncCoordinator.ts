@@ -0,0 +1,257 @@
+import type { Session } from '@supabase/supabase-js';
+import { db } from '../../db/db';
+import { getBackend } from '../backend/backend';
+import { runReportSync, type SyncProgress, type SyncRunOptions } from './reportSyncService';
+import { SYNCABLE_STATUSES, getNextRetryTime } from '../utils/syncBackoff';
+import { isSyncProgressMessage, requestBackgroundSync } from '../utils/backgroundSync';
+
+/**
+ * One report sync engine per origin. Tabs elect a leader with the Web Locks API; only
+ * the leader reacts to `online`, retry timers and sync requests. Other tabs forward
+ * their requests over a BroadcastChannel and mirror the leader's state, so every
+ * component in every tab sees the same progress.
+ */
+
+export type SyncOptions = Pick<SyncRunOptions, 'ignoreBackoff'>;
+
+export interface SyncState {
+    isSyncing: boolean;
+    /** Reports in the current run, while one is going */
+    progress: { completed: number; total: number } | null;
+    pendingCount: number;
+    syncError: string | null;
+}
+
+type ChannelMessage =
+    | { type: 'state'; state: SyncState }
+    | { type: 'state-request' }
+    | { type: 'sync-request'; options: SyncOptions };
+
+const LEADER_LOCK = 'report-sync-leader';
+const CHANNEL_NAME = 'report-sync';
+
+let state: SyncState = { isSyncing: false, progress: null, pendingCount: 0, syncError: null };
+const listeners = new Set<() => void>();
+
+let started = false;
+// Without Web Locks there is nothing to coordinate with, so this tab leads
+let isLeader: boolean = typeof navigator !== 'undefined' && !navigator.locks;
+let channel: BroadcastChannel | null = null;
+let session: Session | null = null;
+let isRunning = false;
+// A request that arrived mid-run; runs as soon as the current one finishes
+let queuedRun: SyncOptions | null = null;
+let retryTimer: number | undefined;
+
+function setState(patch: Partial<SyncState>) {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+    if (isLeader) post({ type: 'state', state });
+}
+
+function post(message: ChannelMessage) {
+    channel?.postMessage(message);
+}
+
+export function subscribeSyncState(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getSyncState(): SyncState {
+    return state;
+}
+
+async function refreshPendingCount() {
+    try {
+        const pendingCount = await db.reports
+            .where('status')
+            .anyOf([...SYNCABLE_STATUSES, 'failed'])
+            .count();
+        setState({ pendingCount });
+    } catch (error) {
+        console.error("[SyncCoordinator] Failed to count pending items:", error);
+    }
+}
+
+/** Wakes the leader when the earliest backoff runs out, so retries need no other trigger */
+async function scheduleRetry() {
+    window.clearTimeout(retryTimer);
+    try {
+        const next = getNextRetryTime(await db.reports.where('status').equals('pending').toArray());
+        if (next !== null) retryTimer = window.setTimeout(() => runSync(), Math.max(0, next - Date.now()));
+    } catch (error) {
+        console.error("[SyncCoordinator] Failed to schedule retry:", error);
+    }
+}
+
+function handleProgress(progress: SyncProgress) {
+    switch (progress.type) {
+        case 'started':
+            setState({ isSyncing: true, progress: { completed: 0, total: progress.total } });
+            break;
+        case 'report-synced':
+        case 'report-failed':
+            setState({
+                progress: state.progress && { ...state.progress, completed: state.progress.completed + 1 },
+                ...(progress.type === 'report-failed' && { syncError: progress.error }),
+            });
+            break;
+        case 'finished':
+            setState({ progress: null });
+            break;
+    }
+}
+
+async function runSync(options: SyncOptions = {}) {
+    if (!navigator.onLine) {
+        console.log("[SyncCoordinator] Offline, skipping sync.");
+        // Let the service worker upload once there's signal, even if the app is closed by then
+        requestBackgroundSync();
+        return;
+    }
+
+    // If we are in "Offline Mode" (fake session), don't try to sync yet.
+    if (!session || session.user?.id === 'offline-user') {
+        console.log("[SyncCoordinator] No valid session or offline user. Skipping sync.");
+        return;
+    }
+
+    if (isRunning) {
+        queuedRun = { ignoreBackoff: queuedRun?.ignoreBackoff || options.ignoreBackoff };
+        return;
+    }
+
+    isRunning = true;
+    setState({ isSyncing: true, syncError: null });
+
+    try {
+        const result = await runReportSync(getBackend(), {
+            ignoreBackoff: options.ignoreBackoff,
+            userId: session.user.id,
+            onProgress: handleProgress,
+        });
+        if (!result) console.log("[SyncCoordinator] Service worker is already syncing.");
+    } catch (error) {
+        console.error("[SyncCoordinator] Critical sync error:", error);
+        setState({ syncError: error instanceof Error ? error.message : "Unknown sync error" });
+    } finally {
+        isRunning = false;
+        setState({ isSyncing: false, progress: null });
+        await refreshPendingCount();
+        await scheduleRetry();
+    }
+
+    if (queuedRun) {
+        const next = queuedRun;
+        queuedRun = null;
+        await runSync(next);
+    }
+}
+
+/** Runs a sync in the leader tab, wherever it was asked for */
+export async function requestSync(options: SyncOptions = {}) {
+    if (isLeader) await runSync(options);
+    else post({ type: 'sync-request', options });
+}
+
+/** Manual retry: starts the report's attempts over, including one that gave up */
+export async function retryReport(reportId: string) {
+    await db.reports.update(reportId, { status: 'pending', attempts: 0, nextRetryAt: undefined });
+    await requestSync({ ignoreBackoff: true });
+}
+
+/** Tells the engine who is signed in, and hands the service worker a token it can upload with */
+export function setSyncSession(next: Session | null) {
+    const wasSignedIn = !!session && session.user?.id !== 'offline-user';
+    session = next;
+
+    if (!next) {
+        db.syncCredentials.delete('current').catch(() => undefined);
+        return;
+    }
+    if (next.user?.id === 'offline-user' || !next.expires_at) return;
+
+    db.syncCredentials.put({
+        id: 'current',
+        userId: next.user.id,
+        accessToken: next.access_token,
+        expiresAt: next.expires_at,
+    }).catch((error) => console.warn("[SyncCoordinator] Could not store sync credentials:", error));
+
+    // Trigger sync once a real session arrives (e.g. after an offline login)
+    if (!wasSignedIn && isLeader) runSync();
+}
+
+function becomeLeader() {
+    console.log("[SyncCoordinator] This tab now runs report sync.");
+    isLeader = true;
+    post({ type: 'state', state });
+    refreshPendingCount();
+    runSync();
+}
+
+/** Starts the engine for this tab. Safe to call from every component that needs it */
+export function startSyncCoordinator() {
+    if (started) return;
+    started = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+        channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.addEventListener('message', (event: MessageEvent<ChannelMessage>) => {
+            const message = event.data;
+            if (message.type === 'state' && !isLeader) {
+                state = message.state;
+                listeners.forEach((listener) => listener());
+            } else if (message.type === 'state-request' && isLeader) {
+                post({ type: 'state', state });
+            } else if (message.type === 'sync-request' && isLeader) {
+                runSync(message.options);
+            }
+        });
+    }
+
+    window.addEventListener('online', () => {
+        if (!isLeader) return;
+        console.log("[SyncCoordinator] Network online, attempting sync...");
+        // Failures while offline say nothing about the server, so don't wait out their backoff
+        runSync({ ignoreBackoff: true });
+    });
+
+    // Reports still queued when the responder pockets the phone go to the service worker
+    document.addEventListener('visibilitychange', async () => {
+        if (document.visibilityState !== 'hidden') return;
+        const queued = await db.reports.where('status').anyOf(SYNCABLE_STATUSES).count();
+        if (queued > 0) requestBackgroundSync();
+    });
+
+    // Progress from a Background Sync run in the service worker reaches every tab directly
+    navigator.serviceWorker?.addEventListener('message', (event: MessageEvent) => {
+        if (!isSyncProgressMessage(event.data)) return;
+        const { progress } = event.data;
+        handleProgress(progress);
+        if (progress.type === 'finished') {
+            setState({ isSyncing: false });
+            if (isLeader) {
+                refreshPendingCount();
+                scheduleRetry();
+            }
+        }
+    });
+
+    refreshPendingCount();
+
+    if (isLeader) {
+        runSync();
+        return;
+    }
+
+    post({ type: 'state-request' });
+    // The lock is held until the tab closes, then passes to the next tab in line
+    navigator.locks.request(LEADER_LOCK, () => {
+        becomeLeader();
+        return new Promise<never>(() => undefined);
+    }).catch((error) => console.error("[SyncCoordinator] Leader election failed:", error));
+}
@@ -0,0 +1,156 @@
+import { db } from '../../db/db';
+import { getBackend } from '../backend/backend';
+import { isTrainingBackend, type TrainingBackend } from '../backend/trainingBackend';
+import { TRAINING_MODE } from '../utils/trainingMode';
+import type { TrainingScenario } from '../utils/trainingScenario';
+
+/**
+ * Plays a generated scenario into the training backend as if it were live: reports are
+ * filed and moved on at their scenario times (sped up by `speed`), so the dashboard and
+ * any field app open on this device see them arrive through the usual subscription.
+ * One replay per page; it stops when the page closes.
+ */
+
+export interface TrainingReplayState {
+    isRunning: boolean;
+    /** What is (or was last) being played */
+    label: string | null;
+    played: number;
+    total: number;
+    /** Scenario minute reached so far */
+    minute: number;
+    error: string | null;
+}
+
+let state: TrainingReplayState = { isRunning: false, label: null, played: 0, total: 0, minute: 0, error: null };
+const listeners = new Set<() => void>();
+let stopCurrent: (() => void) | null = null;
+
+function setState(patch: Partial<TrainingReplayState>) {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+}
+
+export function subscribeTrainingReplay(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getTrainingReplayState(): TrainingReplayState {
+    return state;
+}
+
+// Refuses to run against anything but the exercise store, whatever the caller thinks
+function getTrainingBackend(): TrainingBackend {
+    const backend = getBackend();
+    if (!TRAINING_MODE || !isTrainingBackend(backend)) {
+        throw new Error('Training data can only be written in training mode');
+    }
+    return backend;
+}
+
+export function startTrainingReplay(scenario: TrainingScenario, { speed }: { speed: number }) {
+    const { incidents } = getTrainingBackend();
+    stopTrainingReplay();
+
+    const { events } = scenario;
+    // Keeps filing the same drill twice apart, and ties it back to the scenario
+    const runId = Date.now().toString(36);
+    // Server ID and last version written, per scenario report
+    const filed = new Map<string, { id: string; updatedAt?: string } | null>();
+    const startedAt = Date.now();
+    let index = 0;
+    let timer: number | undefined;
+    let stopped = false;
+
+    setState({
+        isRunning: true,
+        label: `${scenario.district.name} · seed ${scenario.seed}`,
+        played: 0,
+        total: events.length,
+        minute: 0,
+        error: null,
+    });
+
+    const playNext = async () => {
+        const event = events[index];
+        try {
+            if (event.type === 'report') {
+                const now = new Date().toISOString();
+                const incident = await incidents.createIncident({
+                    ...event.report,
+                    localId: `TRAINING-${runId}-${event.key}`,
+                    createdAt: now,
+                    occurredAt: now,
+                });
+                filed.set(event.key, incident && { id: incident.id, updatedAt: incident.updatedAt });
+            } else {
+                // A trainee who already changed the incident takes over from the script
+                const current = filed.get(event.key);
+                if (current) {
+                    const incident = await incidents.updateIncident(current.id, { status: event.status }, {
+                        expectedUpdatedAt: current.updatedAt,
+                        reason: 'Training scenario',
+                    });
+                    filed.set(event.key, incident && { id: incident.id, updatedAt: incident.updatedAt });
+                }
+            }
+        } catch (error) {
+            console.error(`[TrainingReplay] Failed to play ${event.type} for ${event.key}:`, error);
+            setState({ error: error instanceof Error ? error.message : 'Replay step failed' });
+        }
+
+        if (stopped) return;
+        index++;
+        setState({ played: index, minute: event.atMinute });
+        scheduleNext();
+    };
+
+    const scheduleNext = () => {
+        if (index >= events.length) {
+            console.log(`[TrainingReplay] Finished ${events.length} events.`);
+            stopCurrent = null;
+            setState({ isRunning: false, minute: scenario.durationMinutes });
+            return;
+        }
+        const dueAt = startedAt + (events[index].atMinute * 60 * 1000) / speed;
+        timer = window.setTimeout(playNext, Math.max(0, dueAt - Date.now()));
+    };
+
+    stopCurrent = () => {
+        stopped = true;
+        window.clearTimeout(timer);
+        setState({ isRunning: false });
+    };
+
+    console.log(`[TrainingReplay] Playing ${events.length} events from ${scenario.district.name} at ${speed}x.`);
+    scheduleNext();
+}
+
+export function stopTrainingReplay() {
+    stopCurrent?.();
+    stopCurrent = null;
+}
+
+/**
+ * Deletes everything from the exercise: incidents in the training backend, and this
+ * device's training reports, queued changes and cache. Resolves with how many
+ * incidents were removed.
+ */
+export async function clearTrainingExercise(): Promise<number> {
+    const backend = getTrainingBackend();
+    stopTrainingReplay();
+
+    const removed = await backend.clearExercise();
+    // `db` is the training database here; getTrainingBackend has checked the mode
+    const tables = [db.reports, db.attachments, db.outbox, db.incidents, db.incidentEvents, db.cacheMeta];
+    await db.transaction('rw', tables, async () => {
+        await Promise.all(tables.map((table) => table.clear()));
+    });
+
+    setState({ label: null, played: 0, total: 0, minute: 0, error: null });
+    console.log(`[TrainingReplay] Cleared ${removed} exercise incidents.`);
+    return removed;
+}
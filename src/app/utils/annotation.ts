@@ -0,0 +1,119 @@
+/**
+ * Photo markup shapes and rendering for the annotation editor. Coordinates are in
+ * image pixels so the result doesn't depend on how large the editor is on screen.
+ */
+
+export type AnnotationTool = 'draw' | 'arrow' | 'text' | 'blur';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export type AnnotationShape =
+    | { tool: 'draw'; color: string; width: number; points: Point[] }
+    | { tool: 'arrow'; color: string; width: number; from: Point; to: Point }
+    | { tool: 'text'; color: string; size: number; at: Point; text: string }
+    | { tool: 'blur'; radius: number; points: Point[] };
+
+export const ANNOTATION_COLORS = ['#dc2626', '#facc15', '#ffffff', '#000000'];
+
+// Blocks this many pixels across; coarse enough that faces and plates can't be read
+const PIXELATE_BLOCK = 16;
+
+/** Stroke width that looks the same on a phone regardless of the photo's resolution */
+export const strokeWidthFor = (imageWidth: number) => Math.max(3, Math.round(imageWidth / 200));
+
+/**
+ * A pixelated copy of the photo. Blur strokes reveal this copy instead of running a
+ * real blur filter, which older mobile browsers don't support on canvas.
+ */
+export function createPixelatedCopy(image: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.ceil(width / PIXELATE_BLOCK));
+    small.height = Math.max(1, Math.ceil(height / PIXELATE_BLOCK));
+    small.getContext('2d')?.drawImage(image, 0, 0, small.width, small.height);
+
+    const pixelated = document.createElement('canvas');
+    pixelated.width = width;
+    pixelated.height = height;
+    const ctx = pixelated.getContext('2d');
+    if (ctx) {
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(small, 0, 0, width, height);
+    }
+    return pixelated;
+}
+
+function strokePath(ctx: CanvasRenderingContext2D, points: Point[]) {
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    // A single tap still leaves a dot
+    if (points.length === 1) ctx.lineTo(points[0].x + 0.1, points[0].y);
+    for (const point of points.slice(1)) ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, shape: AnnotationShape, pixelated: CanvasImageSource) {
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    switch (shape.tool) {
+        case 'draw':
+            ctx.strokeStyle = shape.color;
+            ctx.lineWidth = shape.width;
+            strokePath(ctx, shape.points);
+            break;
+
+        case 'arrow': {
+            const { from, to, width } = shape;
+            const angle = Math.atan2(to.y - from.y, to.x - from.x);
+            const head = width * 4 + 8;
+            ctx.strokeStyle = shape.color;
+            ctx.lineWidth = width;
+            ctx.beginPath();
+            ctx.moveTo(from.x, from.y);
+            ctx.lineTo(to.x, to.y);
+            ctx.moveTo(to.x - head * Math.cos(angle - Math.PI / 7), to.y - head * Math.sin(angle - Math.PI / 7));
+            ctx.lineTo(to.x, to.y);
+            ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 7), to.y - head * Math.sin(angle + Math.PI / 7));
+            ctx.stroke();
+            break;
+        }
+
+        case 'text':
+            ctx.font = `bold ${shape.size}px sans-serif`;
+            ctx.textBaseline = 'middle';
+            // Dark outline keeps light text readable on any background
+            ctx.lineWidth = Math.max(2, shape.size / 8);
+            ctx.strokeStyle = shape.color === '#000000' ? '#ffffff' : '#000000';
+            ctx.strokeText(shape.text, shape.at.x, shape.at.y);
+            ctx.fillStyle = shape.color;
+            ctx.fillText(shape.text, shape.at.x, shape.at.y);
+            break;
+
+        case 'blur':
+            ctx.beginPath();
+            for (const point of shape.points) {
+                ctx.moveTo(point.x + shape.radius, point.y);
+                ctx.arc(point.x, point.y, shape.radius, 0, Math.PI * 2);
+            }
+            ctx.clip();
+            ctx.drawImage(pixelated, 0, 0);
+            break;
+    }
+
+    ctx.restore();
+}
+
+/** Draws the photo and every shape, in order, onto `ctx` */
+export function renderAnnotations(
+    ctx: CanvasRenderingContext2D,
+    image: CanvasImageSource,
+    pixelated: CanvasImageSource,
+    shapes: AnnotationShape[],
+) {
+    ctx.drawImage(image, 0, 0);
+    for (const shape of shapes) drawShape(ctx, shape, pixelated);
+}
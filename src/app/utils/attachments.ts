@@ -0,0 +1,116 @@
+import type { ReportAttachment } from '../../db/db';
+import { compressImage, type ImageOutputFormat } from './imageCompressor';
+import { readPhotoMetadata, type PhotoMetadata } from './exif';
+import type { AnnotationShape } from './annotation';
+
+export const MAX_REPORT_PHOTOS = 6;
+
+// WebP is roughly a third smaller than JPEG at the same quality; browsers that
+// can't encode it get JPEG
+const PHOTO_FORMAT: ImageOutputFormat = 'image/webp';
+const THUMBNAIL_WIDTH = 320;
+
+/** A photo picked on the report form, before the report (and its ID) exists */
+export interface DraftAttachment {
+    id: string;
+    mimeType: string;
+    blob: Blob;
+    thumbnail: Blob;
+    /** Where and when the camera says the photo was taken */
+    metadata: PhotoMetadata;
+    /** Marked-up copy; saved alongside the untouched original */
+    annotation?: DraftAnnotation;
+}
+
+export interface DraftAnnotation {
+    mimeType: string;
+    blob: Blob;
+    thumbnail: Blob;
+    /** Kept so the markup can be edited again before the report is saved */
+    shapes: AnnotationShape[];
+}
+
+export interface GalleryPhoto {
+    id: string;
+    thumbnailUrl: string;
+    fullUrl: string;
+    uploadStatus?: ReportAttachment['uploadStatus'];
+    isAnnotated?: boolean;
+}
+
+async function compressPhoto(file: Blob) {
+    let blob: Blob = file;
+    let metadata: PhotoMetadata;
+    try {
+        ({ blob, metadata } = await compressImage(file, { format: PHOTO_FORMAT }));
+    } catch (error) {
+        // Keep the original rather than lose the photo
+        console.error('[Attachments] Image compression failed, keeping original:', error);
+        metadata = await readPhotoMetadata(file);
+    }
+
+    let thumbnail = blob;
+    try {
+        ({ blob: thumbnail } = await compressImage(blob, { quality: 0.6, maxWidth: THUMBNAIL_WIDTH, format: PHOTO_FORMAT }));
+    } catch (error) {
+        console.warn('[Attachments] Thumbnail failed, using full image:', error);
+    }
+
+    return { mimeType: blob.type || 'image/jpeg', blob, thumbnail, metadata };
+}
+
+export async function createDraftAttachment(file: Blob): Promise<DraftAttachment> {
+    return {
+        id: `photo_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+        ...(await compressPhoto(file)),
+    };
+}
+
+export async function createDraftAnnotation(rendered: Blob, shapes: AnnotationShape[]): Promise<DraftAnnotation> {
+    const { mimeType, blob, thumbnail } = await compressPhoto(rendered);
+    return { mimeType, blob, thumbnail, shapes };
+}
+
+/**
+ * Attachment rows for a new report. A marked-up photo becomes two attachments: the
+ * annotated copy first, so it's what command sees, then the original as evidence.
+ */
+export function toReportAttachments(
+    drafts: DraftAttachment[],
+    reportId: string,
+    createdAt: string,
+): ReportAttachment[] {
+    const rows: ReportAttachment[] = [];
+    const base = { reportId, uploadStatus: 'pending' as const, createdAt };
+
+    for (const draft of drafts) {
+        if (draft.annotation) {
+            rows.push({
+                ...base,
+                id: `${draft.id}_annotated`,
+                position: rows.length,
+                kind: 'annotated',
+                sourceId: draft.id,
+                mimeType: draft.annotation.mimeType,
+                blob: draft.annotation.blob,
+                thumbnail: draft.annotation.thumbnail,
+            });
+        }
+        rows.push({
+            ...base,
+            id: draft.id,
+            position: rows.length,
+            kind: 'original',
+            mimeType: draft.mimeType,
+            blob: draft.blob,
+            thumbnail: draft.thumbnail,
+        });
+    }
+
+    return rows;
+}
+
+/** Gallery entries for photos that only exist on the server */
+export function toRemoteGalleryPhotos(urls: string[]): GalleryPhoto[] {
+    return urls.map((url) => ({ id: url, thumbnailUrl: url, fullUrl: url, uploadStatus: 'uploaded' }));
+}
@@ -0,0 +1,58 @@
+import type { SyncProgress } from '../services/reportSyncService';
+
+/**
+ * Page-side helpers for the service worker's Background Sync. Neither API is in the
+ * TypeScript DOM typings yet, and both are Chromium-only, so every call is guarded.
+ */
+
+export const BACKGROUND_SYNC_TAG = 'report-sync';
+export const PERIODIC_SYNC_TAG = 'report-sync-periodic';
+export const SYNC_PROGRESS_MESSAGE = 'report-sync-progress';
+
+// Chrome only runs periodic sync for installed apps, and no more often than it decides
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+/** Posted by the service worker to open windows while it syncs */
+export interface SyncProgressMessage {
+    type: typeof SYNC_PROGRESS_MESSAGE;
+    progress: SyncProgress;
+}
+
+type SyncRegistration = ServiceWorkerRegistration & {
+    sync?: { register(tag: string): Promise<void> };
+    periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+};
+
+export function isSyncProgressMessage(data: unknown): data is SyncProgressMessage {
+    return typeof data === 'object' && data !== null && (data as { type?: unknown }).type === SYNC_PROGRESS_MESSAGE;
+}
+
+/**
+ * Asks the browser to wake the service worker once there is connectivity, even if
+ * every tab has been closed by then. Safe to call repeatedly: the tag is de-duplicated.
+ */
+export async function requestBackgroundSync(): Promise<boolean> {
+    if (!('serviceWorker' in navigator)) return false;
+    try {
+        const registration = (await navigator.serviceWorker.ready) as SyncRegistration;
+        if (!registration.sync) return false;
+        await registration.sync.register(BACKGROUND_SYNC_TAG);
+        return true;
+    } catch (error) {
+        console.warn('[BackgroundSync] Could not register sync:', error);
+        return false;
+    }
+}
+
+/** Periodic wake-ups catch reports whose backoff ran out after the one-off sync gave up */
+export async function registerPeriodicSync(registration: ServiceWorkerRegistration): Promise<void> {
+    const { periodicSync } = registration as SyncRegistration;
+    if (!periodicSync) return;
+    try {
+        const permission = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+        if (permission.state !== 'granted') return;
+        await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS });
+    } catch (error) {
+        console.warn('[BackgroundSync] Could not register periodic sync:', error);
+    }
+}
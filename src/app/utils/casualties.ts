@@ -0,0 +1,72 @@
+import type { CasualtyCounts, Incident, TriageCategory } from '../../types/incident';
+
+export type CasualtyCountField = Exclude<keyof CasualtyCounts, 'triage'>;
+
+export const CASUALTY_COUNT_FIELDS: CasualtyCountField[] = ['trapped', 'injured', 'dead', 'missing', 'evacuated'];
+
+export const TRIAGE_CATEGORIES: TriageCategory[] = ['immediate', 'delayed', 'minor', 'expectant'];
+
+/** START tag colours, shared by the field form and the dashboard */
+export const TRIAGE_COLORS: Record<TriageCategory, string> = {
+    immediate: '#dc2626',
+    delayed: '#eab308',
+    minor: '#16a34a',
+    expectant: '#000000',
+};
+
+const isCount = (value: number | undefined): value is number =>
+    value !== undefined && Number.isFinite(value) && value >= 0;
+
+/**
+ * Drops blank and invalid counts (and the triage block when it ends up empty).
+ * Returns undefined when nothing was reported.
+ */
+export function pruneCasualties(casualties: CasualtyCounts | undefined): CasualtyCounts | undefined {
+    if (!casualties) return undefined;
+
+    const pruned: CasualtyCounts = {};
+    for (const field of CASUALTY_COUNT_FIELDS) {
+        const value = casualties[field];
+        if (isCount(value)) pruned[field] = Math.floor(value);
+    }
+
+    const triage: Partial<Record<TriageCategory, number>> = {};
+    for (const category of TRIAGE_CATEGORIES) {
+        const value = casualties.triage?.[category];
+        if (isCount(value)) triage[category] = Math.floor(value);
+    }
+    if (Object.keys(triage).length > 0) pruned.triage = triage;
+
+    return Object.keys(pruned).length > 0 ? pruned : undefined;
+}
+
+/**
+ * People trapped, injured, dead or missing. Evacuees are left out because they are
+ * accounted for, and triage tags are left out because they describe the same injured.
+ */
+export function getCasualtyTotal(casualties: CasualtyCounts | undefined): number {
+    if (!casualties) return 0;
+    return (casualties.trapped ?? 0) + (casualties.injured ?? 0) + (casualties.dead ?? 0) + (casualties.missing ?? 0);
+}
+
+/**
+ * People who still need someone to reach them: trapped, missing and red-tagged.
+ * Used as the first key when ranking incidents by human impact.
+ */
+export function getPeopleAtRisk(casualties: CasualtyCounts | undefined): number {
+    if (!casualties) return 0;
+    return (casualties.trapped ?? 0) + (casualties.missing ?? 0) + (casualties.triage?.immediate ?? 0);
+}
+
+/**
+ * Sort comparator for "worst first" by human impact: people at risk, then total
+ * casualties, then the reported severity, then newest.
+ */
+export function compareByHumanImpact(a: Incident, b: Incident): number {
+    return (
+        getPeopleAtRisk(b.casualties) - getPeopleAtRisk(a.casualties) ||
+        getCasualtyTotal(b.casualties) - getCasualtyTotal(a.casualties) ||
+        b.severity - a.severity ||
+        b.timestamp.getTime() - a.timestamp.getTime()
+    );
+}
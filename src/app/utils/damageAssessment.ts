@@ -0,0 +1,55 @@
+import type {
+    DamageAssessment,
+    HazardStatus,
+    IncidentType,
+    VehicleClass,
+    WaterTrend,
+} from '../../types/incident';
+
+/**
+ * Assessment fields asked for each incident type. Types without an entry
+ * (including admin-defined ones) have no structured assessment.
+ */
+export const ASSESSMENT_FIELDS: Record<IncidentType, (keyof DamageAssessment)[]> = {
+    'Flood': ['waterDepthCm', 'waterTrend'],
+    'Landslide': ['buildingsAffected'],
+    'Road Block': ['roadPassable', 'passableVehicles'],
+    'Power Line Down': ['hazardStatus'],
+};
+
+export const WATER_TRENDS: WaterTrend[] = ['rising', 'steady', 'falling'];
+export const VEHICLE_CLASSES: VehicleClass[] = ['pedestrian', 'motorcycle', 'car', 'truck', 'emergency'];
+export const HAZARD_STATUSES: HazardStatus[] = ['live', 'isolated', 'cleared'];
+
+export function getAssessmentFields(type: IncidentType): (keyof DamageAssessment)[] {
+    return ASSESSMENT_FIELDS[type] ?? [];
+}
+
+const isEmpty = (value: unknown) =>
+    value === undefined ||
+    value === null ||
+    (typeof value === 'number' && !Number.isFinite(value)) ||
+    (Array.isArray(value) && value.length === 0);
+
+/**
+ * Keeps only the answered fields that belong to `type`, so switching type on the
+ * form doesn't leak a flood depth into a road block report. Returns undefined
+ * when nothing is left.
+ */
+export function pruneAssessment(
+    type: IncidentType,
+    assessment: DamageAssessment | undefined,
+): DamageAssessment | undefined {
+    if (!assessment) return undefined;
+
+    const pruned: DamageAssessment = {};
+    for (const field of getAssessmentFields(type)) {
+        if (!isEmpty(assessment[field])) {
+            Object.assign(pruned, { [field]: assessment[field] });
+        }
+    }
+
+    if (pruned.roadPassable === false) delete pruned.passableVehicles;
+
+    return Object.keys(pruned).length > 0 ? pruned : undefined;
+}
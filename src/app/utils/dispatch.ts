@@ -0,0 +1,117 @@
+import type {
+    Incident,
+    IncidentType,
+    ResponseUnit,
+    ResponseUnitKind,
+    UnitAssignment,
+    UnitAvailability,
+    UnitCapability,
+} from '../../types/incident';
+import { calculateDistance } from './geo';
+
+/** Labels for the unit registry and the dispatch picker */
+
+export const UNIT_KIND_LABELS: Record<ResponseUnitKind, string> = {
+    fire: 'Fire & rescue',
+    army: 'Armed forces',
+    medical: 'Medical',
+    utility: 'Utility crew',
+    police: 'Police',
+};
+
+export const CAPABILITY_LABELS: Record<UnitCapability, string> = {
+    water_rescue: 'Water rescue',
+    search_rescue: 'Search & rescue',
+    heavy_lifting: 'Heavy lifting',
+    debris_clearance: 'Debris clearance',
+    first_aid: 'First aid',
+    ambulance: 'Ambulance',
+    evacuation: 'Evacuation',
+    power_isolation: 'Power isolation',
+    traffic_control: 'Traffic control',
+};
+
+export const AVAILABILITY_LABELS: Record<UnitAvailability, string> = {
+    available: 'Available',
+    committed: 'Committed',
+    out_of_service: 'Out of service',
+};
+
+// What the built-in types usually call for; admin-defined types rank by distance alone
+const TYPE_NEEDS: Partial<Record<IncidentType, UnitCapability[]>> = {
+    Flood: ['water_rescue', 'evacuation'],
+    Landslide: ['search_rescue', 'heavy_lifting'],
+    'Road Block': ['debris_clearance', 'traffic_control'],
+    'Power Line Down': ['power_isolation', 'traffic_control'],
+};
+
+/** Out of service wins over committed, so a unit taken off the board never looks free */
+export function getUnitAvailability(unit: ResponseUnit, openAssignments: UnitAssignment[]): UnitAvailability {
+    if (!unit.inService) return 'out_of_service';
+    return openAssignments.length > 0 ? 'committed' : 'available';
+}
+
+/** Open assignments by unit ID */
+export function groupAssignmentsByUnit(assignments: UnitAssignment[]): Map<string, UnitAssignment[]> {
+    const byUnit = new Map<string, UnitAssignment[]>();
+    for (const assignment of assignments) {
+        if (assignment.releasedAt) continue;
+        const list = byUnit.get(assignment.unitId);
+        if (list) list.push(assignment);
+        else byUnit.set(assignment.unitId, [assignment]);
+    }
+    return byUnit;
+}
+
+/** Incidents with an open assignment to a unit the user crews */
+export function getCrewIncidentIds(userId: string, units: ResponseUnit[], assignments: UnitAssignment[]): Set<string> {
+    const unitIds = new Set(units.filter((unit) => unit.memberIds.includes(userId)).map((unit) => unit.id));
+    return new Set(
+        assignments
+            .filter((assignment) => !assignment.releasedAt && unitIds.has(assignment.unitId))
+            .map((assignment) => assignment.incidentId),
+    );
+}
+
+export interface UnitOption {
+    unit: ResponseUnit;
+    availability: UnitAvailability;
+    /** Where the unit is committed right now */
+    assignments: UnitAssignment[];
+    /** Straight-line distance from the unit's base */
+    distanceKm: number;
+    /** Capabilities the incident's type calls for that this unit has */
+    matches: UnitCapability[];
+}
+
+/**
+ * Units to offer for an incident: available ones first, then those with more of the
+ * capabilities the incident type needs, then the nearest.
+ */
+export function rankUnitsForIncident(
+    incident: Incident,
+    units: ResponseUnit[],
+    assignments: UnitAssignment[],
+): UnitOption[] {
+    const needs = TYPE_NEEDS[incident.type] ?? [];
+    const byUnit = groupAssignmentsByUnit(assignments);
+    const availabilityOrder: UnitAvailability[] = ['available', 'committed', 'out_of_service'];
+
+    return units
+        .map((unit): UnitOption => {
+            const unitAssignments = byUnit.get(unit.id) ?? [];
+            return {
+                unit,
+                availability: getUnitAvailability(unit, unitAssignments),
+                assignments: unitAssignments,
+                distanceKm: calculateDistance(unit.base.lat, unit.base.lng, incident.location.lat, incident.location.lng),
+                matches: unit.capabilities.filter((capability) => needs.includes(capability)),
+            };
+        })
+        .sort(
+            (a, b) =>
+                availabilityOrder.indexOf(a.availability) - availabilityOrder.indexOf(b.availability) ||
+                b.matches.length - a.matches.length ||
+                a.distanceKm - b.distanceKm,
+        );
+}
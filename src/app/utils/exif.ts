@@ -0,0 +1,181 @@
+/**
+ * Minimal EXIF reader for the fields the report form can use: where and when the
+ * photo was taken. Only JPEG (APP1) is supported. Runs in workers too, so no DOM.
+ */
+
+export interface PhotoMetadata {
+    /** ISO timestamp of DateTimeOriginal */
+    takenAt?: string;
+    location?: { latitude: number; longitude: number };
+}
+
+// EXIF lives in the first APP1 segment, which is capped at 64 KB
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+type IfdValue = string | number | number[];
+
+class TiffReader {
+    private view: DataView;
+    private tiffStart: number;
+    private little: boolean;
+
+    constructor(view: DataView, tiffStart: number) {
+        this.view = view;
+        this.tiffStart = tiffStart;
+        this.little = view.getUint16(tiffStart) === 0x4949; // "II"
+    }
+
+    get firstIfdOffset() {
+        return this.view.getUint32(this.tiffStart + 4, this.little);
+    }
+
+    /** Reads every entry in the IFD at `offset` (relative to the TIFF header) */
+    readIfd(offset: number): Map<number, IfdValue> {
+        const entries = new Map<number, IfdValue>();
+        const start = this.tiffStart + offset;
+        if (start + 2 > this.view.byteLength) return entries;
+
+        const count = this.view.getUint16(start, this.little);
+        for (let i = 0; i < count; i++) {
+            const entry = start + 2 + i * 12;
+            if (entry + 12 > this.view.byteLength) break;
+
+            const tag = this.view.getUint16(entry, this.little);
+            const value = this.readValue(entry);
+            if (value !== undefined) entries.set(tag, value);
+        }
+        return entries;
+    }
+
+    private readValue(entry: number): IfdValue | undefined {
+        const type = this.view.getUint16(entry + 2, this.little);
+        const count = this.view.getUint32(entry + 4, this.little);
+        const size = { [TYPE_ASCII]: 1, [TYPE_SHORT]: 2, [TYPE_LONG]: 4, [TYPE_RATIONAL]: 8 }[type];
+        if (!size) return undefined;
+
+        // Values up to 4 bytes are stored inline, larger ones at an offset
+        const dataStart = size * count > 4
+            ? this.tiffStart + this.view.getUint32(entry + 8, this.little)
+            : entry + 8;
+        if (dataStart + size * count > this.view.byteLength) return undefined;
+
+        if (type === TYPE_ASCII) {
+            let text = '';
+            for (let i = 0; i < count; i++) {
+                const code = this.view.getUint8(dataStart + i);
+                if (code === 0) break;
+                text += String.fromCharCode(code);
+            }
+            return text;
+        }
+
+        const values: number[] = [];
+        for (let i = 0; i < count; i++) {
+            const at = dataStart + i * size;
+            if (type === TYPE_SHORT) values.push(this.view.getUint16(at, this.little));
+            else if (type === TYPE_LONG) values.push(this.view.getUint32(at, this.little));
+            else {
+                const denominator = this.view.getUint32(at + 4, this.little);
+                values.push(denominator ? this.view.getUint32(at, this.little) / denominator : 0);
+            }
+        }
+        return count === 1 ? values[0] : values;
+    }
+}
+
+/** Finds the TIFF header inside a JPEG's Exif APP1 segment */
+function findTiffStart(view: DataView): number | null {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xff00) !== 0xff00) return null;
+        const length = view.getUint16(offset + 2);
+
+        // APP1 starting with "Exif\0\0"
+        if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+            return offset + 10;
+        }
+        // Start of scan: no metadata after this point
+        if (marker === 0xffda) return null;
+        offset += 2 + length;
+    }
+    return null;
+}
+
+/** "2024:11:26 14:03:09" plus an optional "+05:30" offset */
+function parseExifDate(value: IfdValue | undefined, offset: IfdValue | undefined): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+
+    const [, year, month, day, hour, minute, second] = match;
+    const date = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset)
+        ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+        // Without an offset the camera clock is assumed to match the device's time zone
+        : new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toDegrees(value: IfdValue | undefined, ref: IfdValue | undefined, negativeRef: string): number | undefined {
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const [degrees, minutes, seconds] = value;
+    const decimal = degrees + minutes / 60 + seconds / 3600;
+    return ref === negativeRef ? -decimal : decimal;
+}
+
+export function parsePhotoMetadata(buffer: ArrayBuffer): PhotoMetadata {
+    const view = new DataView(buffer);
+    const tiffStart = findTiffStart(view);
+    if (tiffStart === null) return {};
+
+    const reader = new TiffReader(view, tiffStart);
+    const ifd0 = reader.readIfd(reader.firstIfdOffset);
+    const metadata: PhotoMetadata = {};
+
+    const exifOffset = ifd0.get(TAG_EXIF_IFD);
+    const exifIfd = typeof exifOffset === 'number' ? reader.readIfd(exifOffset) : new Map<number, IfdValue>();
+    metadata.takenAt =
+        parseExifDate(exifIfd.get(TAG_DATETIME_ORIGINAL), exifIfd.get(TAG_OFFSET_TIME_ORIGINAL)) ??
+        parseExifDate(ifd0.get(TAG_DATETIME), undefined);
+
+    const gpsOffset = ifd0.get(TAG_GPS_IFD);
+    if (typeof gpsOffset === 'number') {
+        const gps = reader.readIfd(gpsOffset);
+        const latitude = toDegrees(gps.get(TAG_GPS_LAT), gps.get(TAG_GPS_LAT_REF), 'S');
+        const longitude = toDegrees(gps.get(TAG_GPS_LNG), gps.get(TAG_GPS_LNG_REF), 'W');
+        // 0,0 is what many cameras write when they had no fix
+        if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+            metadata.location = { latitude, longitude };
+        }
+    }
+
+    if (!metadata.takenAt) delete metadata.takenAt;
+    return metadata;
+}
+
+export async function readPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+    try {
+        return parsePhotoMetadata(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    } catch (error) {
+        console.warn('[Exif] Could not read photo metadata:', error);
+        return {};
+    }
+}
@@ -1,57 +1,117 @@
+import { readPhotoMetadata } from './exif';
+import {
+    canCompressOffscreen,
+    compressWithOffscreenCanvas,
+    fitWidth,
+    type CompressOptions,
+    type CompressRequest,
+    type CompressResponse,
+    type CompressedImage,
+} from './imageProcessing';
+
+export type { CompressOptions, CompressedImage, ImageOutputFormat } from './imageProcessing';
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (result: CompressedImage) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker | null {
+    if (worker) return worker;
+    if (workerFailed || typeof Worker === 'undefined' || !canCompressOffscreen()) return null;
+
+    try {
+        worker = new Worker(new URL('../workers/imageCompressor.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.warn('[ImageCompressor] Could not start worker, compressing on the main thread:', error);
+        workerFailed = true;
+        return null;
+    }
+
+    worker.addEventListener('message', (event: MessageEvent<CompressResponse>) => {
+        const response = event.data;
+        const request = pendingRequests.get(response.id);
+        if (!request) return;
+        pendingRequests.delete(response.id);
+
+        if ('error' in response) request.reject(new Error(response.error));
+        else request.resolve(response.result);
+    });
+
+    worker.addEventListener('error', (event) => {
+        console.error('[ImageCompressor] Worker crashed:', event.message);
+        pendingRequests.forEach((request) => request.reject(new Error('Image worker crashed')));
+        pendingRequests.clear();
+        worker?.terminate();
+        worker = null;
+        workerFailed = true;
+    });
+
+    return worker;
+}
+
+function compressInWorker(compressor: Worker, file: Blob, options: CompressOptions) {
+    return new Promise<CompressedImage>((resolve, reject) => {
+        const id = nextRequestId++;
+        pendingRequests.set(id, { resolve, reject });
+        compressor.postMessage({ id, file, options } satisfies CompressRequest);
+    });
+}
+
 /**
- * Compresses an image file using HTML5 Canvas.
- * * @param {File} file - The original image file from the input.
- * @param {number} quality - (0.0 to 1.0) The output quality. Default 0.7.
- * @param {number} maxWidth - Max width in pixels. Default 1024px.
- * @returns {Promise<Blob>} - Resolves with the compressed Blob.
+ * Last resort for browsers without OffscreenCanvas: the original <img> and DOM canvas
+ * approach. Modern browsers apply EXIF orientation when drawing an <img>.
  */
-export const compressImage = async (file: File, quality = 0.7, maxWidth = 1024) => {
-    return new Promise<Blob>((resolve, reject) => {
-        const reader = new FileReader();
-
-        reader.readAsDataURL(file);
-
-        reader.onload = (event) => {
-            const img = new Image();
-            img.src = event.target?.result as string;
-
-            img.onload = () => {
-                // 1. Calculate new dimensions (maintain aspect ratio)
-                let width = img.width;
-                let height = img.height;
-
-                if (width > maxWidth) {
-                    height = Math.round((height * maxWidth) / width);
-                    width = maxWidth;
-                }
-
-                // 2. Create an invisible canvas
-                const canvas = document.createElement('canvas');
-                canvas.width = width;
-                canvas.height = height;
-
-                // 3. Draw the image onto the canvas
-                const ctx = canvas.getContext('2d');
-                ctx?.drawImage(img, 0, 0, width, height);
-
-                // 4. Export as compressed JPEG Blob
-                canvas.toBlob(
-                    (blob) => {
-                        if (blob) {
-                            console.log(`Compressed: ${(blob.size / 1024).toFixed(2)} KB`); // Debug log
-                            resolve(blob);
-                        } else {
-                            reject(new Error('Canvas to Blob conversion failed'));
-                        }
-                    },
-                    'image/jpeg', // Always convert to JPEG for size
-                    quality
-                );
-            };
-
-            img.onerror = (err) => reject(err);
-        };
-
-        reader.onerror = (err) => reject(err);
-    });
-};
\ No newline at end of file
+async function compressWithDomCanvas(
+    file: Blob,
+    { quality = 0.7, maxWidth = 1024, format = 'image/webp' }: CompressOptions,
+): Promise<CompressedImage> {
+    const metadata = await readPhotoMetadata(file);
+    const url = URL.createObjectURL(file);
+
+    try {
+        const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+            const image = new Image();
+            image.onload = () => resolve(image);
+            image.onerror = () => reject(new Error('Image decode failed'));
+            image.src = url;
+        });
+
+        const { width, height } = fitWidth(img.naturalWidth, img.naturalHeight, maxWidth);
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')?.drawImage(img, 0, 0, width, height);
+
+        const toBlob = (type: string) =>
+            new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+        let blob = await toBlob(format);
+        if (!blob || blob.type !== format) blob = await toBlob('image/jpeg');
+        if (!blob) throw new Error('Canvas to Blob conversion failed');
+
+        return { blob, width, height, metadata };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/**
+ * Resizes and re-encodes a photo off the main thread where possible, correcting
+ * EXIF orientation and returning the photo's own GPS position and capture time.
+ */
+export const compressImage = async (file: Blob, options: CompressOptions = {}): Promise<CompressedImage> => {
+    const compressor = getWorker();
+    if (compressor) {
+        try {
+            const result = await compressInWorker(compressor, file, options);
+            console.log(`[ImageCompressor] Compressed: ${(result.blob.size / 1024).toFixed(2)} KB`);
+            return result;
+        } catch (error) {
+            console.warn('[ImageCompressor] Worker compression failed, retrying on the main thread:', error);
+        }
+    }
+
+    return canCompressOffscreen()
+        ? compressWithOffscreenCanvas(file, options)
+        : compressWithDomCanvas(file, options);
+};
@@ -0,0 +1,70 @@
+import { readPhotoMetadata, type PhotoMetadata } from './exif';
+
+/**
+ * Image compression that only uses worker-safe APIs (createImageBitmap and
+ * OffscreenCanvas). Used by the compression worker and, where workers aren't
+ * available, directly on the main thread.
+ */
+
+export type ImageOutputFormat = 'image/webp' | 'image/jpeg';
+
+export interface CompressOptions {
+    /** 0.0 to 1.0. Default 0.7 */
+    quality?: number;
+    /** Max width in pixels. Default 1024 */
+    maxWidth?: number;
+    /** Falls back to JPEG where the browser can't encode WebP. Default WebP */
+    format?: ImageOutputFormat;
+}
+
+export interface CompressedImage {
+    blob: Blob;
+    width: number;
+    height: number;
+    metadata: PhotoMetadata;
+}
+
+export interface CompressRequest {
+    id: number;
+    file: Blob;
+    options: CompressOptions;
+}
+
+export type CompressResponse =
+    | { id: number; result: CompressedImage }
+    | { id: number; error: string };
+
+export const canCompressOffscreen = () =>
+    typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function';
+
+export function fitWidth(width: number, height: number, maxWidth: number) {
+    if (width <= maxWidth) return { width, height };
+    return { width: maxWidth, height: Math.round((height * maxWidth) / width) };
+}
+
+export async function compressWithOffscreenCanvas(
+    file: Blob,
+    { quality = 0.7, maxWidth = 1024, format = 'image/webp' }: CompressOptions = {},
+): Promise<CompressedImage> {
+    const metadata = await readPhotoMetadata(file);
+    // 'from-image' applies the EXIF orientation, so portrait shots come out upright
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+    try {
+        const { width, height } = fitWidth(bitmap.width, bitmap.height, maxWidth);
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('2D canvas context unavailable');
+        ctx.drawImage(bitmap, 0, 0, width, height);
+
+        let blob = await canvas.convertToBlob({ type: format, quality });
+        // Browsers without the requested encoder silently return PNG
+        if (blob.type !== format) {
+            blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+        }
+
+        return { blob, width, height, metadata };
+    } finally {
+        bitmap.close();
+    }
+}
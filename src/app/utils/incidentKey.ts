@@ -0,0 +1,7 @@
+import type { Incident } from '../../types/incident';
+
+/**
+ * Identity that survives sync: a report is `FIELD-<local id>` until its server row
+ * (with its own UUID) replaces it, and both carry the same local ID.
+ */
+export const getIncidentKey = (incident: Incident) => incident.localId ?? incident.id;
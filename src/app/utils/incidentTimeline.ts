@@ -0,0 +1,66 @@
+import type { Incident, IncidentEvent, ResponseTimes } from '../../types/incident';
+
+/**
+ * Reads an incident's audit trail for the dashboard: response times for the table and
+ * badges, and one-line descriptions for the timeline in the detail panel.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+const isStatusChangeTo = (statuses: Incident['status'][]) => (event: IncidentEvent) =>
+    event.kind === 'status' && statuses.includes(event.newValue as Incident['status']);
+
+/**
+ * Time to dispatch runs from the report to the first dispatch (or a unit responding
+ * without one). Time to resolve runs to the last resolution, so a reopened incident
+ * has none until it is resolved again. `events` must be oldest first.
+ */
+export function getResponseTimes(incident: Incident, events: IncidentEvent[]): ResponseTimes {
+    const reportedAt = incident.timestamp.getTime();
+    const since = (event: IncidentEvent | undefined) =>
+        event ? Math.max(0, new Date(event.at).getTime() - reportedAt) : undefined;
+
+    const dispatched = events.find(isStatusChangeTo(['Dispatched', 'Responding']));
+    const resolved = incident.status === 'Resolved' ? [...events].reverse().find(isStatusChangeTo(['Resolved'])) : undefined;
+    return { toDispatchMs: since(dispatched), toResolveMs: since(resolved) };
+}
+
+/** Middle value, or undefined for an empty list */
+export function median(values: number[]): number | undefined {
+    if (values.length === 0) return undefined;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** Compact duration, e.g. `<1m`, `42m`, `3h 05m`, `2d 4h` */
+export function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / MINUTE_MS);
+    if (minutes < 1) return '<1m';
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+// `image_urls` → `Image urls`
+const toFieldLabel = (field: string) => {
+    const words = field.replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** What happened, in English, e.g. `Status Active → Dispatched` */
+export function describeIncidentEvent(event: IncidentEvent): string {
+    switch (event.kind) {
+        case 'created':
+            return 'Reported';
+        case 'read':
+            return 'Opened by command';
+        case 'status':
+            return `Status ${event.oldValue ?? '—'} → ${event.newValue ?? '—'}`;
+        case 'assignment':
+            return event.newValue ? `${event.newValue} assigned` : `${event.oldValue ?? 'Unit'} released`;
+        case 'edit':
+            return `${toFieldLabel(event.field ?? 'Field')} changed`;
+    }
+}
@@ -0,0 +1,164 @@
+import {
+    AlertTriangle,
+    Building2,
+    Construction,
+    Droplets,
+    Flame,
+    Mountain,
+    Trees,
+    Waves,
+    Wind,
+    Zap,
+    type LucideIcon,
+} from 'lucide-react';
+import type { IncidentType, IncidentTypeDefinition } from '../../types/incident';
+
+/**
+ * Icons an admin can pick for an incident type. The registry stores the name,
+ * so only icons listed here can be rendered.
+ */
+export const INCIDENT_TYPE_ICONS: Record<string, LucideIcon> = {
+    Droplets,
+    Mountain,
+    Construction,
+    Zap,
+    Building2,
+    Flame,
+    Waves,
+    Wind,
+    Trees,
+    AlertTriangle,
+};
+
+const FALLBACK_ICON = 'AlertTriangle';
+const FALLBACK_COLOR = '#6b7280';
+
+/**
+ * Built-in types, used until the device has downloaded the registry and as the
+ * seed when the remote table is empty.
+ */
+export const DEFAULT_INCIDENT_TYPES: IncidentTypeDefinition[] = [
+    {
+        id: 'Flood',
+        label: 'Flood',
+        labels: { si: 'ගංවතුර', ta: 'வெள்ளம்' },
+        icon: 'Droplets',
+        color: '#2563eb',
+        keywords: {
+            en: [
+                'flood', 'floods', 'flooding', 'flooded', 'submerged', 'inundated',
+                'water level', 'water levels', 'water rising', 'rising water',
+                'overflowing', 'river burst', 'river overflowed',
+            ],
+            si: [
+                'ගංවතුර', 'ජලගැලීම', 'ජල ගැලීම', 'වතුර පිරි', 'වතුර මට්ටම',
+                'යටවෙලා', 'යට වෙලා',
+            ],
+            ta: ['வெள்ள', 'நீர்மட்ட', 'நீரில் மூழ்க', 'மூழ்கி'],
+        },
+        enabled: true,
+        sortOrder: 0,
+    },
+    {
+        id: 'Landslide',
+        label: 'Landslide',
+        labels: { si: 'නායයෑම', ta: 'மண்சரிவு' },
+        icon: 'Mountain',
+        color: '#92400e',
+        keywords: {
+            en: [
+                'landslide', 'landslides', 'mudslide', 'mudslides', 'land slide',
+                'mud slide', 'earth slip', 'earth slips', 'earth slide', 'soil erosion',
+                'slope collapsed', 'rockfall', 'rock fall',
+            ],
+            si: [
+                'නායයෑම', 'නාය යෑම', 'නායයාම', 'නාය ගිහින්', 'පස් කඩා', 'කඳු කඩා',
+                'ගල් පෙරළ',
+            ],
+            ta: ['மண்சரி', 'மண் சரி', 'நிலச்சரி', 'பாறை சரி'],
+        },
+        enabled: true,
+        sortOrder: 1,
+    },
+    {
+        id: 'Road Block',
+        label: 'Road Block',
+        labels: { si: 'මාර්ග අවහිරය', ta: 'வீதித் தடை' },
+        icon: 'Construction',
+        color: '#ea580c',
+        keywords: {
+            en: [
+                'road block', 'roadblock', 'road blocked', 'road closure', 'road closed',
+                'blocked road', 'debris on road', 'debris on the road', 'tree fallen',
+                'fallen tree', 'tree down', 'trees down', 'impassable',
+            ],
+            si: [
+                'මාර්ගය අවහිර', 'මාර්ග අවහිර', 'පාර අවහිර', 'පාර වැහිලා', 'පාර වහලා',
+                'ගහක් වැටිලා', 'ගස් වැටිලා', 'ගස වැටිලා',
+            ],
+            ta: [
+                'வீதி தடை', 'வீதித் தடை', 'பாதை தடை', 'சாலை தடை', 'வீதி மூட',
+                'மரம் விழு', 'மரங்கள் விழு', 'மரம் முறி',
+            ],
+        },
+        enabled: true,
+        sortOrder: 2,
+    },
+    {
+        id: 'Power Line Down',
+        label: 'Power Line Down',
+        labels: { si: 'විදුලි රැහැන් කඩා වැටීම', ta: 'மின்கம்பி அறுந்து விழுந்தது' },
+        icon: 'Zap',
+        color: '#ca8a04',
+        keywords: {
+            en: [
+                'power line', 'power lines', 'powerline', 'powerlines', 'power down',
+                'power cut', 'power outage', 'electric', 'electrical', 'electricity',
+                'blackout', 'no power', 'no electricity', 'wire down', 'wires down',
+                'downed wire', 'downed wires', 'live wire', 'live wires', 'transformer',
+            ],
+            si: [
+                'විදුලි රැහැන', 'විදුලි කණු', 'විදුලිය නැහැ', 'විදුලිය නෑ',
+                'විදුලිය ඇනහිට', 'විදුලි', 'ට්‍රාන්ස්ෆෝමර්',
+            ],
+            ta: [
+                'மின்கம்பி', 'மின் கம்பி', 'மின்கம்ப', 'மின் கம்ப', 'மின்சாரம் இல்லை',
+                'மின்தடை', 'மின் தடை', 'மின்மாற்றி', 'மின்சார',
+            ],
+        },
+        enabled: true,
+        sortOrder: 3,
+    },
+];
+
+/**
+ * Looks up a type, falling back to a neutral placeholder for IDs this device
+ * hasn't seen yet (e.g. a type added after the registry was last cached).
+ */
+export function getIncidentTypeDefinition(
+    types: IncidentTypeDefinition[],
+    id: IncidentType,
+): IncidentTypeDefinition {
+    return types.find((type) => type.id === id) ?? {
+        id,
+        label: id,
+        labels: {},
+        icon: FALLBACK_ICON,
+        color: FALLBACK_COLOR,
+        keywords: {},
+        enabled: false,
+        sortOrder: Number.MAX_SAFE_INTEGER,
+    };
+}
+
+export function getIncidentTypeLabel(type: IncidentTypeDefinition, language: string): string {
+    return type.labels[language] || type.label;
+}
+
+export function getIncidentTypeIcon(type: IncidentTypeDefinition): LucideIcon {
+    return INCIDENT_TYPE_ICONS[type.icon] ?? INCIDENT_TYPE_ICONS[FALLBACK_ICON];
+}
+
+export function sortIncidentTypes(types: IncidentTypeDefinition[]): IncidentTypeDefinition[] {
+    return [...types].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+}
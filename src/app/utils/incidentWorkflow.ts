@@ -0,0 +1,115 @@
+import type { Incident } from '../../types/incident';
+import { formatMessage, type MessageKey, type MessageParams } from '../i18n/messages';
+
+/**
+ * The incident status workflow, shared by the command dashboard, the field app and the
+ * local backend so all three refuse the same changes. The Supabase database is
+ * expected to enforce the same table with a trigger (see README).
+ *
+ * Commanders dispatch, a field unit acknowledges (Responding), commanders resolve from
+ * any open status and can reopen a resolved incident, which goes back to Active.
+ */
+
+export type IncidentStatus = Incident['status'];
+
+/** Commanders are admins on the dashboard; responders are field units */
+export type IncidentRole = 'commander' | 'responder';
+
+export type StatusAction = 'dispatch' | 'acknowledge' | 'resolve' | 'reopen';
+
+export interface StatusTransition {
+    action: StatusAction;
+    from: IncidentStatus[];
+    to: IncidentStatus;
+    roles: IncidentRole[];
+    /** Resolving and reopening need a reason for the audit trail */
+    requiresReason: boolean;
+    /** Button label on the dashboard */
+    label: string;
+}
+
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+    {
+        action: 'dispatch',
+        from: ['Active'],
+        to: 'Dispatched',
+        roles: ['commander'],
+        requiresReason: false,
+        label: 'Dispatch Response Team',
+    },
+    {
+        // Commanders can log an acknowledgement that came in by radio
+        action: 'acknowledge',
+        from: ['Dispatched'],
+        to: 'Responding',
+        roles: ['responder', 'commander'],
+        requiresReason: false,
+        label: 'Mark as Responding',
+    },
+    {
+        action: 'resolve',
+        from: ['Active', 'Dispatched', 'Responding'],
+        to: 'Resolved',
+        roles: ['commander'],
+        requiresReason: true,
+        label: 'Mark as Resolved',
+    },
+    {
+        action: 'reopen',
+        from: ['Resolved'],
+        to: 'Active',
+        roles: ['commander'],
+        requiresReason: true,
+        label: 'Reopen Incident',
+    },
+];
+
+/**
+ * Thrown for a status change the workflow doesn't allow. `message` is English for logs
+ * and server errors; show the user `translate(t)` instead.
+ */
+export class StatusTransitionError extends Error {
+    readonly key: MessageKey;
+    /** Statuses named in the message, translated along with it */
+    readonly statuses: Record<string, IncidentStatus>;
+
+    constructor(key: MessageKey, statuses: Record<string, IncidentStatus> = {}) {
+        super(formatMessage('en', key, statuses));
+        this.name = 'StatusTransitionError';
+        this.key = key;
+        this.statuses = statuses;
+    }
+
+    translate(t: (key: MessageKey, params?: MessageParams) => string): string {
+        const params = Object.fromEntries(
+            Object.entries(this.statuses).map(([name, status]) => [name, t(`workflow.status.${status}`)]),
+        );
+        return t(this.key, params);
+    }
+}
+
+export const getIncidentRole = (isAdmin: boolean): IncidentRole => (isAdmin ? 'commander' : 'responder');
+
+export function getTransition(from: IncidentStatus, to: IncidentStatus): StatusTransition | undefined {
+    return STATUS_TRANSITIONS.find((transition) => transition.from.includes(from) && transition.to === to);
+}
+
+/** What `role` may do to an incident in `status`, in workflow order */
+export function getAvailableTransitions(status: IncidentStatus, role: IncidentRole): StatusTransition[] {
+    return STATUS_TRANSITIONS.filter((transition) => transition.from.includes(status) && transition.roles.includes(role));
+}
+
+/** Throws a StatusTransitionError unless `role` may move the incident from `from` to `to` */
+export function assertStatusChange(from: IncidentStatus, to: IncidentStatus, role: IncidentRole, reason?: string) {
+    if (from === to) throw new StatusTransitionError('workflow.alreadyInStatus', { status: to });
+
+    const transition = getTransition(from, to);
+    if (!transition) throw new StatusTransitionError('workflow.invalidTransition', { from, to });
+    if (!transition.roles.includes(role)) {
+        throw new StatusTransitionError(`workflow.roleRequired.${transition.action}`);
+    }
+    if (transition.requiresReason && !reason?.trim()) {
+        throw new StatusTransitionError(`workflow.reasonRequired.${transition.action}`);
+    }
+    return transition;
+}
@@ -0,0 +1,25 @@
+/**
+ * IDs for entries admins add to the registries (incident types, report form fields).
+ * They are permanent, so they come from the English label once, when the entry is made.
+ */
+
+/**
+ * Lower-case words joined by underscores ("People affected" -> "people_affected").
+ * Empty when the label has no Latin letters or digits.
+ */
+export function slugify(label: string): string {
+    return label
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * The slug of `label`, or `<prefix>_<random>` for a label written only in Sinhala or
+ * Tamil, which has nothing to slug. IDs double as react-hook-form paths and JSON keys,
+ * so they stay within the same characters either way.
+ */
+export function toRegistryId(label: string, prefix: string): string {
+    return slugify(label) || `${prefix}_${crypto.randomUUID().slice(0, 8)}`;
+}
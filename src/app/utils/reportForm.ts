@@ -0,0 +1,47 @@
+import type {
+    CustomFieldAnswers,
+    CustomFieldValue,
+    IncidentType,
+    ReportFormField,
+} from '../../types/incident';
+
+export function isFieldForType(field: ReportFormField, type: IncidentType): boolean {
+    return field.incidentTypes.length === 0 || field.incidentTypes.includes(type);
+}
+
+export function getReportFormFieldLabel(field: ReportFormField, language: string): string {
+    return field.labels[language] || field.label;
+}
+
+export function sortReportFormFields(fields: ReportFormField[]): ReportFormField[] {
+    return [...fields].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+}
+
+/**
+ * Converts raw form values into typed answers for the fields asked, dropping
+ * blanks so the report only carries what the responder actually answered.
+ */
+export function collectCustomFieldAnswers(
+    fields: ReportFormField[],
+    values: Record<string, unknown>,
+): CustomFieldAnswers | undefined {
+    const answers: CustomFieldAnswers = {};
+
+    for (const field of fields) {
+        const raw = values[field.id];
+        let value: CustomFieldValue | undefined;
+
+        if (field.kind === 'checkbox') {
+            value = raw === true ? true : undefined;
+        } else if (field.kind === 'number') {
+            value = raw === '' || raw === undefined || raw === null ? undefined : Number(raw);
+            if (value !== undefined && !Number.isFinite(value)) value = undefined;
+        } else if (typeof raw === 'string' && raw.trim()) {
+            value = raw.trim();
+        }
+
+        if (value !== undefined) answers[field.id] = value;
+    }
+
+    return Object.keys(answers).length > 0 ? answers : undefined;
+}
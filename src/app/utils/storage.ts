@@ -1,13 +1,19 @@
+import type { CasualtyCounts, CustomFieldAnswers, DamageAssessment, IncidentType } from '../../types/incident';
+import { TRAINING_MODE_KEY } from './trainingMode';
+
 export interface IncidentReport {
   id: string;
-  type: 'Flood' | 'Landslide' | 'Road Block' | 'Power Line Down';
+  type: IncidentType;
   severity: 1 | 2 | 3 | 4 | 5;
   location: {
     latitude: number;
     longitude: number;
   };
   timestamp: string;
-  photo?: string;
+  description?: string;
+  assessment?: DamageAssessment;
+  customFields?: CustomFieldAnswers;
+  casualties?: CasualtyCounts;
   status: 'local' | 'pending' | 'syncing' | 'synced' | 'failed';
   createdAt: string;
 }
@@ -16,6 +22,7 @@ const STORAGE_KEYS = {
   REPORTS: 'field_responder_reports',
   USER: 'field_responder_user',
   AUTH_TOKEN: 'field_responder_auth',
+  LANGUAGE: 'field_responder_language',
 };
 
 export const storage = {
@@ -46,7 +53,21 @@ export const storage = {
     localStorage.removeItem(STORAGE_KEYS.USER);
   },
 
+  // Language (kept across logouts so the next responder on this device sees the same UI)
+  setLanguage: (language: string) => {
+    localStorage.setItem(STORAGE_KEYS.LANGUAGE, language);
+  },
+
+  getLanguage: (): string | null => {
+    return localStorage.getItem(STORAGE_KEYS.LANGUAGE);
+  },
+
   clearAllData: () => {
+    const language = localStorage.getItem(STORAGE_KEYS.LANGUAGE);
+    // Training mode outlives a logout too: this page's databases were opened for it
+    const trainingMode = localStorage.getItem(TRAINING_MODE_KEY);
     localStorage.clear();
+    if (language) localStorage.setItem(STORAGE_KEYS.LANGUAGE, language);
+    if (trainingMode) localStorage.setItem(TRAINING_MODE_KEY, trainingMode);
   },
 };
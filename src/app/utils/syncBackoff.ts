@@ -0,0 +1,51 @@
+import type { IncidentReport } from '../../db/db';
+
+/** After this many failed attempts a report stops retrying until the responder taps Retry */
+export const MAX_SYNC_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+/** Statuses the sync manager picks up. `syncing` rows are left over from a sync the app was closed during */
+export const SYNCABLE_STATUSES: IncidentReport['status'][] = ['local', 'pending', 'syncing'];
+
+/**
+ * Exponential backoff with jitter: 15s, 30s, 1m, 2m… capped at 30 minutes. The jitter
+ * (50–100% of the step) stops a crew's phones retrying in lockstep when coverage returns.
+ */
+export function getRetryDelay(attempts: number): number {
+    const step = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+    return Math.round(step * (0.5 + Math.random() * 0.5));
+}
+
+/** Whether the report is waiting to sync and its backoff (if any) has run out */
+export function isDueForSync(report: IncidentReport, now = Date.now(), ignoreBackoff = false): boolean {
+    if (!SYNCABLE_STATUSES.includes(report.status)) return false;
+    if (ignoreBackoff || !report.nextRetryAt) return true;
+    return new Date(report.nextRetryAt).getTime() <= now;
+}
+
+/** Fields to write after a failed attempt; gives up for good after MAX_SYNC_ATTEMPTS */
+export function getFailureUpdate(report: IncidentReport, error: string, now = Date.now()): Partial<IncidentReport> {
+    const attempts = (report.attempts ?? 0) + 1;
+    const exhausted = attempts >= MAX_SYNC_ATTEMPTS;
+
+    return {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        lastError: error,
+        lastAttemptAt: new Date(now).toISOString(),
+        nextRetryAt: exhausted ? undefined : new Date(now + getRetryDelay(attempts)).toISOString(),
+    };
+}
+
+/** Earliest scheduled retry among `reports`, as epoch ms */
+export function getNextRetryTime(reports: IncidentReport[]): number | null {
+    let next: number | null = null;
+    for (const report of reports) {
+        if (report.status !== 'pending' || !report.nextRetryAt) continue;
+        const at = new Date(report.nextRetryAt).getTime();
+        if (next === null || at < next) next = at;
+    }
+    return next;
+}
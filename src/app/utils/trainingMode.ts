@@ -0,0 +1,29 @@
+/**
+ * Training mode runs the whole app against separate databases: the device's reports,
+ * outbox and incident cache, and a local exercise backend. Operational data is never
+ * opened while it is on, so nothing from a drill can reach it.
+ */
+
+export const TRAINING_MODE_KEY = 'field_responder_training';
+
+// The service worker has no localStorage and always works on operational data
+const readTrainingMode = () => typeof localStorage !== 'undefined' && localStorage.getItem(TRAINING_MODE_KEY) === 'on';
+
+/** Fixed for the page's lifetime: databases and the backend are chosen once at startup */
+export const TRAINING_MODE = readTrainingMode();
+
+/** Switches mode by reloading, so every database is reopened for the new mode */
+export function setTrainingMode(enabled: boolean) {
+    if (enabled) localStorage.setItem(TRAINING_MODE_KEY, 'on');
+    else localStorage.removeItem(TRAINING_MODE_KEY);
+    window.location.reload();
+}
+
+/** Reloads this tab when another tab switches mode, so tabs never mix the two */
+export function watchTrainingMode(): () => void {
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key === TRAINING_MODE_KEY && readTrainingMode() !== TRAINING_MODE) window.location.reload();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+}
@@ -0,0 +1,225 @@
+import type { CasualtyCounts, Incident, IncidentType } from '../../types/incident';
+import type { NewIncident } from '../backend/repositories';
+
+/**
+ * Synthetic incident streams for monsoon drills. A scenario is a timeline of reports
+ * and status changes, in minutes from the start of the drill, built from a seed so the
+ * same drill can be run again for another shift.
+ */
+
+export interface TrainingDistrict {
+    id: string;
+    name: string;
+    center: { lat: number; lng: number };
+    radiusKm: number;
+    /** Hill districts see more landslides, lowland ones more flooding */
+    terrain: 'lowland' | 'hill';
+}
+
+export const TRAINING_DISTRICTS: TrainingDistrict[] = [
+    { id: 'ratnapura', name: 'Ratnapura', center: { lat: 6.6828, lng: 80.3992 }, radiusKm: 20, terrain: 'hill' },
+    { id: 'kegalle', name: 'Kegalle', center: { lat: 7.2513, lng: 80.3464 }, radiusKm: 15, terrain: 'hill' },
+    { id: 'badulla', name: 'Badulla', center: { lat: 6.9934, lng: 81.055 }, radiusKm: 20, terrain: 'hill' },
+    { id: 'nuwara-eliya', name: 'Nuwara Eliya', center: { lat: 6.9497, lng: 80.7891 }, radiusKm: 15, terrain: 'hill' },
+    { id: 'colombo', name: 'Colombo', center: { lat: 6.9271, lng: 79.8612 }, radiusKm: 12, terrain: 'lowland' },
+    { id: 'gampaha', name: 'Gampaha', center: { lat: 7.084, lng: 80.0098 }, radiusKm: 15, terrain: 'lowland' },
+    { id: 'kalutara', name: 'Kalutara', center: { lat: 6.5854, lng: 79.9607 }, radiusKm: 15, terrain: 'lowland' },
+    { id: 'galle', name: 'Galle', center: { lat: 6.0535, lng: 80.221 }, radiusKm: 15, terrain: 'lowland' },
+];
+
+export interface ScenarioOptions {
+    districtId: string;
+    seed: number;
+    incidentCount: number;
+    /** Drill length in minutes; reports arrive throughout, in bursts */
+    durationMinutes: number;
+}
+
+/** A report as it will be filed, minus what the replay fills in at filing time */
+export type ScenarioReport = Omit<NewIncident, 'localId' | 'createdAt' | 'occurredAt' | 'userId'>;
+
+/** `atMinute` counts from the start of the drill; `key` ties status changes to their report */
+export type ScenarioEvent =
+    | { type: 'report'; atMinute: number; key: string; report: ScenarioReport }
+    | { type: 'status'; atMinute: number; key: string; status: Incident['status'] };
+
+export interface TrainingScenario {
+    district: TrainingDistrict;
+    seed: number;
+    durationMinutes: number;
+    /** Sorted by `atMinute` */
+    events: ScenarioEvent[];
+}
+
+const TYPE_WEIGHTS: Record<TrainingDistrict['terrain'], Record<IncidentType, number>> = {
+    lowland: { Flood: 0.55, Landslide: 0.05, 'Road Block': 0.25, 'Power Line Down': 0.15 },
+    hill: { Flood: 0.25, Landslide: 0.4, 'Road Block': 0.25, 'Power Line Down': 0.1 },
+};
+
+// Chance of severity 1…5 for each type
+const SEVERITY_WEIGHTS: Record<IncidentType, number[]> = {
+    Flood: [0.15, 0.25, 0.3, 0.2, 0.1],
+    Landslide: [0.05, 0.15, 0.3, 0.3, 0.2],
+    'Road Block': [0.3, 0.35, 0.25, 0.08, 0.02],
+    'Power Line Down': [0.2, 0.3, 0.3, 0.15, 0.05],
+};
+
+const DESCRIPTIONS: Record<IncidentType, string[]> = {
+    Flood: [
+        'Water rising around houses near the main road; families moving to upper floors.',
+        'River has overflowed onto paddy fields and the access road is under water.',
+        'Knee-deep water in the village school, which is being used as a shelter.',
+        'Drainage canal blocked, several lanes flooded and residents asking for boats.',
+    ],
+    Landslide: [
+        'Earth slip behind a line of estate houses, cracks widening on the slope.',
+        'Mud and rocks have come down onto two houses after heavy overnight rain.',
+        'Small slope failure beside the road, more loose soil above it.',
+        'Residents report rumbling and tilting trees on the hillside above the village.',
+    ],
+    'Road Block': [
+        'Fallen tree across the road, vehicles cannot pass in either direction.',
+        'Road washed out at the culvert, only motorbikes getting through.',
+        'Debris from a small slip covering one lane of the main road.',
+    ],
+    'Power Line Down': [
+        'Power line down across a flooded lane, sparks seen near the water.',
+        'Leaning utility pole with live wires hanging low over the road.',
+        'Transformer area flooded, power cut to the whole neighbourhood.',
+    ],
+};
+
+/** Small seeded PRNG (mulberry32); Math.random can't replay a drill */
+function createRandom(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function pickWeighted<T>(random: () => number, entries: [T, number][]): T {
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = random() * total;
+    for (const [value, weight] of entries) {
+        roll -= weight;
+        if (roll <= 0) return value;
+    }
+    return entries[entries.length - 1][0];
+}
+
+const pick = <T>(random: () => number, values: T[]): T => values[Math.floor(random() * values.length)];
+
+const between = (random: () => number, min: number, max: number) => min + random() * (max - min);
+
+// Box-Muller: normally distributed, so incidents bunch around a hotspot's centre
+function gaussian(random: () => number): number {
+    return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function offsetKm(center: { lat: number; lng: number }, northKm: number, eastKm: number) {
+    return {
+        latitude: center.lat + northKm / 111.32,
+        longitude: center.lng + eastKm / (111.32 * Math.cos((center.lat * Math.PI) / 180)),
+    };
+}
+
+function pointInDistrict(random: () => number, district: TrainingDistrict, maxShare: number) {
+    const distance = Math.sqrt(random()) * district.radiusKm * maxShare;
+    const bearing = random() * 2 * Math.PI;
+    return offsetKm(district.center, distance * Math.cos(bearing), distance * Math.sin(bearing));
+}
+
+function generateCasualties(random: () => number, type: IncidentType, severity: Incident['severity']): CasualtyCounts | undefined {
+    if (severity < 3) return undefined;
+    const scale = severity - 2;
+    return {
+        trapped: type === 'Landslide' ? Math.floor(random() * 3 * scale) : undefined,
+        injured: Math.floor(random() * 2 * scale),
+        missing: severity === 5 && random() < 0.3 ? 1 + Math.floor(random() * 2) : undefined,
+        evacuated: type === 'Flood' ? Math.floor(between(random, 5, 25) * scale) : undefined,
+    };
+}
+
+/**
+ * Builds a drill: a few hotspots, each a burst of reports of one dominant type
+ * clustered in space and time, plus scattered background reports. Each report then
+ * moves through Dispatched and Responding, and most are resolved, faster for the
+ * more severe ones. Changes that would fall after the drill ends are left out.
+ */
+export function generateScenario({ districtId, seed, incidentCount, durationMinutes }: ScenarioOptions): TrainingScenario {
+    const district = TRAINING_DISTRICTS.find((d) => d.id === districtId) ?? TRAINING_DISTRICTS[0];
+    const random = createRandom(seed);
+    const typeWeights = Object.entries(TYPE_WEIGHTS[district.terrain]);
+
+    const hotspots = Array.from({ length: 2 + Math.floor(random() * 3) }, () => ({
+        center: pointInDistrict(random, district, 0.7),
+        startMinute: random() * 0.6 * durationMinutes,
+        type: pickWeighted(random, typeWeights),
+    }));
+
+    const events: ScenarioEvent[] = [];
+
+    for (let i = 0; i < incidentCount; i++) {
+        const key = `T${String(i + 1).padStart(3, '0')}`;
+        const hotspot = random() < 0.8 ? pick(random, hotspots) : null;
+
+        let atMinute: number;
+        let location: { latitude: number; longitude: number };
+        let type: IncidentType;
+        if (hotspot) {
+            // Reports tail off after a hotspot starts, like calls after a river bursts
+            const delay = -Math.log(1 - random()) * 0.15 * durationMinutes;
+            atMinute = Math.min(hotspot.startMinute + delay, durationMinutes * 0.95);
+            location = offsetKm(
+                { lat: hotspot.center.latitude, lng: hotspot.center.longitude },
+                gaussian(random) * 1.5,
+                gaussian(random) * 1.5,
+            );
+            type = random() < 0.7 ? hotspot.type : pickWeighted(random, typeWeights);
+        } else {
+            atMinute = random() * durationMinutes * 0.95;
+            location = pointInDistrict(random, district, 1);
+            type = pickWeighted(random, typeWeights);
+        }
+
+        const severity = pickWeighted(
+            random,
+            SEVERITY_WEIGHTS[type].map((weight, index): [Incident['severity'], number] => [(index + 1) as Incident['severity'], weight]),
+        );
+
+        events.push({
+            type: 'report',
+            atMinute,
+            key,
+            report: {
+                type,
+                severity,
+                location,
+                description: pick(random, DESCRIPTIONS[type]),
+                casualties: generateCasualties(random, type, severity),
+                imageUrls: [],
+            },
+        });
+
+        // Severe incidents are dispatched first
+        const urgency = severity >= 4 ? 0.5 : 1;
+        const dispatchedAt = atMinute + between(random, 2, 12) * urgency;
+        const respondingAt = dispatchedAt + between(random, 3, 10);
+        const resolvedAt = respondingAt + between(random, 15, type === 'Landslide' ? 90 : 60);
+        const progression: [number, Incident['status']][] = [
+            [dispatchedAt, 'Dispatched'],
+            [respondingAt, 'Responding'],
+            ...(random() < 0.75 ? [[resolvedAt, 'Resolved'] as [number, Incident['status']]] : []),
+        ];
+        for (const [at, status] of progression) {
+            if (at <= durationMinutes) events.push({ type: 'status', atMinute: at, key, status });
+        }
+    }
+
+    events.sort((a, b) => a.atMinute - b.atMinute);
+    return { district, seed, durationMinutes, events };
+}
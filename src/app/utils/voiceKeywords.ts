@@ -0,0 +1,78 @@
+import type { IncidentReport } from '../utils/storage';
+import type { Language } from '../i18n/messages';
+
+type Severity = IncidentReport['severity'];
+
+// Language rules for the voice parser. Incident type keywords live on each type in the
+// incident type registry so admins can extend them.
+export interface VoiceKeywordPack {
+    severity: Record<Severity, string[]>;
+    /** Words that negate the keyword after them ("not serious") */
+    negators: string[];
+    /** Words that negate the keyword before them (Sinhala "බරපතල නැහැ", Tamil "ஆபத்து இல்லை") */
+    trailingNegators: string[];
+    /** Words that end one clause and start another, so negation doesn't leak across them */
+    clauseBreaks: string[];
+    /**
+     * Match keywords as word stems. Sinhala and Tamil attach case and tense suffixes
+     * to the word itself (ගංවතුරෙන්, வெள்ளத்தில்), so exact matching would miss them.
+     */
+    matchStems: boolean;
+}
+
+const en: VoiceKeywordPack = {
+    severity: {
+        5: [
+            'critical', 'emergency', 'life threatening', 'severe', 'extremely dangerous',
+            'people trapped', 'trapped', 'deaths', 'dead', 'fatalities', 'fatality',
+            'dying', 'mass casualty',
+        ],
+        4: [
+            'high', 'serious', 'seriously', 'dangerous', 'danger', 'major', 'urgent',
+            'urgently', 'injuries', 'injured', 'hurt', 'badly damaged',
+        ],
+        3: ['moderate', 'medium', 'fair', 'significant', 'considerable'],
+        2: ['low', 'small', 'limited'],
+        1: ['minor', 'minimal', 'slight', 'slightly', 'negligible', 'under control'],
+    },
+    negators: [
+        'no', 'not', 'never', 'without', 'nobody', 'nothing', 'none', 'zero',
+        'isnt', 'arent', 'wasnt', 'werent', 'dont', 'doesnt', 'didnt', 'cant',
+    ],
+    trailingNegators: [],
+    clauseBreaks: ['but', 'although', 'though', 'however', 'yet'],
+    matchStems: false,
+};
+
+const si: VoiceKeywordPack = {
+    severity: {
+        5: [
+            'ඉතා බරපතල', 'අතිශය බරපතල', 'ඉතා භයානක', 'අතිශය භයානක', 'හදිසි',
+            'හිරවෙලා', 'හිර වෙලා', 'මරණ', 'මියගිහින්', 'මැරිලා', 'ජීවිත අවදානම',
+        ],
+        4: ['බරපතල', 'භයානක', 'අනතුරුදායක', 'තුවාල', 'ඉක්මනින්', 'ඉහළ'],
+        3: ['මධ්‍යම', 'සැලකිය යුතු', 'සාමාන්‍ය'],
+        2: ['අඩු', 'පොඩි', 'කුඩා', 'සීමිත'],
+        1: ['සුළු', 'ඉතා සුළු', 'පාලනය යටතේ'],
+    },
+    negators: [],
+    trailingNegators: ['නැහැ', 'නෑ', 'නැත', 'නැති', 'නොවේ'],
+    clauseBreaks: ['නමුත්', 'ඒත්', 'හැබැයි'],
+    matchStems: true,
+};
+
+const ta: VoiceKeywordPack = {
+    severity: {
+        5: ['மிகவும் ஆபத்த', 'உயிருக்கு ஆபத்து', 'அவசர', 'சிக்கி', 'உயிரிழ', 'மரண', 'இறந்'],
+        4: ['ஆபத்த', 'தீவிர', 'கடுமையான', 'காயம', 'காயமடை', 'காயங்'],
+        3: ['மிதமான', 'நடுத்தர'],
+        2: ['குறைவ', 'குறைந்த', 'சிறிய'],
+        1: ['சிறு', 'கட்டுப்பாட்டில்'],
+    },
+    negators: [],
+    trailingNegators: ['இல்லை', 'இல்ல', 'அல்ல'],
+    clauseBreaks: ['ஆனால்', 'ஆனாலும்'],
+    matchStems: true,
+};
+
+export const VOICE_KEYWORD_PACKS: Record<Language, VoiceKeywordPack> = { en, si, ta };
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { Language } from '../i18n/messages';
+import type { IncidentType } from '../../types/incident';
+import { parseVoiceTranscript } from './voiceParser';
+
+interface Phrase {
+    transcript: string;
+    language?: Language;
+    /** Every type mentioned, best match first */
+    types: IncidentType[];
+    severity: number | null;
+}
+
+// Phrases as responders say them over the radio, transcribed by the browser
+const NEGATIONS: Phrase[] = [
+    { transcript: 'The situation is not serious, just some minor flooding', types: ['Flood'], severity: 1 },
+    { transcript: 'No danger to residents, water level is low', types: ['Flood'], severity: 2 },
+    { transcript: 'No one was seriously hurt in the landslide', types: ['Landslide'], severity: 1 },
+    { transcript: 'Not dangerous but power lines are down', types: ['Power Line Down'], severity: 1 },
+    // Negation stops at "but", so the landslide still counts
+    { transcript: 'No flooding here but a landslide has blocked the road', types: ['Landslide'], severity: null },
+    { transcript: 'Flood water rising fast, people trapped on roofs', types: ['Flood'], severity: 5 },
+    { transcript: 'The road is clear and everything is fine', types: [], severity: null },
+];
+
+const MULTIPLE_TYPES: Phrase[] = [
+    {
+        transcript: 'Fallen tree blocking the road and power lines are down',
+        types: ['Road Block', 'Power Line Down'],
+        severity: null,
+    },
+    { transcript: 'There is flooding and a tree fallen across the road', types: ['Road Block', 'Flood'], severity: null },
+    { transcript: 'Landslide near the school, critical', types: ['Landslide'], severity: 5 },
+];
+
+const LANGUAGE_PACKS: Phrase[] = [
+    { transcript: 'ගංවතුර නිසා පාර අවහිර වෙලා, ඉතා බරපතල', language: 'si', types: ['Road Block', 'Flood'], severity: 5 },
+    { transcript: 'නායයෑමක්, බරපතල නැහැ', language: 'si', types: ['Landslide'], severity: 1 },
+    { transcript: 'ගංවතුරෙන් ගෙවල් යටවෙලා, මිනිස්සු හිරවෙලා', language: 'si', types: ['Flood'], severity: 5 },
+    {
+        transcript: 'வெள்ளத்தில் வீடுகள் மூழ்கி உள்ளன, மிகவும் ஆபத்தான நிலை',
+        language: 'ta',
+        types: ['Flood'],
+        severity: 5,
+    },
+    { transcript: 'மண்சரிவு, ஆபத்து இல்லை', language: 'ta', types: ['Landslide'], severity: 1 },
+    {
+        transcript: 'மரம் விழுந்து வீதி தடை, மின்கம்பி அறுந்துள்ளது',
+        language: 'ta',
+        types: ['Road Block', 'Power Line Down'],
+        severity: null,
+    },
+    // Responders switch to English mid-sentence
+    { transcript: 'Flood in Kaduwela, ආපදාව බරපතල', language: 'si', types: ['Flood'], severity: 4 },
+];
+
+describe('parseVoiceTranscript', () => {
+    describe.each([
+        ['negation', NEGATIONS],
+        ['multiple incident types', MULTIPLE_TYPES],
+        ['Sinhala and Tamil keyword packs', LANGUAGE_PACKS],
+    ])('%s', (_name, phrases) => {
+        it.each(phrases)('"$transcript"', ({ transcript, language, types, severity }) => {
+            const result = parseVoiceTranscript(transcript, language);
+
+            expect(result.incidentTypes).toEqual(types);
+            expect(result.incidentType).toBe(types[0] ?? null);
+            expect(result.severity).toBe(severity);
+        });
+    });
+
+    it('ranks candidates with confidences between 0 and 1', () => {
+        const { typeCandidates } = parseVoiceTranscript('There is flooding and a tree fallen across the road');
+
+        expect(typeCandidates.map((c) => c.value)).toEqual(['Road Block', 'Flood']);
+        expect(typeCandidates[0].confidence).toBeGreaterThan(typeCandidates[1].confidence);
+        for (const { confidence } of typeCandidates) {
+            expect(confidence).toBeGreaterThan(0);
+            expect(confidence).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it('records a negated severity word as the keyword that voted', () => {
+        const { severityCandidates } = parseVoiceTranscript('The situation is not serious');
+
+        expect(severityCandidates[0]).toMatchObject({ value: 1, keywords: ['not serious'] });
+    });
+});
@@ -1,147 +1,309 @@
 import type { IncidentReport } from '../utils/storage';
+import type { IncidentType, IncidentTypeDefinition } from '../../types/incident';
+import type { Language } from '../i18n/messages';
+import { VOICE_KEYWORD_PACKS, type VoiceKeywordPack } from './voiceKeywords';
+import { DEFAULT_INCIDENT_TYPES } from './incidentTypes';
 
-type IncidentType = IncidentReport['type'];
 type Severity = IncidentReport['severity'];
 
+export interface ScoredCandidate<T> {
+    value: T;
+    /** Sum of keyword weights that voted for this value */
+    score: number;
+    /** 0–1, share of the total score scaled down when the evidence is thin */
+    confidence: number;
+    /** Keyword phrases that matched, in transcript order */
+    keywords: string[];
+}
+
+export interface VoiceParseResult {
+    incidentType: IncidentType | null;
+    severity: Severity | null;
+    /** Every incident type mentioned, best match first */
+    incidentTypes: IncidentType[];
+    typeCandidates: ScoredCandidate<IncidentType>[];
+    severityCandidates: ScoredCandidate<Severity>[];
+}
+
+// How many words before a keyword a negator may appear ("no one was seriously hurt")
+const NEGATION_WINDOW = 4;
+
+// How many words after a keyword a trailing negator may appear ("බරපතල නැහැ")
+const TRAILING_NEGATION_WINDOW = 2;
+
+// Score at which a single unambiguous candidate reaches full confidence
+const CONFIDENT_SCORE = 2;
+
+interface KeywordEntry<T> {
+    value: T;
+    phrase: string;
+    tokens: string[];
+    matchStems: boolean;
+}
+
+interface KeywordMatch<T> {
+    entry: KeywordEntry<T>;
+    negated: boolean;
+}
+
+interface ParserRules {
+    packs: VoiceKeywordPack[];
+    languages: Language[];
+    severityEntries: KeywordEntry<Severity>[];
+    negators: Set<string>;
+    trailingNegators: Set<string>;
+    clauseBreaks: Set<string>;
+}
+
+function tokenize(text: string): string[] {
+    return text
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        // Keep combining vowel signs and zero-width joiners, which Sinhala and Tamil words rely on
+        .split(/[^\p{L}\p{M}\p{N}\u200c\u200d]+/u)
+        .filter(Boolean);
+}
+
 /**
- * Detects incident type from voice transcript using keyword matching
+ * Splits a transcript into clauses of lower-cased tokens.
  */
-export function detectIncidentType(transcript: string): IncidentType | null {
-    const lower = transcript.toLowerCase();
-
-    // Check for flood-related keywords
-    if (
-        lower.includes('flood') ||
-        lower.includes('flooding') ||
-        lower.includes('water level') ||
-        lower.includes('submerged') ||
-        lower.includes('water rising')
-    ) {
-        return 'Flood';
-    }
+function toClauses(transcript: string, clauseBreaks: Set<string>): string[][] {
+    const clauses: string[][] = [];
 
-    // Check for landslide-related keywords
-    if (
-        lower.includes('landslide') ||
-        lower.includes('mudslide') ||
-        lower.includes('land slide') ||
-        lower.includes('mud slide') ||
-        lower.includes('earth slip') ||
-        lower.includes('soil erosion')
-    ) {
-        return 'Landslide';
+    for (const sentence of transcript.split(/[.,;:!?\n।]+/)) {
+        let current: string[] = [];
+        for (const token of tokenize(sentence)) {
+            if (clauseBreaks.has(token)) {
+                if (current.length) clauses.push(current);
+                current = [];
+            } else {
+                current.push(token);
+            }
+        }
+        if (current.length) clauses.push(current);
     }
 
-    // Check for road block-related keywords
-    if (
-        lower.includes('road block') ||
-        lower.includes('roadblock') ||
-        lower.includes('road blocked') ||
-        lower.includes('road closure') ||
-        lower.includes('blocked road') ||
-        lower.includes('debris on road') ||
-        lower.includes('tree fallen') ||
-        lower.includes('fallen tree')
-    ) {
-        return 'Road Block';
-    }
+    return clauses;
+}
 
-    // Check for power line-related keywords
-    if (
-        lower.includes('power line') ||
-        lower.includes('powerline') ||
-        lower.includes('power down') ||
-        lower.includes('electric') ||
-        lower.includes('electricity') ||
-        lower.includes('blackout') ||
-        lower.includes('no power') ||
-        lower.includes('wire down') ||
-        lower.includes('downed wire')
-    ) {
-        return 'Power Line Down';
-    }
+/**
+ * Flattens a keyword table, longest phrases first so they win over the words inside them
+ */
+function buildEntries<T>(table: [T, string[]][], matchStems: boolean): KeywordEntry<T>[] {
+    return table.flatMap(([value, phrases]) =>
+        phrases.map((phrase) => ({ value, phrase, tokens: tokenize(phrase), matchStems })),
+    );
+}
+
+const byLength = <T>(entries: KeywordEntry<T>[]) =>
+    entries.sort((a, b) => b.tokens.length - a.tokens.length);
+
+const rulesCache = new Map<Language, ParserRules>();
+
+// Keyed by the registry array so a refreshed registry rebuilds its entries
+const typeEntriesCache = new WeakMap<IncidentTypeDefinition[], Map<Language, KeywordEntry<IncidentType>[]>>();
 
-    return null;
+/**
+ * English keywords are always active because responders switch languages mid-sentence.
+ */
+function getRules(language: Language): ParserRules {
+    const cached = rulesCache.get(language);
+    if (cached) return cached;
+
+    const languages = [...new Set<Language>(['en', language])];
+    const packs = languages.map((code) => VOICE_KEYWORD_PACKS[code]);
+
+    const rules: ParserRules = {
+        packs,
+        languages,
+        severityEntries: byLength(packs.flatMap((pack) =>
+            buildEntries(
+                Object.entries(pack.severity).map(
+                    ([level, phrases]) => [Number(level) as Severity, phrases] as [Severity, string[]],
+                ),
+                pack.matchStems,
+            ),
+        )),
+        negators: new Set(packs.flatMap((pack) => pack.negators)),
+        trailingNegators: new Set(packs.flatMap((pack) => pack.trailingNegators.flatMap(tokenize))),
+        clauseBreaks: new Set(packs.flatMap((pack) => pack.clauseBreaks)),
+    };
+
+    rulesCache.set(language, rules);
+    return rules;
 }
 
 /**
- * Detects severity level from voice transcript using keyword matching
+ * Keyword entries for every enabled registry type, in English plus the active language.
  */
-export function detectSeverity(transcript: string): Severity | null {
-    const lower = transcript.toLowerCase();
-
-    // Critical (5) - Highest urgency
-    if (
-        lower.includes('critical') ||
-        lower.includes('emergency') ||
-        lower.includes('life threatening') ||
-        lower.includes('life-threatening') ||
-        lower.includes('severe') ||
-        lower.includes('extremely dangerous') ||
-        lower.includes('people trapped') ||
-        lower.includes('deaths') ||
-        lower.includes('fatalities') ||
-        lower.includes('dying')
-    ) {
-        return 5;
-    }
+function getTypeEntries(
+    types: IncidentTypeDefinition[],
+    language: Language,
+    rules: ParserRules,
+): KeywordEntry<IncidentType>[] {
+    const byLanguage = typeEntriesCache.get(types) ?? new Map<Language, KeywordEntry<IncidentType>[]>();
+    typeEntriesCache.set(types, byLanguage);
 
-    // High (4)
-    if (
-        lower.includes('high') ||
-        lower.includes('serious') ||
-        lower.includes('dangerous') ||
-        lower.includes('major') ||
-        lower.includes('urgent') ||
-        lower.includes('injuries') ||
-        lower.includes('injured') ||
-        lower.includes('hurt')
-    ) {
-        return 4;
-    }
+    const cached = byLanguage.get(language);
+    if (cached) return cached;
 
-    // Fair (3) - Medium
-    if (
-        lower.includes('moderate') ||
-        lower.includes('medium') ||
-        lower.includes('fair') ||
-        lower.includes('significant')
-    ) {
-        return 3;
+    const enabled = types.filter((type) => type.enabled);
+    const entries = byLength(rules.languages.flatMap((code, i) =>
+        buildEntries(
+            enabled.map((type) => [type.id, type.keywords[code] ?? []] as [IncidentType, string[]]),
+            rules.packs[i].matchStems,
+        ),
+    ));
+
+    byLanguage.set(language, entries);
+    return entries;
+}
+
+/**
+ * Finds every keyword occurrence in a clause. Each word is claimed by at most one
+ * keyword, and a match is negated when a negator sits shortly before (or, for
+ * trailing negators, shortly after) it.
+ */
+function matchClause<T>(
+    clause: string[],
+    entries: KeywordEntry<T>[],
+    rules: ParserRules,
+): KeywordMatch<T>[] {
+    const claimed = new Array<boolean>(clause.length).fill(false);
+    const found: { start: number; match: KeywordMatch<T> }[] = [];
+
+    for (const entry of entries) {
+        const size = entry.tokens.length;
+        for (let start = 0; start + size <= clause.length; start++) {
+            const fits = entry.tokens.every((token, i) => {
+                const word = clause[start + i];
+                if (claimed[start + i]) return false;
+                return entry.matchStems ? word.startsWith(token) : word === token;
+            });
+            if (!fits) continue;
+
+            for (let i = 0; i < size; i++) claimed[start + i] = true;
+
+            const before = clause.slice(Math.max(0, start - NEGATION_WINDOW), start);
+            const after = clause.slice(start + size, start + size + TRAILING_NEGATION_WINDOW);
+            const negated =
+                before.some((token) => rules.negators.has(token)) ||
+                after.some((token) => rules.trailingNegators.has(token));
+
+            found.push({ start, match: { entry, negated } });
+        }
     }
 
-    // Low (2)
-    if (
-        lower.includes('low') ||
-        lower.includes('small') ||
-        lower.includes('limited')
-    ) {
-        return 2;
+    return found.sort((a, b) => a.start - b.start).map(({ match }) => match);
+}
+
+function rank<T>(
+    votes: { value: T; weight: number; phrase: string }[],
+    tieBreak: (a: T, b: T) => number,
+): ScoredCandidate<T>[] {
+    const byValue = new Map<T, ScoredCandidate<T>>();
+
+    for (const { value, weight, phrase } of votes) {
+        const candidate = byValue.get(value) ?? { value, score: 0, confidence: 0, keywords: [] };
+        candidate.score += weight;
+        candidate.keywords.push(phrase);
+        byValue.set(value, candidate);
     }
 
-    // Minor (1)
-    if (
-        lower.includes('minor') ||
-        lower.includes('minimal') ||
-        lower.includes('slight') ||
-        lower.includes('not serious') ||
-        lower.includes('no danger')
-    ) {
-        return 1;
+    const candidates = [...byValue.values()];
+    const total = candidates.reduce((sum, c) => sum + c.score, 0);
+
+    for (const candidate of candidates) {
+        const share = candidate.score / total;
+        const strength = Math.min(1, candidate.score / CONFIDENT_SCORE);
+        candidate.confidence = Math.round(share * strength * 100) / 100;
     }
 
-    return null;
+    return candidates.sort((a, b) => b.score - a.score || tieBreak(a.value, b.value));
 }
 
 /**
- * Parse the full transcript and return detected values
+ * Scores every incident type mentioned in the transcript. Negated mentions
+ * ("no flooding here") are ignored; multi-word phrases weigh more than single words.
  */
-export function parseVoiceTranscript(transcript: string): {
-    incidentType: IncidentType | null;
-    severity: Severity | null;
-} {
+export function scoreIncidentTypes(
+    transcript: string,
+    language: Language = 'en',
+    types: IncidentTypeDefinition[] = DEFAULT_INCIDENT_TYPES,
+): ScoredCandidate<IncidentType>[] {
+    const rules = getRules(language);
+    const typeEntries = getTypeEntries(types, language, rules);
+    const votes = toClauses(transcript, rules.clauseBreaks)
+        .flatMap((clause) => matchClause(clause, typeEntries, rules))
+        .filter(({ negated }) => !negated)
+        .map(({ entry }) => ({ value: entry.value, weight: entry.tokens.length, phrase: entry.phrase }));
+
+    const order = (id: IncidentType) => types.find((type) => type.id === id)?.sortOrder ?? 0;
+    return rank(votes, (a, b) => order(a) - order(b));
+}
+
+/**
+ * Scores severity levels. A negated high-severity word ("not serious", "no danger")
+ * votes for a lower level instead of being dropped. Ties go to the more severe level.
+ */
+export function scoreSeverity(
+    transcript: string,
+    language: Language = 'en',
+): ScoredCandidate<Severity>[] {
+    const rules = getRules(language);
+    const votes = toClauses(transcript, rules.clauseBreaks)
+        .flatMap((clause) => matchClause(clause, rules.severityEntries, rules))
+        .flatMap(({ entry, negated }) => {
+            const weight = entry.tokens.length;
+            if (!negated) return [{ value: entry.value, weight, phrase: entry.phrase }];
+            if (entry.value < 3) return [];
+            return [{
+                value: Math.max(1, entry.value - 3) as Severity,
+                weight,
+                phrase: `not ${entry.phrase}`,
+            }];
+        });
+
+    return rank(votes, (a, b) => b - a);
+}
+
+/**
+ * Detects incident type from voice transcript using keyword scoring
+ */
+export function detectIncidentType(
+    transcript: string,
+    language: Language = 'en',
+    types: IncidentTypeDefinition[] = DEFAULT_INCIDENT_TYPES,
+): IncidentType | null {
+    return scoreIncidentTypes(transcript, language, types)[0]?.value ?? null;
+}
+
+/**
+ * Detects severity level from voice transcript using keyword scoring
+ */
+export function detectSeverity(transcript: string, language: Language = 'en'): Severity | null {
+    return scoreSeverity(transcript, language)[0]?.value ?? null;
+}
+
+/**
+ * Parse the full transcript and return detected values with ranked candidates.
+ * `language` adds that language's keyword pack on top of English, and `types`
+ * is the incident type registry whose keywords are matched.
+ */
+export function parseVoiceTranscript(
+    transcript: string,
+    language: Language = 'en',
+    types: IncidentTypeDefinition[] = DEFAULT_INCIDENT_TYPES,
+): VoiceParseResult {
+    const typeCandidates = scoreIncidentTypes(transcript, language, types);
+    const severityCandidates = scoreSeverity(transcript, language);
+
     return {
-        incidentType: detectIncidentType(transcript),
-        severity: detectSeverity(transcript),
+        incidentType: typeCandidates[0]?.value ?? null,
+        severity: severityCandidates[0]?.value ?? null,
+        incidentTypes: typeCandidates.map((c) => c.value),
+        typeCandidates,
+        severityCandidates,
     };
 }
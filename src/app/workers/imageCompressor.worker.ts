@@ -0,0 +1,20 @@
+import {
+    compressWithOffscreenCanvas,
+    type CompressRequest,
+    type CompressResponse,
+} from '../utils/imageProcessing';
+
+// Decoding and re-encoding photos takes seconds on low-end phones, so it runs here
+// instead of blocking the report form
+self.addEventListener('message', async (event: MessageEvent<CompressRequest>) => {
+    const { id, file, options } = event.data;
+    let response: CompressResponse;
+
+    try {
+        response = { id, result: await compressWithOffscreenCanvas(file, options) };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    self.postMessage(response);
+});
@@ -1,9 +1,22 @@
 // db.ts
 import { Dexie, type EntityTable } from "dexie";
+import { TRAINING_MODE } from "../app/utils/trainingMode";
+import type {
+  CasualtyCounts,
+  CustomFieldAnswers,
+  DamageAssessment,
+  Incident,
+  IncidentEvent,
+  IncidentType,
+  IncidentTypeDefinition,
+  ReportFormField,
+  ResponseUnit,
+  UnitAssignment,
+} from "../types/incident";
 
 interface IncidentReport {
   id: string;
-  type: 'Flood' | 'Landslide' | 'Road Block' | 'Power Line Down';
+  type: IncidentType;
   severity: 1 | 2 | 3 | 4 | 5;
   location: {
     latitude: number;
@@ -11,25 +24,208 @@ interface IncidentReport {
     address?: string;
   };
   timestamp: string;
-  photo?: string;
+  description?: string;
+  assessment?: DamageAssessment;
+  customFields?: CustomFieldAnswers;
+  casualties?: CasualtyCounts;
+  /** `pending` waits out a retry backoff; `failed` has used up its attempts */
   status: 'local' | 'pending' | 'syncing' | 'synced' | 'failed';
   createdAt: string;
   userId: string;
+  /** Failed sync attempts since the report was saved or last manually retried */
+  attempts?: number;
+  lastError?: string;
+  lastAttemptAt?: string;
+  nextRetryAt?: string;
 }
 
+interface ReportAttachment {
+  id: string;
+  reportId: string;
+  /** Order the responder added the photos in */
+  position: number;
+  /** Annotated copies point at their untouched original; missing on rows from before markup */
+  kind?: 'original' | 'annotated';
+  sourceId?: string;
+  mimeType: string;
+  /** Full-size compressed photo; dropped once the report has synced to save space */
+  blob?: Blob;
+  thumbnail?: Blob;
+  uploadStatus: 'pending' | 'uploading' | 'uploaded' | 'failed';
+  remoteUrl?: string;
+  uploadError?: string;
+  createdAt: string;
+}
+
+/**
+ * Access token handed to the service worker so Background Sync can upload while the
+ * app is closed. The worker never refreshes it: that would rotate the refresh token
+ * out from under the page's own session.
+ */
+interface SyncCredentials {
+  id: "current";
+  userId: string;
+  accessToken: string;
+  /** Epoch seconds, as in the Supabase session */
+  expiresAt: number;
+}
+
+/** Incident fields the command dashboard can change */
+type IncidentChanges = Partial<Pick<Incident, "status" | "isRead">>;
+
+/**
+ * A dashboard change waiting to reach the server. Replayed in `seq` order; the
+ * dashboard shows the change straight away and drops it if the server rejects it.
+ */
+interface OutboxMutation {
+  seq: number;
+  incidentId: string;
+  changes: IncidentChanges;
+  createdAt: string;
+  /** Failed sends that will be tried again (network errors, 5xx) */
+  attempts: number;
+  lastError?: string;
+  /** Server `updated_at` the change was made against; the update only applies while it still matches */
+  baseUpdatedAt?: string;
+  /** Someone else changed the incident first; the change waits until it's re-applied or discarded */
+  conflict?: OutboxConflict;
+  /** Why the dispatcher made the change; recorded in the incident's audit trail */
+  reason?: string;
+}
+
+interface OutboxConflict {
+  server: IncidentChanges;
+  updatedAt?: string;
+  updatedBy?: string;
+  detectedAt: string;
+}
+
+/** Who the incident cache belongs to and how far it has been synced */
+interface IncidentCacheMeta {
+  id: "incidents";
+  userId: string;
+  /** Admins cache every incident, responders only their own */
+  isAdmin: boolean;
+  /** Highest server `updated_at` seen; the next fetch asks only for rows after it */
+  lastUpdatedAt?: string;
+  /** When the cache last matched the server */
+  lastSyncedAt: string;
+  /** Newest audit event cached; events are fetched after it */
+  lastEventAt?: string;
+}
+
+// Decodes a data URL without async APIs, which would end the upgrade transaction
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.split(",");
+  const mimeType = header.match(/data:([^;]+)/)?.[1] ?? "image/jpeg";
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
 class FieldResponderDB extends Dexie {
   reports!: EntityTable<IncidentReport, "id">;
+  // Offline copy of the incident type registry
+  incidentTypes!: EntityTable<IncidentTypeDefinition, "id">;
+  // Offline copy of the admin-defined report form
+  formFields!: EntityTable<ReportFormField, "id">;
+  // Report photos, kept out of `reports` so listing reports doesn't load images
+  attachments!: EntityTable<ReportAttachment, "id">;
+  // Session for the service worker's uploads; see SyncCredentials
+  syncCredentials!: EntityTable<SyncCredentials, "id">;
+  // Command-side incident changes made offline or not yet confirmed
+  outbox!: EntityTable<OutboxMutation, "seq">;
+  // Offline copy of the server's incidents, so the dashboard survives a reload in an outage
+  incidents!: EntityTable<Incident, "id">;
+  cacheMeta!: EntityTable<IncidentCacheMeta, "id">;
+  // Audit trail of the cached incidents
+  incidentEvents!: EntityTable<IncidentEvent, "id">;
+  // Offline copy of the unit registry and the assignments still open
+  responseUnits!: EntityTable<ResponseUnit, "id">;
+  unitAssignments!: EntityTable<UnitAssignment, "id">;
 
-  constructor() {
-    super("FieldResponderDB");
+  constructor(name: string) {
+    super(name);
     this.version(1).stores({
       reports: "id, type, severity, status, timestamp, createdAt"
     });
+    this.version(2).stores({
+      incidentTypes: "id, sortOrder"
+    });
+    this.version(3).stores({
+      formFields: "id, sortOrder"
+    });
+    this.version(4).stores({
+      attachments: "id, reportId, uploadStatus"
+    }).upgrade(async (tx) => {
+      // Move the single base64 `photo` (or its uploaded URL) off each report row
+      const reports = await tx.table("reports").toArray();
+      const attachments: ReportAttachment[] = [];
+
+      for (const report of reports) {
+        const photo: string | undefined = report.photo;
+        if (!photo) continue;
+
+        const isLocal = photo.startsWith("data:");
+        const blob = isLocal ? dataUrlToBlob(photo) : undefined;
+        attachments.push({
+          id: `${report.id}_photo`,
+          reportId: report.id,
+          position: 0,
+          mimeType: blob?.type ?? "image/jpeg",
+          blob,
+          thumbnail: blob,
+          uploadStatus: isLocal ? "pending" : "uploaded",
+          remoteUrl: isLocal ? undefined : photo,
+          createdAt: report.createdAt,
+        });
+      }
+
+      await tx.table("attachments").bulkAdd(attachments);
+      await tx.table("reports").toCollection().modify((report) => {
+        delete report.photo;
+      });
+    });
+    this.version(5).stores({
+      syncCredentials: "id"
+    });
+    this.version(6).stores({
+      outbox: "++seq, incidentId"
+    });
+    this.version(7).stores({
+      incidents: "id, updatedAt",
+      cacheMeta: "id"
+    });
+    this.version(8).stores({
+      incidentEvents: "id, incidentId, at"
+    });
+    this.version(9).stores({
+      responseUnits: "id, name",
+      unitAssignments: "id, unitId, incidentId"
+    });
     this.reports = this.table("reports");
+    this.incidentTypes = this.table("incidentTypes");
+    this.formFields = this.table("formFields");
+    this.attachments = this.table("attachments");
+    this.syncCredentials = this.table("syncCredentials");
+    this.outbox = this.table("outbox");
+    this.incidents = this.table("incidents");
+    this.cacheMeta = this.table("cacheMeta");
+    this.incidentEvents = this.table("incidentEvents");
+    this.responseUnits = this.table("responseUnits");
+    this.unitAssignments = this.table("unitAssignments");
   }
 }
 
-const db = new FieldResponderDB();
+// Drills get a database of their own, so exercise reports never sit in the operational queue
+const db = new FieldResponderDB(TRAINING_MODE ? "FieldResponderTrainingDB" : "FieldResponderDB");
 
-export type { IncidentReport };
+export type {
+  IncidentCacheMeta,
+  IncidentChanges,
+  IncidentReport,
+  OutboxConflict,
+  OutboxMutation,
+  ReportAttachment,
+  SyncCredentials,
+};
 export { db };
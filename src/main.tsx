@@ -3,6 +3,7 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import { createBrowserRouter, Navigate, RouterProvider } from "react-router-dom";
 import { registerSW } from "virtual:pwa-register";
+import { registerPeriodicSync } from "./app/utils/backgroundSync";
 
 import App from "./App";
 import EmergencyResponseRoute from "./app/EmergencyResponseRoute";
@@ -32,7 +33,12 @@ const router = createBrowserRouter([
 // Ensure the Vite PWA service worker takes control of every route load.
 // Ensure the Vite PWA service worker takes control of every route load.
 if (import.meta.env.PROD) {
-  registerSW({ immediate: true });
+  registerSW({
+    immediate: true,
+    onRegisteredSW(_swUrl, registration) {
+      if (registration) registerPeriodicSync(registration);
+    },
+  });
 } else {
   // In development, aggressive SW cleanup
   if ("serviceWorker" in navigator) {
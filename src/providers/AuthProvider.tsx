@@ -1,6 +1,6 @@
 
 import React, { createContext, useContext, useEffect, useState, useRef } from "react";
-import { supabase } from "../supabaseClient";
+import { getBackend } from "../app/backend/backend";
 import type { Session, User } from "@supabase/supabase-js";
 import { getUserProfile, login as apiLogin, logout as apiLogout, signup as apiSignup, type SignupData } from "../app/services/authService";
 import { useOnlineStatus } from "../app/hooks/useOnlineStatus";
@@ -60,13 +60,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                         const profile = await getUserProfile(parsedUser.id);
                         console.log("[AuthProvider] Cached user profile:", profile);
 
-                        if (!profile || profile.verification_status !== 'approved') {
+                        if (!profile || profile.verificationStatus !== 'approved') {
                             console.warn("[AuthProvider] Cached user NOT approved. Clearing session and NOT authenticating.");
                             localStorage.removeItem("sb-session");
                             localStorage.removeItem("sb-user");
                             localStorage.removeItem("sb-isAdmin");
-                            // Sign out from Supabase too
-                            await supabase.auth.signOut();
+                            // Sign out from the backend too
+                            await getBackend().auth.signOut();
                             setIsLoading(false);
                             return; // DO NOT SET isAuthenticated
                         }
@@ -102,7 +102,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         const syncAuth = async () => {
             syncInProgressRef.current = true;
-            const { data: { session: currentSession } } = await supabase.auth.getSession();
+            const currentSession = await getBackend().auth.getSession();
             const hasLocalSession = localStorage.getItem("sb-session");
 
             // 1. Check for Pending Offline Credentials (User logged in while offline)
@@ -122,7 +122,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                         const profile = await getUserProfile(data.user.id);
 
                         // Check if user is approved
-                        if (profile?.verification_status !== 'approved') {
+                        if (profile?.verificationStatus !== 'approved') {
                             console.warn("[AuthProvider] Offline sync user is not approved. Logging out.");
                             await apiLogout();
                             localStorage.removeItem("sb-pending-creds");
@@ -130,7 +130,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                             return;
                         }
 
-                        const adminStatus = profile?.is_admin || false;
+                        const adminStatus = profile?.isAdmin || false;
 
                         setUser(data.user);
                         setSession(data.session);
@@ -164,7 +164,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
                 // Refresh admin status
                 const profile = await getUserProfile(currentSession.user.id);
-                const adminStatus = profile?.is_admin || false;
+                const adminStatus = profile?.isAdmin || false;
                 setIsAdmin(adminStatus);
 
                 // Update cache
@@ -179,18 +179,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 console.warn("[AuthProvider] Session mismatch: Local exists, Supabase missing. Attempting restore.");
                 try {
                     const parsedSession = JSON.parse(hasLocalSession);
-                    const { data, error } = await supabase.auth.setSession({
+                    const restored = await getBackend().auth.setSession({
                         access_token: parsedSession.access_token,
                         refresh_token: parsedSession.refresh_token,
                     });
 
-                    if (data.session) {
+                    if (restored) {
                         console.log("[AuthProvider] Session restored successfully");
-                        setSession(data.session);
-                        setUser(data.session.user);
+                        setSession(restored);
+                        setUser(restored.user);
                         setIsAuthenticated(true);
                     } else {
-                        console.error("[AuthProvider] Failed to restore session. Error:", error);
+                        console.error("[AuthProvider] Failed to restore session");
                         handleLogout("Restore failed (syncAuth)");
                     }
                 } catch (e) {
@@ -203,7 +203,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 // We should sign out from Supabase to respect the user's logout intent.
                 console.warn("[AuthProvider] Supabase session exists but local session missing. Signing out from Supabase.");
                 try {
-                    await supabase.auth.signOut();
+                    await getBackend().auth.signOut();
                 } catch (e) {
                     console.error("[AuthProvider] Failed to sign out from Supabase", e);
                 }
@@ -226,7 +226,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         });
 
         // Listen for auth changes
-        const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, session) => {
+        const unsubscribe = getBackend().auth.onAuthStateChange(async (_event, session) => {
             // Skip if syncAuth is handling the auth state
             if (syncInProgressRef.current) {
                 console.log("[AuthProvider] onAuthStateChange skipped - syncAuth in progress");
@@ -249,7 +249,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 // If we just logged in via Supabase (e.g. valid token), we might need to fetch profile if we don't have it.
                 if (!isAdmin) {
                     const profile = await getUserProfile(session.user.id);
-                    const adminStatus = profile?.is_admin || false;
+                    const adminStatus = profile?.isAdmin || false;
                     setIsAdmin(adminStatus);
                     localStorage.setItem("sb-isAdmin", String(adminStatus));
                 }
@@ -262,7 +262,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         });
 
         return () => {
-            subscription.unsubscribe();
+            unsubscribe();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [isOnline]);
@@ -314,12 +314,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             // 2. Fetch Profile
             const profile = await getUserProfile(data.user.id);
             console.log("[AuthProvider] User profile:", profile);
-            console.log("[AuthProvider] verification_status:", profile?.verification_status);
+            console.log("[AuthProvider] verificationStatus:", profile?.verificationStatus);
 
             // 3. Check if user is approved
-            if (!profile || profile.verification_status !== 'approved') {
+            if (!profile || profile.verificationStatus !== 'approved') {
                 // User is not approved - sign them out and reset all state
-                console.warn("[AuthProvider] User NOT approved. Signing out and resetting state. Status:", profile?.verification_status);
+                console.warn("[AuthProvider] User NOT approved. Signing out and resetting state. Status:", profile?.verificationStatus);
 
                 // Clear all auth state
                 setUser(null);
@@ -336,16 +336,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 await apiLogout();
 
                 // Show appropriate error message based on status
-                if (profile?.verification_status === 'rejected') {
+                if (profile?.verificationStatus === 'rejected') {
                     throw new Error("Your account registration was rejected. Please contact the administrator for more information.");
-                } else if (profile?.verification_status === 'pending') {
+                } else if (profile?.verificationStatus === 'pending') {
                     throw new Error("Your account is pending approval. Please wait for an administrator to approve your account.");
                 } else {
                     throw new Error("Your account is not authorized to access this application.");
                 }
             }
 
-            const adminStatus = profile?.is_admin || false;
+            const adminStatus = profile?.isAdmin || false;
 
             // 4. Update State
             setUser(data.user);
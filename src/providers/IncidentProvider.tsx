@@ -1,28 +1,60 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
 import { useLiveQuery } from "dexie-react-hooks";
 
-import type { Incident, IncidentType } from "../types/incident";
+import type { Incident, IncidentEvent } from "../types/incident";
 import type { IncidentReport } from "../app/utils/storage";
 import { useSyncManager } from "../app/hooks/useSyncManager";
+import { refreshIncidentTypes } from "../app/services/incidentTypeService";
+import { refreshReportFormFields } from "../app/services/reportFormService";
 import { db } from "../db/db";
 import { storage } from "../app/utils/storage";
-import { supabase } from "../supabaseClient";
+import { TRAINING_MODE } from "../app/utils/trainingMode";
+import { toast } from "sonner";
+import {
+  describeChanges,
+  enqueueIncidentChange,
+  flushIncidentOutbox,
+  getConflicts,
+  getPendingChanges,
+  resolveConflict as resolveOutboxConflict,
+} from "../app/services/incidentOutbox";
+import { putCachedIncident, refreshIncidentCache, refreshIncidentEvents } from "../app/services/incidentCache";
+import { subscribeToIncidents, type RealtimeStatus } from "../app/services/incidentRealtime";
+import { watchDispatchBoard } from "../app/services/dispatchService";
+import { getResponseTimes } from "../app/utils/incidentTimeline";
+import { assertStatusChange, getIncidentRole, StatusTransitionError } from "../app/utils/incidentWorkflow";
 // Import useAuth to access the session state
 import { useAuth } from "./AuthProvider";
+import { useLanguage } from "../app/hooks/useLanguage";
 
 interface IncidentContextValue {
   incidents: Incident[];
   setIncidents: React.Dispatch<React.SetStateAction<Incident[]>>;
   registerFieldIncident: (report: IncidentReport, reporterName?: string) => Incident;
-  resetToMock: () => void;
-  resolveIncident: (id: string) => Promise<void>;
-  updateIncidentStatus: (id: string, status: Incident['status']) => Promise<void>;
+  resolveIncident: (id: string, reason?: string) => Promise<void>;
+  /**
+   * Checked against the status workflow for the user's role first; a refused change only
+   * shows a toast. `reason` is recorded with the change in the incident's audit trail.
+   */
+  updateIncidentStatus: (id: string, status: Incident['status'], reason?: string) => Promise<void>;
   markIncidentAsRead: (id: string) => Promise<void>;
+  /** Settles a change another commander overtook: send it anyway, or drop it */
+  resolveConflict: (seq: number, resolution: 'reapply' | 'discard') => Promise<void>;
   sync: () => Promise<void>;
+  /** When the cached server incidents were last refreshed; null before the first fetch */
+  cachedAt: Date | null;
+  /** Whether live updates are flowing; while reconnecting the list can lag the server */
+  realtimeStatus: RealtimeStatus;
 }
 
 const IncidentContext = createContext<IncidentContextValue | undefined>(undefined);
 
+// How long to wait before resending outbox changes after a server error
+const OUTBOX_RETRY_MS = 30 * 1000;
+
+// Reports from this device that haven't synced have no server row to change
+const isLocalOnlyIncident = (id: string) => id.startsWith("FIELD-");
+
 
 // Helper to map Local Dexie Report -> Incident
 export const mapReportToIncident = (
@@ -40,188 +72,172 @@ export const mapReportToIncident = (
       lat: Number(report.location.latitude),
       lng: Number(report.location.longitude),
     },
-    description: "Field report pending command triage.",
-    imageUrl: report.photo,
+    description: report.description?.trim() || "Field report pending command triage.",
+    assessment: report.assessment,
+    customFields: report.customFields,
+    casualties: report.casualties,
+    localId: report.id,
     status: report.status === "synced" ? "Responding" : "Active",
     isRead: false,
     reportedBy: reporterName ?? "Field Unit",
+    isTraining: TRAINING_MODE || undefined,
   };
 };
 
 export function IncidentProvider({ children }: { children: React.ReactNode }) {
 
   const { session, isLoading, isAdmin, isAuthenticated } = useAuth();
+  const { t } = useLanguage();
 
   // 2. Hook for background syncing (Dexie -> Supabase)
   const { sync } = useSyncManager(session || null);
 
-  // 3. State for Remote Data (Source of Truth)
-  const [remoteIncidents, setRemoteIncidents] = useState<Incident[]>([]);
+  // 3. Remote Data (Source of Truth), cached in Dexie so a reload while offline still shows it
+  const cachedIncidents = useLiveQuery(() => db.incidents.toArray());
+  const cacheMeta = useLiveQuery(() => db.cacheMeta.get('incidents'));
+  const cachedEvents = useLiveQuery(() => db.incidentEvents.orderBy('at').toArray());
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('connecting');
+
+  const sessionUserId = session?.user?.id;
+  const accessToken = session?.access_token;
 
   // 4. State for Local Data (Pending/Offline items)
-  const localReports = useLiveQuery(() => db.reports.toArray()) ?? [];
+  const localReports = useLiveQuery(() => db.reports.toArray());
+
+  // 4b. Dashboard changes not yet confirmed by the server
+  const outbox = useLiveQuery(() => db.outbox.orderBy('seq').toArray());
+
+  // Keep the offline copies of the incident type registry and report form current
+  // whenever we can reach the server
+  useEffect(() => {
+    if (isLoading || !isAuthenticated) return;
+
+    const refresh = () => {
+      refreshIncidentTypes().catch((err) =>
+        console.warn("[IncidentProvider] Incident type refresh failed, using cached registry:", err),
+      );
+      refreshReportFormFields().catch((err) =>
+        console.warn("[IncidentProvider] Report form refresh failed, using cached form:", err),
+      );
+    };
+
+    refresh();
+    window.addEventListener("online", refresh);
+    return () => window.removeEventListener("online", refresh);
+  }, [isLoading, isAuthenticated]);
 
   // 5. Fetch Trigger & Realtime Subscription
   useEffect(() => {
-    let isMounted = true;
     // Don't fetch until auth is complete AND user is verified/authenticated
     if (isLoading || !isAuthenticated) {
       console.log(`[IncidentProvider] Skipping fetch. isLoading=${isLoading}, isAuthenticated=${isAuthenticated}`);
       return;
     }
+    // An offline login has no token to fetch with, so the cache is all there is
+    if (!accessToken || !sessionUserId || sessionUserId === 'offline-user') return;
+
+    const owner = { userId: sessionUserId, isAdmin };
+
+    // One fetch at a time, so the gap fill after subscribing is a small delta rather
+    // than a second full load racing the first
+    let refreshing = Promise.resolve();
+    const fetchIncidents = () => {
+      if (!navigator.onLine) return;
+      refreshing = refreshing
+        .then(() => refreshIncidentCache(owner))
+        .then(
+          () => undefined,
+          (err) => console.error("[IncidentProvider] Incident fetch failed, showing cached incidents:", err),
+        );
+    };
 
-    // A. Initial Fetch (Using Hybrid approach: Prefer Raw REST if SDK is unreliable)
-    const fetchIncidents = async () => {
-      console.log(`[IncidentProvider] Fetching... Session exists: ${!!session?.access_token}`);
-
-      try {
-        // 0. Ensure Supabase Client is Authenticated
-        if (session?.access_token && session.user?.id !== 'offline-user') {
-          // SDK Fallback: Use Raw REST Fetch for reliable initial load
-          // bypassing potential SDK WebSocket/Client state issues.
-          let rawUrl = `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/incidents?select=*&order=created_at.desc`;
-
-          // ✅ Filter by User ID if not Admin
-          // We can check isAdmin from useAuth() hook which we have access to via `session` (partially)
-          // But better to use the `useAuth` hook value if possible. 
-          // However, inside useEffect we have `session`. We can check role via metadata or assuming caller logic.
-          // Since IncidentProvider consumes useAuth(), we can use the `isAdmin` boolean if we expose it or derive it.
-          // Wait, we don't have `isAdmin` in line 53 destructure. Let's add it.
-
-          // (Quick fix without changing destructure widely if needed, but better to get it)
-          // Actually, we need to check the isAdmin logic from AuthProvider.
-          // Assuming we update line 53 first.
-
-          // For now, let's assume we will update line 53 to: const { session, isLoading, isAdmin } = useAuth();
-          // And usage here:
-          if (!isAdmin) {
-            console.log(`[IncidentProvider] Filtering by user_id: ${session.user.id}`);
-            rawUrl += `&user_id=eq.${session.user.id}`;
-          } else {
-            console.log("[IncidentProvider] Admin user - fetching all incidents");
-          }
-
-          try {
-            console.log("[IncidentProvider] Attempting fetch via Supabase REST API...");
-            const rawResponse = await fetch(rawUrl, {
-              method: 'GET',
-              headers: {
-                'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-                'Authorization': `Bearer ${session.access_token}`,
-                'Content-Type': 'application/json'
-              }
-            });
-
-            if (rawResponse.ok) {
-              const rawData = await rawResponse.json();
-              console.log(`[IncidentProvider] REST API Success. Loaded ${rawData.length} incidents.`);
-
-              if (isMounted) {
-                const mappedRemote: Incident[] = rawData.map((row: any) => ({
-                  id: row.id,
-                  type: row.incident_type as IncidentType,
-                  severity: Number(row.severity) as 1 | 2 | 3 | 4 | 5,
-                  timestamp: new Date(row.created_at),
-                  location: {
-                    lat: Number(row.latitude),
-                    lng: Number(row.longitude),
-                    address: row.address, // Attempt to read address from DB row
-                  },
-                  description: row.description || "Command Center Report",
-                  imageUrl: row.image_url,
-                  status: row.status as any, // Use mapped status from DB
-                  isRead: row.is_read || false,
-                  reportedBy: "Command Center",
-                }));
-                setRemoteIncidents(mappedRemote);
-                return; // Exit successfully
-              }
-            } else {
-              console.warn(`[IncidentProvider] REST API Failed: ${rawResponse.status}`);
-            }
-          } catch (rawErr) {
-            console.error("[IncidentProvider] REST API Error:", rawErr);
-          }
-        }
-
-        // Fallback to SDK if REST failed (or if we decide to keep it as backup)
-        // But since we know SDK hangs, we basically just log here or skip.
-        // For now, we'll skip the hanging SDK query to avoid the timeout error log.
-        console.warn("[IncidentProvider] SDK Fetch skipped (relied on REST API).");
-
-      } catch (err) {
-        console.error("[IncidentProvider] UNEXPECTED ERROR in fetchIncidents:", err);
-      }
+    // A burst of live changes needs only one audit trail fetch
+    let eventsQueued = false;
+    const fetchEvents = () => {
+      if (eventsQueued) return;
+      eventsQueued = true;
+      refreshing = refreshing
+        .then(() => {
+          eventsQueued = false;
+          return refreshIncidentEvents(owner);
+        })
+        .then(
+          () => undefined,
+          (err) => console.warn("[IncidentProvider] Audit trail fetch failed:", err),
+        );
     };
 
     fetchIncidents();
+    // Catch up on whatever changed while the connection was down
+    window.addEventListener("online", fetchIncidents);
+
+    const unsubscribe = subscribeToIncidents({
+      ...owner,
+      onStatusChange: setRealtimeStatus,
+      onSubscribed: fetchIncidents,
+      onIncidentChanged: fetchEvents,
+    });
+
+    // Assigning a unit writes an audit event for commanders, and for responders can bring
+    // an incident into (or out of) view when their unit is sent there
+    const stopDispatch = watchDispatchBoard(isAdmin ? fetchEvents : fetchIncidents);
+
+    return () => {
+      window.removeEventListener("online", fetchIncidents);
+      unsubscribe();
+      stopDispatch();
+    };
+  }, [accessToken, sessionUserId, isLoading, isAdmin, isAuthenticated]);
 
-    // B. Realtime Subscription
-    // Attempting to re-enable Realtime. If this causes issues, it can be disabled.
-    try {
-      const channel = supabase
-        .channel('public:incidents')
-        .on(
-          'postgres_changes',
-          { event: '*', schema: 'public', table: 'incidents' },
-          (payload) => {
-            console.log(`[IncidentProvider] Realtime Event: ${payload.eventType}`);
-            const newRow = payload.new as any;
-
-            // ✅ Realtime Filter: If not Admin, ignore events from other users
-            if (!isAdmin && newRow.user_id && newRow.user_id !== session?.user?.id) {
-              return;
-            }
-
-            const mappedIncident: Incident = {
-              id: newRow.id,
-              type: newRow.incident_type as IncidentType,
-              severity: Number(newRow.severity) as 1 | 2 | 3 | 4 | 5,
-              timestamp: new Date(newRow.created_at),
-              location: {
-                lat: Number(newRow.latitude),
-                lng: Number(newRow.longitude),
-              },
-              description: newRow.description || "Realtime Report",
-              imageUrl: newRow.image_url,
-              status: newRow.status as any,
-              isRead: newRow.is_read || false,
-              reportedBy: "Realtime Update",
-            };
-
-            setRemoteIncidents((prev) => {
-              if (payload.eventType === 'INSERT') {
-                return [mappedIncident, ...prev];
-              } else if (payload.eventType === 'UPDATE') {
-                // If is_read changed, merge it carefully
-                return prev.map(inc => inc.id === mappedIncident.id ? { ...mappedIncident, reportedBy: inc.reportedBy } : inc);
-              }
-              return prev;
-            });
-          }
-        )
-        .subscribe();
-
-      return () => {
-        isMounted = false;
-        supabase.removeChannel(channel);
-      };
-    } catch (realtimeErr) {
-      console.error("[IncidentProvider] Realtime Subscription Error:", realtimeErr);
-      return () => { isMounted = false; };
+  // 6. Merge Logic
+  const cacheOwnerId = cacheMeta?.userId;
+  const incidents = useMemo(() => {
+    // A cache left behind by another account is cleared on the next fetch; never show it
+    const remoteIncidents = cacheOwnerId === sessionUserId ? cachedIncidents ?? [] : [];
+
+    // Queued changes sit on top of the server copy until they're confirmed or rejected
+    const pendingChanges = getPendingChanges(outbox ?? []);
+    const conflicts = getConflicts(outbox ?? []);
+
+    // Oldest first, as cached
+    const eventsByIncident = new Map<string, IncidentEvent[]>();
+    for (const event of cachedEvents ?? []) {
+      const list = eventsByIncident.get(event.incidentId);
+      if (list) list.push(event);
+      else eventsByIncident.set(event.incidentId, [event]);
     }
 
-  }, [session?.access_token, isLoading, isAdmin, isAuthenticated]);
+    const merged = remoteIncidents.map((inc): Incident => {
+      const changes = pendingChanges.get(inc.id);
+      const held = conflicts.get(inc.id);
+      const responseTimes = getResponseTimes(inc, eventsByIncident.get(inc.id) ?? []);
+      if (!changes && !held) return { ...inc, responseTimes };
+
+      return {
+        ...inc,
+        responseTimes,
+        ...(changes && { ...changes, hasPendingChanges: true }),
+        ...(held?.conflict && {
+          conflict: {
+            seq: held.seq,
+            attempted: held.changes,
+            server: held.conflict.server,
+            updatedBy: held.conflict.updatedBy,
+            updatedAt: held.conflict.updatedAt,
+          },
+        }),
+      };
+    });
 
-  // 6. Merge Logic
-  const incidents = useMemo(() => {
-    const merged = [...remoteIncidents];
+    // A report whose server row has arrived shows as that row only
+    const reachedServer = new Set(merged.map((inc) => inc.localId).filter(Boolean));
 
-    const unsyncedLocals = localReports.filter(
+    const unsyncedLocals = (localReports ?? []).filter(
       (r) => {
-        const isPending = r.status === 'local' || r.status === 'pending' || r.status === 'failed';
-        const isMyReport = r.userId === session?.user?.id;
-        console.log(`[IncidentProvider] Checking local report ${r.id}: userId=${r.userId} session=${session?.user?.id} match=${isMyReport}`);
+        // `syncing` included, or the report would vanish while it uploads
+        const isPending = r.status !== 'synced' && !reachedServer.has(r.id);
+        const isMyReport = r.userId === sessionUserId;
+        console.log(`[IncidentProvider] Checking local report ${r.id}: userId=${r.userId} session=${sessionUserId} match=${isMyReport}`);
         return isPending && isMyReport;
       }
     );
@@ -234,7 +250,10 @@ export function IncidentProvider({ children }: { children: React.ReactNode }) {
 
     return all.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
-  }, [remoteIncidents, localReports]);
+  }, [cachedIncidents, cachedEvents, cacheOwnerId, localReports, outbox, sessionUserId]);
+
+  const lastSyncedAt = cacheOwnerId === sessionUserId ? cacheMeta?.lastSyncedAt : undefined;
+  const cachedAt = useMemo(() => (lastSyncedAt ? new Date(lastSyncedAt) : null), [lastSyncedAt]);
 
   // Debug: Log when context value changes
   useEffect(() => {
@@ -253,136 +272,112 @@ export function IncidentProvider({ children }: { children: React.ReactNode }) {
     [],
   );
 
-  const resetToMock = useCallback(() => {
-  }, []);
-
-  const resolveIncident = useCallback(async (id: string) => {
-    // 1. Optimistic Update (UI updates immediately)
-    setRemoteIncidents(prev => prev.map(inc =>
-      inc.id === id ? { ...inc, status: 'Resolved' } : inc
-    ));
-
-    console.log(`[IncidentProvider] resolving incident ${id}. Using REST API fallback.`);
-
-    try {
-      if (!session?.access_token) {
-        console.error("[IncidentProvider] Cannot resolve: No session token available.");
-        // Revert optimistic update here if needed
-        return;
-      }
-
-      // 2. Use Raw REST API for reliability (SDK has known issues in this env)
-      const updateUrl = `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/incidents?id=eq.${id}`;
-
-      const response = await fetch(updateUrl, {
-        method: 'PATCH',
-        headers: {
-          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation' // Ask for the updated row back
-        },
-        body: JSON.stringify({ status: 'Resolved' })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[IncidentProvider] REST Update Failed: ${response.status} ${response.statusText}`, errorText);
-        throw new Error(`Failed to update incident: ${response.status} ${errorText}`);
-      }
+  // Replays the command-side outbox; changes the server refuses roll back with a toast
+  const flushOutbox = useCallback(async () => {
+    if (!accessToken || sessionUserId === 'offline-user' || !navigator.onLine) return null;
+
+    return flushIncidentOutbox({
+      onApplied: async (_mutation, incident) => {
+        // Apply to the server copy now so the row doesn't flicker back before the realtime
+        // update, and so a change queued next is made against this version
+        await putCachedIncident(incident).catch((err) =>
+          console.error("[IncidentProvider] Failed to update cached incident:", err),
+        );
+      },
+      onRejected: (mutation, error) => {
+        toast.error(`${mutation.incidentId}: ${describeChanges(mutation.changes)} was undone`, {
+          description: error,
+        });
+      },
+      onConflict: (mutation, conflict) => {
+        toast.warning(`${mutation.incidentId} was changed by ${conflict.updatedBy ?? "another dispatcher"}`, {
+          description: `Your change (${describeChanges(mutation.changes)}) is on hold. Open the incident to re-apply or discard it.`,
+        });
+      },
+    });
+  }, [accessToken, sessionUserId]);
 
-      const data = await response.json();
-      console.log("[IncidentProvider] REST Update Success:", data);
+  useEffect(() => {
+    let retryTimer: number | undefined;
+
+    const flush = () => {
+      window.clearTimeout(retryTimer);
+      flushOutbox()
+        .then((result) => {
+          // Server errors don't fire `online`, so try again on a timer
+          if (result?.stalled && navigator.onLine) retryTimer = window.setTimeout(flush, OUTBOX_RETRY_MS);
+        })
+        .catch((err) => console.error("[IncidentProvider] Outbox flush failed:", err));
+    };
 
-      if (Array.isArray(data) && data.length === 0) {
-        console.warn("[IncidentProvider] Update succeeded but returned no rows. Check RLS policies or ID.");
-      }
+    flush();
+    window.addEventListener("online", flush);
+    return () => {
+      window.clearTimeout(retryTimer);
+      window.removeEventListener("online", flush);
+    };
+  }, [flushOutbox]);
 
-    } catch (e: any) {
-      console.error("[IncidentProvider] Error resolving incident:", e);
-      // Optional: Revert optimistic update if API fails
-      // setRemoteIncidents(prev => ... revert ... );
+  const updateIncidentStatus = useCallback(async (id: string, newStatus: Incident['status'], reason?: string) => {
+    if (isLocalOnlyIncident(id)) {
+      toast.error(t("workflow.notOnServer"));
+      return;
+    }
+    const shown = await db.incidents.get(id);
+    if (!shown) {
+      toast.error(t("workflow.notOnBoard"));
+      return;
     }
-  }, [session?.access_token]);
-
-  const updateIncidentStatus = useCallback(async (id: string, newStatus: Incident['status']) => {
-    // 1. Optimistic Update
-    setRemoteIncidents(prev => prev.map(inc =>
-      inc.id === id ? { ...inc, status: newStatus } : inc
-    ));
-    // If it's being marked as resolved, also remove from map view effectively by status change
-    // If dispatched, just status change.
-
-    console.log(`[IncidentProvider] Updating incident ${id} status to ${newStatus}`);
 
+    // Judge the change against what the user sees, queued changes included
+    const queued = getPendingChanges(await db.outbox.where('incidentId').equals(id).sortBy('seq'));
     try {
-      if (!session?.access_token) {
-        console.error("[IncidentProvider] Cannot update: No session token available.");
-        return;
-      }
-
-      const updateUrl = `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/incidents?id=eq.${id}`;
-
-      const response = await fetch(updateUrl, {
-        method: 'PATCH',
-        headers: {
-          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        },
-        body: JSON.stringify({ status: newStatus })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[IncidentProvider] REST Update Failed: ${response.status} ${response.statusText}`, errorText);
-        throw new Error(`Failed to update incident: ${response.status} ${errorText}`);
-      }
-    } catch (e: any) {
-      console.error("[IncidentProvider] Error updating incident:", e);
+      assertStatusChange(queued.get(id)?.status ?? shown.status, newStatus, getIncidentRole(isAdmin), reason);
+    } catch (err) {
+      if (!(err instanceof StatusTransitionError)) throw err;
+      toast.error(err.translate(t));
+      return;
     }
-  }, [session?.access_token]);
 
-  const markIncidentAsRead = useCallback(async (id: string) => {
-    // 1. Optimistic Update
-    setRemoteIncidents(prev => prev.map(inc =>
-      inc.id === id ? { ...inc, isRead: true } : inc
-    ));
+    console.log(`[IncidentProvider] Queueing status ${newStatus} for incident ${id}`);
+    // Shown immediately through the outbox, which survives reloads while offline. The
+    // change only applies to the version shown here, so a concurrent edit isn't overwritten
+    await enqueueIncidentChange(id, { status: newStatus }, shown.updatedAt, reason?.trim() || undefined);
+    await flushOutbox();
+  }, [flushOutbox, isAdmin, t]);
 
+  const resolveIncident = useCallback(
+    (id: string, reason?: string) => updateIncidentStatus(id, 'Resolved', reason),
+    [updateIncidentStatus],
+  );
+
+  const markIncidentAsRead = useCallback(async (id: string) => {
+    if (isLocalOnlyIncident(id)) return;
     console.log(`[IncidentProvider] Marking incident ${id} as read`);
+    // No version check: reading can't undo anyone else's change
+    await enqueueIncidentChange(id, { isRead: true });
+    await flushOutbox();
+  }, [flushOutbox]);
 
-    try {
-      if (!session?.access_token) return;
-
-      const updateUrl = `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/incidents?id=eq.${id}`;
-
-      await fetch(updateUrl, {
-        method: 'PATCH',
-        headers: {
-          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ is_read: true })
-      });
-    } catch (e: any) {
-      console.error("[IncidentProvider] Error marking as read:", e);
-    }
-  }, [session?.access_token]);
+  const resolveConflict = useCallback(async (seq: number, resolution: 'reapply' | 'discard') => {
+    await resolveOutboxConflict(seq, resolution);
+    if (resolution === 'reapply') await flushOutbox();
+  }, [flushOutbox]);
 
   const value = useMemo(
     () => ({
       incidents,
       setIncidents,
       registerFieldIncident,
-      resetToMock,
-      resolveIncident: async (id: string) => updateIncidentStatus(id, 'Resolved'),
+      resolveIncident,
       updateIncidentStatus,
       markIncidentAsRead,
-      sync
+      resolveConflict,
+      sync,
+      cachedAt,
+      realtimeStatus
     }),
-    [incidents, registerFieldIncident, resetToMock, resolveIncident, sync, updateIncidentStatus, markIncidentAsRead],
+    [incidents, registerFieldIncident, resolveIncident, sync, updateIncidentStatus, markIncidentAsRead, resolveConflict, cachedAt, realtimeStatus],
   );
 
   return <IncidentContext.Provider value={value}>{children}</IncidentContext.Provider>;
@@ -0,0 +1,65 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+
+import { LanguageContext, type LanguageContextValue } from "../app/i18n/LanguageContext";
+import { LANGUAGES, formatMessage, type Language, type MessageKey, type MessageParams } from "../app/i18n/messages";
+import { storage } from "../app/utils/storage";
+
+const isLanguage = (value: string | null): value is Language =>
+  LANGUAGES.some((l) => l.code === value);
+
+// Saved choice first, then the device language, then English
+const getInitialLanguage = (): Language => {
+  const saved = storage.getLanguage();
+  if (isLanguage(saved)) return saved;
+
+  const deviceLanguage = navigator.language?.slice(0, 2) ?? null;
+  return isLanguage(deviceLanguage) ? deviceLanguage : "en";
+};
+
+export function LanguageProvider({ children }: { children: React.ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(getInitialLanguage);
+
+  const config = LANGUAGES.find((l) => l.code === language) ?? LANGUAGES[0];
+
+  // Keep <html lang> in step so screen readers and fonts pick the right script
+  useEffect(() => {
+    document.documentElement.lang = config.locale;
+  }, [config.locale]);
+
+  const setLanguage = useCallback((next: Language) => {
+    storage.setLanguage(next);
+    setLanguageState(next);
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => formatMessage(language, key, params),
+    [language],
+  );
+
+  const formatDateTime = useCallback(
+    (value: Date | string | number, options?: Intl.DateTimeFormatOptions) =>
+      new Date(value).toLocaleString(config.locale, options),
+    [config.locale],
+  );
+
+  const formatNumber = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) =>
+      value.toLocaleString(config.locale, options),
+    [config.locale],
+  );
+
+  const value = useMemo<LanguageContextValue>(
+    () => ({
+      language,
+      setLanguage,
+      locale: config.locale,
+      speechLang: config.speechLang,
+      t,
+      formatDateTime,
+      formatNumber,
+    }),
+    [language, setLanguage, config.locale, config.speechLang, t, formatDateTime, formatNumber],
+  );
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+}
@@ -1,4 +1,5 @@
 import { useEffect, useMemo, useState } from "react";
+import { RefreshCw, WifiOff } from "lucide-react";
 
 import { SummaryBadges } from "../app/components/SummaryBadges";
 import { FilterControls } from "../app/components/FilterControls";
@@ -6,10 +7,16 @@ import { MapView } from "../app/components/MapView";
 import { IncidentTable } from "../app/components/IncidentTable";
 import { IncidentDetailPanel } from "../app/components/IncidentDetailPanel";
 import { AccountApprovals } from "../app/components/accountApprovals";
+import { IncidentTypeManager } from "../app/components/IncidentTypeManager";
+import { ResponseUnitManager } from "../app/components/ResponseUnitManager";
+import { ReportFormBuilder } from "../app/components/ReportFormBuilder";
+import { TrainingConsole } from "../app/components/TrainingConsole";
 
 import type { Incident } from "../types/incident";
 import { useIncidentData } from "../providers/IncidentProvider";
 import { useAuth } from "../providers/AuthProvider";
+import { useOnlineStatus } from "../app/hooks/useOnlineStatus";
+import { getIncidentKey } from "../app/utils/incidentKey";
 
 interface DashboardFilters {
   types: Incident["type"][];
@@ -24,16 +31,17 @@ const defaultFilters: DashboardFilters = {
 };
 
 export default function CommandDashboardRoute() {
-  const { incidents } = useIncidentData();
+  const { incidents, cachedAt, realtimeStatus } = useIncidentData();
   const { logout } = useAuth();
+  const isOnline = useOnlineStatus();
   const [filters, setFilters] = useState<DashboardFilters>(defaultFilters);
 
-  const [selectedIncident, setSelectedIncident] = useState<Incident | null>(
-    null,
-  );
+  // Selection is kept by key so it follows a report through sync, when its FIELD- copy
+  // is replaced by the server row
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
 
   const [isPanelOpen, setIsPanelOpen] = useState(false);
-  const [activeView, setActiveView] = useState<"home" | "accounts">("home");
+  const [activeView, setActiveView] = useState<"home" | "accounts" | "types" | "units" | "form" | "training">("home");
 
   const filteredIncidents = useMemo(() => {
     return incidents.filter((incident) => {
@@ -55,26 +63,28 @@ export default function CommandDashboardRoute() {
   const activeIncidents = useMemo(() => filteredIncidents.filter(i => i.status !== 'Resolved'), [filteredIncidents]);
   const resolvedIncidents = useMemo(() => filteredIncidents.filter(i => i.status === 'Resolved'), [filteredIncidents]);
 
+  const selectedIncident = useMemo(
+    () => filteredIncidents.find((i) => getIncidentKey(i) === selectedKey) ?? null,
+    [filteredIncidents, selectedKey],
+  );
+
   useEffect(() => {
     // Determine the relevant list to select from based on where the selection came from?
     // Actually, we just need to ensure if an incident is selected, it can be from either list.
     // Auto-selection logic might need adjustment if we want to default to active only.
-    if (
-      selectedIncident &&
-      !filteredIncidents.some((i) => i.id === selectedIncident.id)
-    ) {
+    if (selectedKey && !selectedIncident) {
       const next = activeIncidents[0] ?? resolvedIncidents[0] ?? null;
-      setSelectedIncident(next);
+      setSelectedKey(next ? getIncidentKey(next) : null);
       if (!next) setIsPanelOpen(false);
     }
 
-    if (!selectedIncident && activeIncidents.length > 0) {
-      setSelectedIncident(activeIncidents[0]);
+    if (!selectedKey && activeIncidents.length > 0) {
+      setSelectedKey(getIncidentKey(activeIncidents[0]));
     }
-  }, [filteredIncidents, activeIncidents, resolvedIncidents, selectedIncident]);
+  }, [activeIncidents, resolvedIncidents, selectedKey, selectedIncident]);
 
   const handleIncidentClick = (incident: Incident) => {
-    setSelectedIncident(incident);
+    setSelectedKey(getIncidentKey(incident));
     setIsPanelOpen(true);
   };
 
@@ -91,6 +101,22 @@ export default function CommandDashboardRoute() {
         onLogout={logout}
       />
 
+      {!isOnline && (
+        <div className="flex items-center gap-3 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm font-semibold text-amber-900">
+          <WifiOff className="w-5 h-5 shrink-0" />
+          {cachedAt
+            ? `Offline — showing cached data from ${cachedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+            : "Offline — no cached incidents yet"}
+        </div>
+      )}
+
+      {isOnline && realtimeStatus === "reconnecting" && (
+        <div className="flex items-center gap-3 rounded-lg border border-gray-300 bg-gray-50 px-4 py-3 text-sm font-semibold text-gray-700">
+          <RefreshCw className="w-5 h-5 shrink-0 animate-spin" />
+          Live updates interrupted — reconnecting…
+        </div>
+      )}
+
       {activeView === "home" ? (
         <>
           <FilterControls filters={filters} onFilterChange={setFilters} />
@@ -141,8 +167,16 @@ export default function CommandDashboardRoute() {
             onClose={handleClosePanel}
           />
         </>
-      ) : (
+      ) : activeView === "accounts" ? (
         <AccountApprovals />
+      ) : activeView === "types" ? (
+        <IncidentTypeManager />
+      ) : activeView === "units" ? (
+        <ResponseUnitManager />
+      ) : activeView === "form" ? (
+        <ReportFormBuilder />
+      ) : (
+        <TrainingConsole />
       )}
     </section>
   );
@@ -0,0 +1,91 @@
+/// <reference lib="webworker" />
+import { clientsClaim } from 'workbox-core';
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { createBackend } from './app/backend/backend';
+
+import { db } from './db/db';
+import { runReportSync, type SyncProgress } from './app/services/reportSyncService';
+import { SYNCABLE_STATUSES } from './app/utils/syncBackoff';
+import {
+    BACKGROUND_SYNC_TAG,
+    PERIODIC_SYNC_TAG,
+    SYNC_PROGRESS_MESSAGE,
+    type SyncProgressMessage,
+} from './app/utils/backgroundSync';
+
+declare let self: ServiceWorkerGlobalScope;
+
+// Background Sync events aren't in the TypeScript webworker typings yet
+interface SyncEvent extends ExtendableEvent {
+    readonly tag: string;
+    /** True on the browser's final attempt; rejecting then won't schedule another */
+    readonly lastChance?: boolean;
+}
+
+// An upload can take a while on a weak signal, so don't start one with a token about to expire
+const TOKEN_EXPIRY_MARGIN_S = 60;
+
+// Same behaviour as the generated worker this replaces: update straight away, and
+// serve the app shell for every route when offline
+self.skipWaiting();
+clientsClaim();
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')));
+
+async function postProgress(progress: SyncProgress) {
+    const message: SyncProgressMessage = { type: SYNC_PROGRESS_MESSAGE, progress };
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    windows.forEach((client) => client.postMessage(message));
+}
+
+/** Uploads the Dexie queue. Resolves true when reports are still waiting afterwards */
+async function syncQueuedReports(): Promise<boolean> {
+    // A visible app runs its own sync with a fresher token. Overlapping runs are
+    // prevented anyway by the lock runReportSync takes
+    const windows = await self.clients.matchAll({ type: 'window' });
+    if (windows.some((client) => client.visibilityState === 'visible')) {
+        console.log('[ServiceWorker] App is open, leaving sync to the page.');
+        return false;
+    }
+
+    const credentials = await db.syncCredentials.get('current');
+    if (!credentials || credentials.expiresAt - TOKEN_EXPIRY_MARGIN_S <= Date.now() / 1000) {
+        console.log('[ServiceWorker] No usable session, reports will sync when the app is opened.');
+        return false;
+    }
+
+    await runReportSync(createBackend({ accessToken: credentials.accessToken }), {
+        userId: credentials.userId,
+        onProgress: (progress) => {
+            postProgress(progress).catch(() => undefined);
+        },
+    });
+
+    return (await db.reports.where('status').anyOf(SYNCABLE_STATUSES).count()) > 0;
+}
+
+self.addEventListener('sync', (event) => {
+    const syncEvent = event as SyncEvent;
+    if (syncEvent.tag !== BACKGROUND_SYNC_TAG) return;
+
+    syncEvent.waitUntil(
+        syncQueuedReports().then((remaining) => {
+            // Rejecting makes the browser fire the event again later, with its own backoff
+            if (remaining && !syncEvent.lastChance) throw new Error('Reports still queued');
+        }),
+    );
+});
+
+self.addEventListener('periodicsync', (event) => {
+    const syncEvent = event as SyncEvent;
+    if (syncEvent.tag !== PERIODIC_SYNC_TAG) return;
+
+    syncEvent.waitUntil(
+        syncQueuedReports().then(
+            () => undefined,
+            (error) => console.error('[ServiceWorker] Periodic sync failed:', error),
+        ),
+    );
+});
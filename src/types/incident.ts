@@ -1,4 +1,183 @@
-export type IncidentType = 'Flood' | 'Landslide' | 'Road Block' | 'Power Line Down';
+// Incident types come from the registry (see app/utils/incidentTypes.ts), so admins can add new
+// ones without a release. The four built-in types keep their original names as IDs.
+export type IncidentType = string;
+
+export interface IncidentTypeDefinition {
+  id: IncidentType;
+  /** English label, also the fallback for languages without a translation */
+  label: string;
+  /** Translated labels keyed by language code */
+  labels: Record<string, string>;
+  /** lucide-react icon name, see INCIDENT_TYPE_ICONS */
+  icon: string;
+  /** Hex colour used for badges and map accents */
+  color: string;
+  /** Voice parser keywords keyed by language code */
+  keywords: Record<string, string[]>;
+  /** Disabled types can't be picked for new reports but still render on old ones */
+  enabled: boolean;
+  sortOrder: number;
+  updatedAt?: string;
+}
+
+export type ReportFormFieldKind = 'text' | 'number' | 'select' | 'checkbox';
+
+/**
+ * An admin-defined question on the field report form. Answers are stored by `id`
+ * in the report's `customFields`.
+ */
+export interface ReportFormField {
+  id: string;
+  /** English label, also the fallback for languages without a translation */
+  label: string;
+  /** Translated labels keyed by language code */
+  labels: Record<string, string>;
+  kind: ReportFormFieldKind;
+  required: boolean;
+  /** Choices for select fields */
+  options: string[];
+  /** Incident types the field is asked for; empty means every type */
+  incidentTypes: IncidentType[];
+  /** Disabled fields are no longer asked but still render on old reports */
+  enabled: boolean;
+  sortOrder: number;
+  updatedAt?: string;
+}
+
+export type CustomFieldValue = string | number | boolean;
+export type CustomFieldAnswers = Record<string, CustomFieldValue>;
+
+export type WaterTrend = 'rising' | 'steady' | 'falling';
+export type VehicleClass = 'pedestrian' | 'motorcycle' | 'car' | 'truck' | 'emergency';
+export type HazardStatus = 'live' | 'isolated' | 'cleared';
+
+/**
+ * Type-specific damage assessment from the field. Only the fields that belong to the
+ * report's type are set (see ASSESSMENT_FIELDS).
+ */
+export interface DamageAssessment {
+  // Flood
+  waterDepthCm?: number;
+  waterTrend?: WaterTrend;
+  // Road Block
+  roadPassable?: boolean;
+  /** Vehicle classes that can still get through; only set when the road is passable */
+  passableVehicles?: VehicleClass[];
+  // Landslide
+  buildingsAffected?: number;
+  // Power Line Down
+  hazardStatus?: HazardStatus;
+}
+
+/** START triage categories: red, yellow, green and black tags */
+export type TriageCategory = 'immediate' | 'delayed' | 'minor' | 'expectant';
+
+/**
+ * Human impact counts from the field. Every count is optional because responders
+ * often only know some of them; a missing count means "not reported", not zero.
+ */
+export interface CasualtyCounts {
+  trapped?: number;
+  injured?: number;
+  dead?: number;
+  missing?: number;
+  evacuated?: number;
+  /** START tag tallies for the people the responder has triaged */
+  triage?: Partial<Record<TriageCategory, number>>;
+}
+
+type IncidentEditableFields = Partial<Pick<Incident, 'status' | 'isRead'>>;
+
+/** A change from this dashboard that another commander overtook on the server */
+export interface IncidentEditConflict {
+  /** Outbox entry holding the change, for re-applying or discarding it */
+  seq: number;
+  attempted: IncidentEditableFields;
+  /** What the server had when the change was refused */
+  server: IncidentEditableFields;
+  /** Name (or user ID) of whoever changed it, when the server records it */
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type ResponseUnitKind = 'fire' | 'army' | 'medical' | 'utility' | 'police';
+
+/** What a unit can do on scene; matched against what an incident type needs */
+export type UnitCapability =
+  | 'water_rescue'
+  | 'search_rescue'
+  | 'heavy_lifting'
+  | 'debris_clearance'
+  | 'first_aid'
+  | 'ambulance'
+  | 'evacuation'
+  | 'power_isolation'
+  | 'traffic_control';
+
+/** A response team command can dispatch, from the unit registry */
+export interface ResponseUnit {
+  id: string;
+  /** Call sign, e.g. "Colombo Fire 2" */
+  name: string;
+  kind: ResponseUnitKind;
+  capabilities: UnitCapability[];
+  base: {
+    name: string;
+    lat: number;
+    lng: number;
+  };
+  /** Taken off the board by command (maintenance, crew rest); committed is worked out from assignments */
+  inService: boolean;
+  /** Field responder accounts that crew the unit; they see and acknowledge its incidents */
+  memberIds: string[];
+  updatedAt?: string;
+}
+
+/** A unit sent to an incident; it stays committed there until released */
+export interface UnitAssignment {
+  id: string;
+  unitId: string;
+  incidentId: string;
+  assignedAt: string;
+  assignedBy?: string;
+  assignedByName?: string;
+  /** Set when the unit is stood down, or when the incident is resolved */
+  releasedAt?: string;
+}
+
+export type UnitAvailability = 'available' | 'committed' | 'out_of_service';
+
+/**
+ * What an audit event records: the incident being filed, a status change, a dispatcher
+ * opening it, a response unit assigned or released, or a change to any other field.
+ */
+export type IncidentEventKind = 'created' | 'status' | 'read' | 'assignment' | 'edit';
+
+/** One entry in an incident's audit trail, written by the server as the row changes */
+export interface IncidentEvent {
+  id: string;
+  incidentId: string;
+  kind: IncidentEventKind;
+  /** Column that changed, for `edit` events. Assignments carry the unit's name as the new value, releases as the old one */
+  field?: string;
+  oldValue?: string;
+  newValue?: string;
+  actorId?: string;
+  /** Actor's name at the time, so the trail still reads after an account is removed */
+  actorName?: string;
+  /** Why the change was made, when the dispatcher gave a reason */
+  reason?: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+/** Derived from the audit trail; see getResponseTimes */
+export interface ResponseTimes {
+  /** From the report to the first dispatch */
+  toDispatchMs?: number;
+  /** From the report to the resolution that still stands */
+  toResolveMs?: number;
+}
 
 export interface Incident {
   id: string;
@@ -11,8 +190,27 @@ export interface Incident {
     address?: string;
   };
   description: string;
+  assessment?: DamageAssessment;
+  customFields?: CustomFieldAnswers;
+  casualties?: CasualtyCounts;
   imageUrl?: string;
+  /** Every uploaded photo; `imageUrl` is the first one, kept for older rows */
+  imageUrls?: string[];
+  /**
+   * Dexie report ID from the device that filed it (the server's `local_id`). Links a
+   * local FIELD- incident to its server row, and shows photos before they upload
+   */
+  localId?: string;
   status: 'Active' | 'Dispatched' | 'Resolved' | 'Responding';
   isRead: boolean;
   reportedBy: string;
+  /** Server `updated_at`; the offline cache fetches only rows changed after the newest one */
+  updatedAt?: string;
+  /** Exercise data from training mode; never an operational record */
+  isTraining?: boolean;
+  /** Shown with changes from this dashboard that the server hasn't confirmed yet */
+  hasPendingChanges?: boolean;
+  conflict?: IncidentEditConflict;
+  /** Filled in by the provider from the cached audit trail */
+  responseTimes?: ResponseTimes;
 }